@@ -0,0 +1,85 @@
+/**
+ * EIP-2930 access list generation
+ *
+ * Uses the node's eth_createAccessList to pre-compute the addresses and
+ * storage slots a call touches. Mostly useful for upgradeable proxy tokens,
+ * where the implementation contract and its slots would otherwise be
+ * cold-loaded on every transfer.
+ */
+
+import { AccessList } from "@ethereumjs/tx";
+import { Logger } from "../shared/logger";
+import { sendJsonRpc, toHexQuantity } from "./json_rpc";
+
+/**
+ * Call to generate an access list for
+ */
+export interface AccessListRequest {
+  readonly from: string;
+  readonly to: string;
+  readonly data?: string;
+  readonly value?: bigint | number | string;
+}
+
+/**
+ * Access list returned by the node
+ */
+export interface AccessListResult {
+  readonly accessList: AccessList;
+  readonly gasUsed: number;
+}
+
+/**
+ * Generates an access list for a call via eth_createAccessList
+ *
+ * @param web3 - Web3 instance
+ * @param request - Call to analyse
+ * @returns Access list and gas used with it, or undefined if the node
+ *   does not support eth_createAccessList
+ */
+export async function createAccessList(
+  web3: any,
+  request: AccessListRequest
+): Promise<AccessListResult | undefined> {
+  const callObject = {
+    from: request.from,
+    to: request.to,
+    data: request.data,
+    value: request.value !== undefined ? toHexQuantity(request.value) : undefined,
+  };
+
+  try {
+    const result = await sendJsonRpc<{ accessList: AccessList; gasUsed: string; error?: string }>(
+      web3.currentProvider,
+      "eth_createAccessList",
+      [callObject, "pending"]
+    );
+
+    if (result.error) {
+      Logger.warn(`eth_createAccessList reported an error: ${result.error}`);
+      return undefined;
+    }
+
+    Logger.info(
+      `Access list generated: ${result.accessList.length} address(es), ` +
+      `gas used ${Number(result.gasUsed)}`
+    );
+
+    return { accessList: result.accessList, gasUsed: Number(result.gasUsed) };
+  } catch (error) {
+    Logger.warn(
+      `eth_createAccessList not available: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Counts the storage keys in an access list
+ *
+ * @param accessList - Access list
+ * @returns Total number of storage keys
+ */
+export function countStorageKeys(accessList: AccessList): number {
+  return accessList.reduce((total, item) => total + item.storageKeys.length, 0);
+}
@@ -0,0 +1,492 @@
+/**
+ * Token approval audit and bulk revoke
+ *
+ * Scans the Approval (ERC20) and ApprovalForAll (ERC-721/ERC-1155) events
+ * emitted for a vault's EVM address, from eth_getLogs or a local log
+ * file, reconstructs which approvals are still live with `allowance()` /
+ * `isApprovedForAll()` and writes a report. In revoke mode the selected
+ * approvals are reset with `approve(spender, 0)` /
+ * `setApprovalForAll(operator, false)` signed through Fireblocks RAW.
+ *
+ * Usage:
+ *   ts-node approval_audit.ts <vaultId> <chains.json> [--report <file>] [--revoke [all|token:spender,...]]
+ *
+ * chains.json: [{ "assetId": "ETH", "rpcUrl": "https://...", "logFile"?: "...", "fromBlock"?: 0 }]
+ */
+
+import * as fs from "fs";
+import {
+  ApprovalAuditParams,
+  ApprovalRecord,
+  AuditChain,
+  RevokeResult,
+} from "../shared/types";
+import { Logger } from "../shared/logger";
+import { takeOption } from "../shared/cli-options";
+import { APPROVAL_AUDIT, GAS } from "../shared/constants";
+import { ValidationError } from "../shared/errors";
+import { validateFileExists, validateNonEmptyArray } from "../shared/validators";
+import { initWeb3Instance } from "./web3_instance.refactored";
+import { getFeeData, describeFeeData, toTransactionFeeFields } from "./fee_data";
+import { sendJsonRpc, toHexQuantity } from "./json_rpc";
+
+/**
+ * Event topics
+ */
+const TOPICS = {
+  /** Approval(address indexed owner, address indexed spender, uint256 value) */
+  APPROVAL: "0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925",
+  /** ApprovalForAll(address indexed owner, address indexed operator, bool approved) */
+  APPROVAL_FOR_ALL: "0x17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c31",
+} as const;
+
+/**
+ * ABI fragment for reading and revoking approvals
+ */
+const APPROVAL_ABI = [
+  {
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+    ],
+    name: "allowance",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    name: "approve",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "operator", type: "address" },
+    ],
+    name: "isApprovedForAll",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "operator", type: "address" },
+      { name: "approved", type: "bool" },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+];
+
+/**
+ * Minimal log shape (eth_getLogs result)
+ */
+interface RawLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string | number;
+}
+
+/**
+ * Approval candidate derived from logs, before checking on-chain state
+ */
+interface ApprovalCandidate {
+  token: string;
+  spender: string;
+  kind: ApprovalRecord["kind"];
+  lastApprovalBlock: number;
+}
+
+/**
+ * Left-pads an address to a 32-byte topic
+ */
+function addressToTopic(address: string): string {
+  return `0x${address.toLowerCase().replace(/^0x/, "").padStart(64, "0")}`;
+}
+
+/**
+ * Extracts an address from a 32-byte topic
+ */
+function topicToAddress(topic: string): string {
+  return `0x${topic.slice(-40)}`;
+}
+
+/**
+ * Fetches logs for a topic filter, splitting ranges the provider rejects
+ *
+ * @param provider - Provider exposing `send(payload, callback)`
+ * @param topics - Topic filter
+ * @param fromBlock - First block
+ * @param toBlock - Last block
+ * @returns Logs in the range
+ */
+async function getLogsInRange(
+  provider: any,
+  topics: (string | string[] | null)[],
+  fromBlock: number,
+  toBlock: number
+): Promise<RawLog[]> {
+  try {
+    return await sendJsonRpc<RawLog[]>(provider, "eth_getLogs", [
+      { fromBlock: toHexQuantity(fromBlock), toBlock: toHexQuantity(toBlock), topics },
+    ]);
+  } catch (error) {
+    const span = toBlock - fromBlock + 1;
+    if (span <= APPROVAL_AUDIT.MIN_LOG_BLOCK_RANGE) {
+      throw error;
+    }
+
+    // Providers cap range or result size; halve and retry
+    const middle = fromBlock + Math.floor(span / 2) - 1;
+    Logger.debug(`eth_getLogs rejected ${fromBlock}-${toBlock}, splitting`);
+
+    return [
+      ...(await getLogsInRange(provider, topics, fromBlock, middle)),
+      ...(await getLogsInRange(provider, topics, middle + 1, toBlock)),
+    ];
+  }
+}
+
+/**
+ * Collects approval logs for an owner from the RPC or a local file
+ *
+ * @param web3 - Web3 instance
+ * @param chain - Chain configuration
+ * @param owner - Vault address
+ * @returns Approval and ApprovalForAll logs emitted for the owner
+ */
+async function collectApprovalLogs(
+  web3: any,
+  chain: AuditChain,
+  owner: string
+): Promise<RawLog[]> {
+  const ownerTopic = addressToTopic(owner);
+  const isOwnerApproval = (log: RawLog) =>
+    (log.topics[0] === TOPICS.APPROVAL || log.topics[0] === TOPICS.APPROVAL_FOR_ALL) &&
+    log.topics[1]?.toLowerCase() === ownerTopic;
+
+  if (chain.logFile) {
+    validateFileExists(chain.logFile);
+    const logs: RawLog[] = JSON.parse(fs.readFileSync(chain.logFile, "utf8"));
+    Logger.info(`Loaded ${logs.length} log(s) from ${chain.logFile}`);
+    return logs.filter(isOwnerApproval);
+  }
+
+  const latestBlock = Number(await web3.eth.getBlockNumber());
+  const topics = [[TOPICS.APPROVAL, TOPICS.APPROVAL_FOR_ALL], ownerTopic];
+  const logs: RawLog[] = [];
+
+  for (
+    let fromBlock = chain.fromBlock ?? 0;
+    fromBlock <= latestBlock;
+    fromBlock += APPROVAL_AUDIT.LOG_BLOCK_RANGE
+  ) {
+    const toBlock = Math.min(fromBlock + APPROVAL_AUDIT.LOG_BLOCK_RANGE - 1, latestBlock);
+    logs.push(...(await getLogsInRange(web3.currentProvider, topics, fromBlock, toBlock)));
+  }
+
+  return logs.filter(isOwnerApproval);
+}
+
+/**
+ * Reduces approval logs to the latest approval per (token, spender)
+ *
+ * ERC-721 single-token Approval events (tokenId indexed, 4 topics) are
+ * skipped: they are cleared on transfer and cannot be revoked in bulk.
+ */
+function toCandidates(logs: RawLog[]): ApprovalCandidate[] {
+  const candidates = new Map<string, ApprovalCandidate>();
+
+  for (const log of logs) {
+    const isErc20Approval = log.topics[0] === TOPICS.APPROVAL && log.topics.length === 3;
+    const isOperatorApproval = log.topics[0] === TOPICS.APPROVAL_FOR_ALL;
+
+    if (!isErc20Approval && !isOperatorApproval) {
+      continue;
+    }
+
+    const token = log.address.toLowerCase();
+    const spender = topicToAddress(log.topics[2]);
+    const key = `${token}:${spender}`;
+    const blockNumber = Number(log.blockNumber);
+    const existing = candidates.get(key);
+
+    if (!existing || blockNumber > existing.lastApprovalBlock) {
+      candidates.set(key, {
+        token,
+        spender,
+        kind: isErc20Approval ? "erc20" : "operator",
+        lastApprovalBlock: blockNumber,
+      });
+    }
+  }
+
+  return [...candidates.values()];
+}
+
+/**
+ * Checks which candidates are still live on-chain
+ */
+async function resolveLiveApprovals(
+  web3: any,
+  assetId: string,
+  owner: string,
+  candidates: ApprovalCandidate[]
+): Promise<ApprovalRecord[]> {
+  const records: ApprovalRecord[] = [];
+
+  for (const candidate of candidates) {
+    const contract = new web3.eth.Contract(APPROVAL_ABI, candidate.token);
+
+    try {
+      const allowance =
+        candidate.kind === "erc20"
+          ? BigInt(await contract.methods.allowance(owner, candidate.spender).call())
+          : (await contract.methods.isApprovedForAll(owner, candidate.spender).call())
+            ? 1n
+            : 0n;
+
+      if (allowance > 0n) {
+        records.push({
+          assetId,
+          owner,
+          ...candidate,
+          allowance: allowance.toString(),
+          unlimited:
+            candidate.kind === "operator" || allowance >= APPROVAL_AUDIT.UNLIMITED_ALLOWANCE,
+        });
+      }
+    } catch (error) {
+      Logger.warn(
+        `Could not read approval ${candidate.token} -> ${candidate.spender}: ` +
+        (error instanceof Error ? error.message : String(error))
+      );
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Audits live token approvals of a vault across chains
+ *
+ * @param params - Audit parameters
+ * @returns Live approvals, with the Web3 instance per chain for revoking
+ */
+async function auditChains(
+  params: ApprovalAuditParams
+): Promise<{ records: ApprovalRecord[]; web3ByAsset: Map<string, any> }> {
+  validateNonEmptyArray([...params.chains], "chains");
+
+  const records: ApprovalRecord[] = [];
+  const web3ByAsset = new Map<string, any>();
+
+  for (const chain of params.chains) {
+    const web3 = await initWeb3Instance({
+      fireblocksApiClient: params.fireblocksApiClient,
+      httpProviderUrl: chain.rpcUrl,
+      vaultAccountId: params.vaultAccountId,
+      assetId: chain.assetId,
+      amount: 0,
+      destAddress: "approval revoke",
+      note: `Revoke token approval from vault ${params.vaultAccountId}`,
+      nonceManager: params.nonceManager,
+    });
+    web3ByAsset.set(chain.assetId, web3);
+
+    const owner: string = web3.eth.defaultAccount;
+    Logger.info(`Scanning approvals of ${owner} on ${chain.assetId}`);
+
+    const candidates = toCandidates(await collectApprovalLogs(web3, chain, owner));
+    const live = await resolveLiveApprovals(web3, chain.assetId, owner, candidates);
+
+    Logger.info(
+      `${chain.assetId}: ${candidates.length} approval pair(s) seen, ${live.length} still live`
+    );
+    records.push(...live);
+  }
+
+  return { records, web3ByAsset };
+}
+
+/**
+ * Audits live token approvals of a vault across chains
+ *
+ * @param params - Audit parameters
+ * @returns Live approvals
+ *
+ * @example
+ * ```typescript
+ * const approvals = await auditApprovals({
+ *   fireblocksApiClient,
+ *   vaultAccountId: "5",
+ *   chains: [{ assetId: "ETH", rpcUrl: "https://..." }],
+ * });
+ * ```
+ */
+export async function auditApprovals(params: ApprovalAuditParams): Promise<ApprovalRecord[]> {
+  return (await auditChains(params)).records;
+}
+
+/**
+ * Revokes approvals by signing approve(spender, 0) / setApprovalForAll(operator, false)
+ *
+ * Revokes are sent one at a time; a failure is recorded and the rest
+ * continue.
+ *
+ * @param web3ByAsset - Fireblocks Web3 instance per asset ID
+ * @param records - Approvals to revoke
+ * @returns Revoke results
+ */
+async function revokeWith(
+  web3ByAsset: Map<string, any>,
+  records: readonly ApprovalRecord[]
+): Promise<RevokeResult[]> {
+  const results: RevokeResult[] = [];
+
+  for (const record of records) {
+    const web3 = web3ByAsset.get(record.assetId);
+
+    try {
+      const contract = new web3.eth.Contract(APPROVAL_ABI, record.token);
+      const call =
+        record.kind === "erc20"
+          ? contract.methods.approve(record.spender, 0)
+          : contract.methods.setApprovalForAll(record.spender, false);
+
+      const feeData = await getFeeData(web3);
+      Logger.info(`Revoking ${record.kind} approval ${record.token} -> ${record.spender}`);
+      Logger.info(describeFeeData(feeData));
+
+      const estimatedGas = Number(await call.estimateGas({ from: record.owner }));
+      const signedTransaction = await web3.eth.signTransaction({
+        to: record.token,
+        data: call.encodeABI(),
+        value: "0x0",
+        gasLimit: Math.floor(estimatedGas * GAS.ESTIMATION_BUFFER),
+        ...toTransactionFeeFields(feeData),
+      });
+      const receipt = await web3.eth.sendSignedTransaction(
+        signedTransaction.raw || signedTransaction
+      );
+
+      Logger.success(`Revoked. Transaction hash: ${receipt.transactionHash}`);
+      results.push({ record, transactionHash: receipt.transactionHash });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      Logger.error(`Revoke failed for ${record.token} -> ${record.spender}: ${message}`);
+      results.push({ record, error: message });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Audits approvals and revokes the selected ones
+ *
+ * @param params - Audit parameters
+ * @param select - Chooses which live approvals to revoke
+ * @returns Revoke results
+ */
+export async function revokeApprovals(
+  params: ApprovalAuditParams,
+  select: (record: ApprovalRecord) => boolean = () => true
+): Promise<RevokeResult[]> {
+  const { records, web3ByAsset } = await auditChains(params);
+  const selected = records.filter(select);
+
+  Logger.info(`Revoking ${selected.length} of ${records.length} live approval(s)`);
+
+  return revokeWith(web3ByAsset, selected);
+}
+
+/**
+ * Builds a revoke selector from a CLI argument
+ *
+ * @param selection - "all" or comma-separated token:spender pairs
+ * @returns Record predicate
+ */
+function parseRevokeSelection(selection: string): (record: ApprovalRecord) => boolean {
+  if (selection === "all") {
+    return () => true;
+  }
+
+  const pairs = new Set(
+    selection.split(",").map((pair) => {
+      const [token, spender] = pair.split(":");
+      if (!token || !spender) {
+        throw new ValidationError("--revoke", pair, "Expected token:spender");
+      }
+      return `${token.toLowerCase()}:${spender.toLowerCase()}`;
+    })
+  );
+
+  return (record) => pairs.has(`${record.token}:${record.spender}`);
+}
+
+/**
+ * CLI entry point
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const reportPath = takeOption(args, "--report", true);
+  const revoke = takeOption(args, "--revoke", true);
+  const [vaultAccountId, chainsPath] = args;
+
+  if (!vaultAccountId || !chainsPath || reportPath === true) {
+    Logger.error(
+      "Usage: ts-node approval_audit.ts <vaultId> <chains.json> " +
+      "[--report <file>] [--revoke [all|token:spender,...]]"
+    );
+    process.exit(1);
+  }
+
+  validateFileExists(chainsPath);
+  const chains: AuditChain[] = JSON.parse(fs.readFileSync(chainsPath, "utf8"));
+
+  // Loaded lazily: the config module reads the API secret on import
+  const { createFireblocksClient } = require("../shared/config");
+  const params = { fireblocksApiClient: createFireblocksClient(), vaultAccountId, chains };
+
+  const { records, web3ByAsset } = await auditChains(params);
+
+  for (const record of records) {
+    Logger.info(
+      `${record.assetId} ${record.token} -> ${record.spender} ` +
+      `(${record.kind}, ${record.unlimited ? "unlimited" : record.allowance}, block ${record.lastApprovalBlock})`
+    );
+  }
+
+  const output = typeof reportPath === "string" ? reportPath : `approvals_vault_${vaultAccountId}.json`;
+  fs.writeFileSync(output, JSON.stringify(records, null, 2));
+  Logger.success(`${records.length} live approval(s) written to ${output}`);
+
+  if (revoke !== undefined) {
+    const select = parseRevokeSelection(typeof revoke === "string" ? revoke : "all");
+    const results = await revokeWith(web3ByAsset, records.filter(select));
+    const failures = results.filter((result) => result.error).length;
+
+    Logger.info(`Revoked ${results.length - failures}/${results.length} approval(s)`);
+
+    if (failures > 0) {
+      process.exit(1);
+    }
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    Logger.error("Approval audit failed", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,316 @@
+/**
+ * Read-only balance scanner
+ *
+ * Reads native and ERC20 balances for many (address, token) pairs in a
+ * few requests: batched through Multicall3 `aggregate3` where deployed,
+ * and through JSON-RPC batches otherwise. Talks to the RPC directly and
+ * never creates a Fireblocks signing provider.
+ *
+ * Usage:
+ *   ts-node balance_scanner.ts <rpcUrl> <assetId> <vaultId,vaultId,...|vaults.txt> [tokenAddress...] [--out <file>]
+ */
+
+import * as fs from "fs";
+import { BalanceInfo, BalanceQuery } from "../shared/types";
+import { Logger } from "../shared/logger";
+import { takeOption } from "../shared/cli-options";
+import { MULTICALL } from "../shared/constants";
+import { validateEthereumAddress, validateRpcUrl } from "../shared/validators";
+import { formatUnits } from "../shared/amounts";
+import { postJsonRpc, postJsonRpcBatch } from "./json_rpc";
+
+const { Web3 } = require("web3");
+
+/**
+ * Function selectors
+ */
+const SELECTORS = {
+  BALANCE_OF: "0x70a08231",
+  DECIMALS: "0x313ce567",
+  GET_ETH_BALANCE: "0x4d2301cc",
+} as const;
+
+/**
+ * Multicall3 aggregate3 fragment
+ */
+const AGGREGATE3_ABI = {
+  name: "aggregate3",
+  type: "function",
+  inputs: [
+    {
+      name: "calls",
+      type: "tuple[]",
+      components: [
+        { name: "target", type: "address" },
+        { name: "allowFailure", type: "bool" },
+        { name: "callData", type: "bytes" },
+      ],
+    },
+  ],
+};
+
+/**
+ * Multicall3 aggregate3 return type
+ */
+const AGGREGATE3_RESULT = {
+  type: "tuple[]",
+  components: [
+    { name: "success", type: "bool" },
+    { name: "returnData", type: "bytes" },
+  ],
+};
+
+/**
+ * Read-only call
+ */
+interface ReadCall {
+  readonly target: string;
+  readonly callData: string;
+}
+
+/**
+ * Outcome of a read-only call
+ */
+interface ReadResult {
+  readonly value?: bigint;
+  readonly error?: string;
+}
+
+/**
+ * Encodes a call taking a single address argument
+ */
+function encodeAddressCall(selector: string, address: string): string {
+  return `${selector}${address.toLowerCase().replace(/^0x/, "").padStart(64, "0")}`;
+}
+
+/**
+ * Decodes a single uint256 return value
+ */
+function decodeUint(returnData: string | undefined): ReadResult {
+  if (!returnData || returnData === "0x" || returnData.length < 66) {
+    return { error: "empty return data" };
+  }
+  return { value: BigInt(returnData.slice(0, 66)) };
+}
+
+/**
+ * Runs read-only calls through Multicall3 aggregate3
+ */
+async function readViaMulticall(rpcUrl: string, calls: ReadCall[]): Promise<ReadResult[]> {
+  const abi = new Web3().eth.abi;
+  const results: ReadResult[] = [];
+
+  for (let start = 0; start < calls.length; start += MULTICALL.BATCH_SIZE) {
+    const chunk = calls.slice(start, start + MULTICALL.BATCH_SIZE);
+    const data = abi.encodeFunctionCall(AGGREGATE3_ABI, [
+      chunk.map((call) => [call.target, true, call.callData]),
+    ]);
+
+    const returned = await postJsonRpc<string>(rpcUrl, "eth_call", [
+      { to: MULTICALL.ADDRESS, data },
+      "latest",
+    ]);
+    const decoded: { success: boolean; returnData: string }[] = abi.decodeParameter(
+      AGGREGATE3_RESULT,
+      returned
+    );
+
+    for (const { success, returnData } of decoded) {
+      results.push(success ? decodeUint(returnData) : { error: "call reverted" });
+    }
+
+    Logger.debug(`Multicall: ${Math.min(start + chunk.length, calls.length)}/${calls.length}`);
+  }
+
+  return results;
+}
+
+/**
+ * Runs read-only requests through JSON-RPC batches
+ */
+async function readViaRpcBatch(
+  rpcUrl: string,
+  requests: { method: string; params: any[] }[]
+): Promise<ReadResult[]> {
+  const results: ReadResult[] = [];
+
+  for (let start = 0; start < requests.length; start += MULTICALL.RPC_BATCH_SIZE) {
+    const chunk = requests.slice(start, start + MULTICALL.RPC_BATCH_SIZE);
+    const responses = await postJsonRpcBatch<string>(rpcUrl, chunk);
+
+    responses.forEach((response, index) => {
+      if (response.error) {
+        results.push({ error: response.error.message });
+      } else if (chunk[index].method === "eth_getBalance") {
+        // Balances come back as quantities, not ABI-encoded words
+        results.push({ value: BigInt(response.result!) });
+      } else {
+        results.push(decodeUint(response.result));
+      }
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Checks whether Multicall3 is deployed on the chain behind `rpcUrl`
+ */
+async function hasMulticall(rpcUrl: string): Promise<boolean> {
+  const code = await postJsonRpc<string>(rpcUrl, "eth_getCode", [MULTICALL.ADDRESS, "latest"]);
+  return !!code && code !== "0x";
+}
+
+/**
+ * Reads native and ERC20 balances for many addresses
+ *
+ * Token decimals are read once per token. Results keep the query order;
+ * a failed read is reported in `error` instead of failing the scan.
+ *
+ * @param rpcUrl - RPC endpoint
+ * @param queries - (address, token) pairs; omit token for native balance
+ * @returns Balance per query
+ *
+ * @example
+ * ```typescript
+ * const balances = await scanBalances("https://...", [
+ *   { address: "0x..." },
+ *   { address: "0x...", token: "0x..." },
+ * ]);
+ * ```
+ */
+export async function scanBalances(
+  rpcUrl: string,
+  queries: readonly BalanceQuery[]
+): Promise<BalanceInfo[]> {
+  validateRpcUrl(rpcUrl);
+  queries.forEach((query) => {
+    validateEthereumAddress(query.address, "address");
+    if (query.token) validateEthereumAddress(query.token, "token");
+  });
+
+  const tokens = [...new Set(queries.filter((q) => q.token).map((q) => q.token!.toLowerCase()))];
+  const useMulticall = await hasMulticall(rpcUrl);
+
+  Logger.info(
+    `Scanning ${queries.length} balance(s) across ${tokens.length} token(s) via ` +
+    (useMulticall ? "Multicall3" : "JSON-RPC batches")
+  );
+
+  const balanceCalls: ReadCall[] = queries.map((query) =>
+    query.token
+      ? { target: query.token, callData: encodeAddressCall(SELECTORS.BALANCE_OF, query.address) }
+      : { target: MULTICALL.ADDRESS, callData: encodeAddressCall(SELECTORS.GET_ETH_BALANCE, query.address) }
+  );
+  const decimalCalls: ReadCall[] = tokens.map((token) => ({
+    target: token,
+    callData: SELECTORS.DECIMALS,
+  }));
+
+  const results = useMulticall
+    ? await readViaMulticall(rpcUrl, [...decimalCalls, ...balanceCalls])
+    : await readViaRpcBatch(rpcUrl, [
+        ...decimalCalls.map((call) => ({
+          method: "eth_call",
+          params: [{ to: call.target, data: call.callData }, "latest"],
+        })),
+        ...queries.map((query, index) =>
+          query.token
+            ? {
+                method: "eth_call",
+                params: [{ to: query.token, data: balanceCalls[index].callData }, "latest"],
+              }
+            : { method: "eth_getBalance", params: [query.address, "latest"] }
+        ),
+      ]);
+
+  const decimalsByToken = new Map<string, ReadResult>(
+    tokens.map((token, index) => [token, results[index]])
+  );
+
+  return queries.map((query, index) => {
+    const result = results[tokens.length + index];
+    const decimalsResult = query.token ? decimalsByToken.get(query.token.toLowerCase())! : { value: 18n };
+    const error = result.error ?? (decimalsResult.error && `decimals: ${decimalsResult.error}`);
+
+    if (error || result.value === undefined || decimalsResult.value === undefined) {
+      return {
+        address: query.address,
+        token: query.token,
+        balance: "0",
+        balanceInEther: "0",
+        balanceInWei: "0",
+        error: error || "unknown error",
+      };
+    }
+
+    const decimals = Number(decimalsResult.value);
+    const formatted = formatUnits(result.value, decimals);
+
+    return {
+      address: query.address,
+      token: query.token,
+      decimals,
+      balance: formatted,
+      balanceInEther: formatted,
+      balanceInWei: result.value.toString(),
+    };
+  });
+}
+
+/**
+ * CLI entry point
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const outPath = takeOption(args, "--out", true);
+  const [rpcUrl, assetId, vaults, ...tokens] = args;
+
+  if (!rpcUrl || !assetId || !vaults || outPath === true) {
+    Logger.error(
+      "Usage: ts-node balance_scanner.ts <rpcUrl> <assetId> " +
+      "<vaultId,vaultId,...|vaults.txt> [tokenAddress...] [--out <file>]"
+    );
+    process.exit(1);
+  }
+
+  const vaultIds = (fs.existsSync(vaults) ? fs.readFileSync(vaults, "utf8") : vaults)
+    .split(/[\s,]+/)
+    .filter(Boolean);
+
+  // Loaded lazily: the config module reads the API secret on import
+  const { createFireblocksClient } = require("../shared/config");
+  const fireblocksClient = createFireblocksClient();
+
+  // Deposit addresses are read from the API; no signing provider is created
+  const addresses: { vaultId: string; address: string }[] = [];
+  for (const vaultId of vaultIds) {
+    const deposits = await fireblocksClient.getDepositAddresses(vaultId, assetId);
+    deposits.forEach((deposit: any) => addresses.push({ vaultId, address: deposit.address }));
+  }
+
+  const queries: BalanceQuery[] = addresses.flatMap(({ address }) => [
+    { address },
+    ...tokens.map((token) => ({ address, token })),
+  ]);
+
+  const balances = await scanBalances(rpcUrl, queries);
+  const vaultByAddress = new Map(addresses.map((entry) => [entry.address.toLowerCase(), entry.vaultId]));
+  const report = balances.map((balance) => ({
+    vaultId: vaultByAddress.get(balance.address!.toLowerCase()),
+    ...balance,
+  }));
+
+  const output = typeof outPath === "string" ? outPath : `balances_${assetId}.json`;
+  fs.writeFileSync(output, JSON.stringify(report, null, 2));
+
+  const nonZero = report.filter((entry) => entry.balanceInWei !== "0").length;
+  Logger.success(`${report.length} balance(s) scanned, ${nonZero} non-zero, written to ${output}`);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    Logger.error("Balance scan failed", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,87 @@
+/**
+ * Broadcasts signed transaction export files
+ *
+ * Submits files written by the sign-only mode of initWeb3Instance /
+ * transfer() to any RPC endpoint. `rpcUrl` is used for reads; with
+ * --private or --bundle the transactions go to a Flashbots-style relay
+ * (RELAY_URL env var, defaults to the Flashbots relay) instead of the
+ * public mempool.
+ *
+ * Usage:
+ *   ts-node broadcast_signed_transaction.ts [--private|--bundle] <rpcUrl> <exportFile> [exportFile...]
+ */
+
+import { TransactionBroadcaster } from "../shared/types";
+import { Logger } from "../shared/logger";
+import { RPC_ENDPOINTS } from "../shared/constants";
+import { validateRpcUrl } from "../shared/validators";
+import { broadcastSignedTransactionExport } from "./signed_transaction_export";
+import {
+  BundleBroadcaster,
+  PrivateTransactionBroadcaster,
+  RpcBroadcaster,
+} from "./broadcasters";
+
+const { Web3 } = require("web3");
+
+/**
+ * Creates the broadcast backend selected on the command line
+ *
+ * @param mode - "--private", "--bundle" or undefined for the public mempool
+ * @param provider - Read provider
+ * @returns Broadcaster
+ */
+function createBroadcaster(mode: string | undefined, provider: any): TransactionBroadcaster {
+  const relayUrl = process.env.RELAY_URL || RPC_ENDPOINTS.FLASHBOTS_RELAY;
+  const authPrivateKey = process.env.RELAY_AUTH_KEY || undefined;
+
+  switch (mode) {
+    case "--private":
+      return new PrivateTransactionBroadcaster({ relayUrl, readProvider: provider, authPrivateKey });
+    case "--bundle":
+      return new BundleBroadcaster({ relayUrl, readProvider: provider, authPrivateKey });
+    default:
+      return new RpcBroadcaster(provider);
+  }
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const mode = args[0]?.startsWith("--") ? args.shift() : undefined;
+  const [rpcUrl, ...files] = args;
+
+  if (!rpcUrl || files.length === 0 || (mode && mode !== "--private" && mode !== "--bundle")) {
+    Logger.error(
+      "Usage: ts-node broadcast_signed_transaction.ts [--private|--bundle] " +
+      "<rpcUrl> <exportFile> [exportFile...]"
+    );
+    process.exit(1);
+  }
+
+  validateRpcUrl(rpcUrl);
+  const provider = new Web3.providers.HttpProvider(rpcUrl);
+  const broadcaster = createBroadcaster(mode, provider);
+
+  let failures = 0;
+
+  // Sequential, in the order given: exports from one address must land in nonce order
+  for (const file of files) {
+    try {
+      await broadcastSignedTransactionExport(file, provider, broadcaster);
+    } catch (error) {
+      failures++;
+      Logger.error(`Failed to broadcast ${file}`, error);
+    }
+  }
+
+  Logger.info(`Broadcast ${files.length - failures}/${files.length} transaction(s)`);
+
+  if (failures > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  Logger.error("Broadcast failed", error);
+  process.exit(1);
+});
@@ -0,0 +1,180 @@
+/**
+ * Transaction broadcast backends
+ *
+ * Separates where signed transactions are sent from the RPC used for
+ * reads. Three backends are provided:
+ * - RpcBroadcaster: plain eth_sendRawTransaction (public mempool)
+ * - PrivateTransactionBroadcaster: Flashbots-style eth_sendPrivateTransaction
+ * - BundleBroadcaster: single-transaction eth_sendBundle submission
+ *
+ * All of them speak plain JSON-RPC over HTTP, so any of them can be
+ * pointed at a local JSON-RPC stub.
+ */
+
+import { TransactionBroadcaster } from "../shared/types";
+import { Logger } from "../shared/logger";
+import { BROADCAST } from "../shared/constants";
+import { postJsonRpc, sendJsonRpc, toHexQuantity } from "./json_rpc";
+
+const { Web3 } = require("web3");
+
+/**
+ * Computes the hash of a serialized signed transaction
+ *
+ * @param rawTransaction - 0x-prefixed serialized transaction
+ * @returns Transaction hash
+ */
+export function computeTransactionHash(rawTransaction: string): string {
+  return new Web3().utils.keccak256(rawTransaction);
+}
+
+/**
+ * Builds Flashbots `X-Flashbots-Signature` headers for a request body
+ *
+ * The signature is an EIP-191 signature over the keccak256 hash of the
+ * body, made with a local reputation key (never the vault key).
+ *
+ * @param authPrivateKey - Reputation key
+ * @returns Header factory for {@link postJsonRpc}
+ */
+function flashbotsAuthHeaders(
+  authPrivateKey: string
+): (body: string) => Record<string, string> {
+  const web3 = new Web3();
+  const account = web3.eth.accounts.privateKeyToAccount(authPrivateKey);
+
+  return (body: string) => {
+    const bodyHash = web3.utils.keccak256(body);
+    const { signature } = account.sign(web3.utils.utf8ToHex(bodyHash));
+    return { "X-Flashbots-Signature": `${account.address}:${signature}` };
+  };
+}
+
+/**
+ * Creates a throwaway reputation key for relay authentication
+ */
+function createAuthKey(): string {
+  return new Web3().eth.accounts.create().privateKey;
+}
+
+/**
+ * Broadcasts via eth_sendRawTransaction (public mempool)
+ */
+export class RpcBroadcaster implements TransactionBroadcaster {
+  readonly name = "rpc";
+
+  /**
+   * @param endpoint - RPC URL, or a provider exposing `send(payload, callback)`
+   */
+  constructor(private readonly endpoint: string | any) {}
+
+  async broadcast(rawTransaction: string): Promise<string> {
+    if (typeof this.endpoint === "string") {
+      return postJsonRpc<string>(this.endpoint, "eth_sendRawTransaction", [rawTransaction]);
+    }
+
+    return sendJsonRpc<string>(this.endpoint, "eth_sendRawTransaction", [rawTransaction]);
+  }
+}
+
+/**
+ * Options for {@link PrivateTransactionBroadcaster}
+ */
+export interface PrivateTransactionOptions {
+  /** Relay URL accepting eth_sendPrivateTransaction */
+  readonly relayUrl: string;
+  /** Provider used to read the current block number */
+  readonly readProvider: any;
+  /** Reputation key for X-Flashbots-Signature (random if omitted) */
+  readonly authPrivateKey?: string;
+  /** Blocks the transaction stays eligible for inclusion */
+  readonly maxBlocks?: number;
+}
+
+/**
+ * Broadcasts via Flashbots-style eth_sendPrivateTransaction
+ *
+ * The transaction never enters the public mempool, so it cannot be
+ * front-run or sandwiched.
+ */
+export class PrivateTransactionBroadcaster implements TransactionBroadcaster {
+  readonly name = "private";
+  private readonly authHeaders: (body: string) => Record<string, string>;
+
+  constructor(private readonly options: PrivateTransactionOptions) {
+    this.authHeaders = flashbotsAuthHeaders(options.authPrivateKey ?? createAuthKey());
+  }
+
+  async broadcast(rawTransaction: string): Promise<string> {
+    const currentBlock = Number(
+      await sendJsonRpc<string>(this.options.readProvider, "eth_blockNumber")
+    );
+    const maxBlockNumber =
+      currentBlock + (this.options.maxBlocks ?? BROADCAST.PRIVATE_TX_MAX_BLOCKS);
+
+    Logger.info(
+      `Sending private transaction to ${this.options.relayUrl} ` +
+      `(valid until block ${maxBlockNumber})`
+    );
+
+    return postJsonRpc<string>(
+      this.options.relayUrl,
+      "eth_sendPrivateTransaction",
+      [{ tx: rawTransaction, maxBlockNumber: toHexQuantity(maxBlockNumber) }],
+      this.authHeaders
+    );
+  }
+}
+
+/**
+ * Options for {@link BundleBroadcaster}
+ */
+export interface BundleOptions {
+  /** Relay URL accepting eth_sendBundle */
+  readonly relayUrl: string;
+  /** Provider used to read the current block number */
+  readonly readProvider: any;
+  /** Reputation key for X-Flashbots-Signature (random if omitted) */
+  readonly authPrivateKey?: string;
+  /** Consecutive blocks to submit the bundle for */
+  readonly targetBlocks?: number;
+}
+
+/**
+ * Broadcasts a transaction as a single-transaction bundle
+ *
+ * The bundle is submitted for each of the next `targetBlocks` blocks;
+ * the returned hash is computed locally since relays return bundle hashes.
+ */
+export class BundleBroadcaster implements TransactionBroadcaster {
+  readonly name = "bundle";
+  private readonly authHeaders: (body: string) => Record<string, string>;
+
+  constructor(private readonly options: BundleOptions) {
+    this.authHeaders = flashbotsAuthHeaders(options.authPrivateKey ?? createAuthKey());
+  }
+
+  async broadcast(rawTransaction: string): Promise<string> {
+    const currentBlock = Number(
+      await sendJsonRpc<string>(this.options.readProvider, "eth_blockNumber")
+    );
+    const targetBlocks = this.options.targetBlocks ?? BROADCAST.BUNDLE_TARGET_BLOCKS;
+
+    for (let offset = 1; offset <= targetBlocks; offset++) {
+      const blockNumber = currentBlock + offset;
+      const result = await postJsonRpc<{ bundleHash?: string }>(
+        this.options.relayUrl,
+        "eth_sendBundle",
+        [{ txs: [rawTransaction], blockNumber: toHexQuantity(blockNumber) }],
+        this.authHeaders
+      );
+
+      Logger.info(
+        `Bundle submitted for block ${blockNumber}` +
+        (result?.bundleHash ? ` (bundle ${result.bundleHash})` : "")
+      );
+    }
+
+    return computeTransactionHash(rawTransaction);
+  }
+}
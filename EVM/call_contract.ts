@@ -0,0 +1,477 @@
+/**
+ * Arbitrary contract calls signed through Fireblocks RAW
+ *
+ * Encodes a call from an ABI file or a function signature, estimates gas,
+ * logs a decoded preview and then signs it with the vault through the
+ * Fireblocks provider. View and pure functions are executed with eth_call
+ * instead. Used to recover assets from staking, vesting and airdrop
+ * contracts held by hidden vaults.
+ *
+ * Usage:
+ *   ts-node call_contract.ts <vaultId> <assetId> <rpcUrl> <contract> <signature|abiFile functionName> [arg...]
+ *     [--value <ether>] [--dry-run] [--sign-only [exportDir]]
+ *
+ * Array and tuple arguments are passed as JSON, e.g. '[1,2,3]'.
+ */
+
+import * as fs from "fs";
+import {
+  ContractCallParams,
+  ContractCallPreview,
+  ContractCallResult,
+} from "../shared/types";
+import { Logger } from "../shared/logger";
+import { takeOption } from "../shared/cli-options";
+import { GAS } from "../shared/constants";
+import { GasEstimationError, ValidationError } from "../shared/errors";
+import {
+  validateEthereumAddress,
+  validateFileExists,
+  validateRequired,
+} from "../shared/validators";
+import { parseUnits } from "../shared/amounts";
+import { initWeb3Instance } from "./web3_instance.refactored";
+import { getFeeData, describeFeeData, toTransactionFeeFields } from "./fee_data";
+import { toHexQuantity } from "./json_rpc";
+
+/**
+ * ABI parameter description
+ */
+export interface AbiParameter {
+  name: string;
+  type: string;
+  components?: AbiParameter[];
+}
+
+/**
+ * ABI function fragment
+ */
+interface AbiFunction {
+  type: "function";
+  name: string;
+  inputs: AbiParameter[];
+  outputs?: AbiParameter[];
+  stateMutability?: string;
+}
+
+/**
+ * Splits a parameter list on top-level commas
+ */
+function splitTopLevel(list: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of list) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+
+    if (char === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim()) {
+    parts.push(current);
+  }
+
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * Finds the index of the parenthesis closing the one at `start`
+ */
+function findClosingParen(text: string, start: number): number {
+  let depth = 0;
+
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "(") depth++;
+    if (text[i] === ")" && --depth === 0) return i;
+  }
+
+  throw new ValidationError("functionSignature", text, "Unbalanced parentheses");
+}
+
+/**
+ * Parses one parameter, e.g. "uint256 amount" or "(address,uint256)[] calls"
+ */
+function parseParameter(text: string): AbiParameter {
+  const words = (source: string) =>
+    source
+      .split(/\s+/)
+      .filter((word) => word && !["memory", "calldata", "storage", "indexed"].includes(word));
+
+  if (text.startsWith("(")) {
+    const end = findClosingParen(text, 0);
+    const rest = text.slice(end + 1);
+    const dimensions = rest.match(/^(\[\d*\])*/)![0];
+    const [name = ""] = words(rest.slice(dimensions.length));
+
+    return {
+      name,
+      type: `tuple${dimensions}`,
+      components: splitTopLevel(text.slice(1, end)).map(parseParameter),
+    };
+  }
+
+  const [type, name = ""] = words(text);
+  return { name, type };
+}
+
+/**
+ * Parses a function signature into an ABI fragment
+ *
+ * Accepts "claim(uint256,address)" as well as Solidity-style
+ * "function withdraw(uint256 amount) payable returns (bool)".
+ *
+ * @param signature - Function signature
+ * @returns ABI fragment
+ * @throws {ValidationError} If the signature cannot be parsed
+ */
+export function parseFunctionSignature(signature: string): AbiFunction {
+  const text = signature.trim().replace(/^function\s+/, "");
+  const open = text.indexOf("(");
+  const name = text.slice(0, open).trim();
+
+  if (open < 0 || !/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name)) {
+    throw new ValidationError("functionSignature", signature, "Expected name(type,...)");
+  }
+
+  const close = findClosingParen(text, open);
+  const modifiers = text.slice(close + 1);
+  const returnsAt = modifiers.search(/returns\s*\(/);
+  const outputs =
+    returnsAt >= 0
+      ? (() => {
+          const start = modifiers.indexOf("(", returnsAt);
+          return splitTopLevel(
+            modifiers.slice(start + 1, findClosingParen(modifiers, start))
+          ).map(parseParameter);
+        })()
+      : [];
+  const stateMutability = modifiers.match(/\b(payable|nonpayable|view|pure)\b/)?.[1];
+
+  return {
+    type: "function",
+    name,
+    inputs: splitTopLevel(text.slice(open + 1, close)).map(parseParameter),
+    outputs,
+    stateMutability,
+  };
+}
+
+/**
+ * Builds the canonical type of a parameter, expanding tuples
+ */
+function canonicalType(param: AbiParameter): string {
+  if (param.type.startsWith("tuple")) {
+    return `(${(param.components ?? []).map(canonicalType).join(",")})${param.type.slice(5)}`;
+  }
+  return param.type;
+}
+
+/**
+ * Builds the canonical signature of a function, e.g. "claim(uint256,address)"
+ */
+function canonicalSignature(fragment: AbiFunction): string {
+  return `${fragment.name}(${fragment.inputs.map(canonicalType).join(",")})`;
+}
+
+/**
+ * Selects a function from an ABI file
+ *
+ * @param abiPath - ABI JSON file (an array, or an artifact with an `abi` field)
+ * @param functionName - Function name, or full signature for overloads
+ * @param argCount - Number of arguments supplied
+ * @returns ABI fragment
+ * @throws {ValidationError} If no single function matches
+ */
+export function loadFunctionFromAbi(
+  abiPath: string,
+  functionName: string,
+  argCount: number
+): AbiFunction {
+  validateFileExists(abiPath);
+
+  const json = JSON.parse(fs.readFileSync(abiPath, "utf8"));
+  const abi: AbiFunction[] = (Array.isArray(json) ? json : json.abi ?? []).filter(
+    (item: any) => item.type === "function"
+  );
+
+  const candidates = functionName.includes("(")
+    ? abi.filter((item) => canonicalSignature(item) === functionName.replace(/\s+/g, ""))
+    : abi.filter(
+        (item) => item.name === functionName && item.inputs.length === argCount
+      );
+
+  if (candidates.length !== 1) {
+    const overloads = abi
+      .filter((item) => item.name === functionName.split("(")[0])
+      .map(canonicalSignature);
+
+    throw new ValidationError(
+      "functionName",
+      functionName,
+      candidates.length === 0
+        ? `No function with ${argCount} argument(s) in ${abiPath}` +
+          (overloads.length > 0 ? ` (available: ${overloads.join(", ")})` : "")
+        : `Ambiguous overload, pass one of: ${overloads.join(", ")}`
+    );
+  }
+
+  return candidates[0];
+}
+
+/**
+ * Converts a CLI string argument to the value the ABI coder expects
+ *
+ * @param param - ABI parameter
+ * @param value - Argument (strings are parsed, other values pass through)
+ * @returns Value for the ABI coder
+ */
+export function coerceArgument(param: AbiParameter, value: any): any {
+  if (typeof value !== "string") {
+    return value;
+  }
+
+  if (param.type.endsWith("]") || param.type.startsWith("tuple")) {
+    return JSON.parse(value);
+  }
+
+  if (param.type === "bool") {
+    if (value !== "true" && value !== "false") {
+      throw new ValidationError(param.name || "bool", value, "Expected true or false");
+    }
+    return value === "true";
+  }
+
+  return value;
+}
+
+/**
+ * Formats a decoded ABI value for display
+ */
+function formatValue(value: any): string {
+  if (typeof value === "string") {
+    return value;
+  }
+
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+
+  return JSON.stringify(value, (_key, item) =>
+    typeof item === "bigint" ? item.toString() : item
+  );
+}
+
+/**
+ * Decodes ABI-encoded values into a name -> value map
+ */
+function decodeValues(web3: any, params: AbiParameter[], data: string): Record<string, string> {
+  const decoded = web3.eth.abi.decodeParameters(params, data);
+
+  return Object.fromEntries(
+    params.map((param, index) => [param.name || `arg${index}`, formatValue(decoded[index])])
+  );
+}
+
+/**
+ * Encodes, estimates and signs an arbitrary contract call
+ *
+ * @param params - Contract call parameters
+ * @returns Decoded preview, plus return values (view/pure) or transaction hash
+ * @throws {ValidationError} If the function, arguments or value are invalid
+ * @throws {GasEstimationError} If the call would revert
+ *
+ * @example
+ * ```typescript
+ * await callContract({
+ *   fireblocksApiClient,
+ *   httpProviderUrl: "https://...",
+ *   vaultAccountId: "5",
+ *   assetId: "ETH",
+ *   contractAddress: "0x...",
+ *   functionSignature: "withdraw(uint256)",
+ *   args: ["1000000000000000000"],
+ * });
+ * ```
+ */
+export async function callContract(params: ContractCallParams): Promise<ContractCallResult> {
+  validateEthereumAddress(params.contractAddress, "contractAddress");
+
+  const args = params.args ?? [];
+  let fragment: AbiFunction;
+
+  if (params.functionSignature) {
+    fragment = parseFunctionSignature(params.functionSignature);
+  } else {
+    validateRequired(params.abiPath, "abiPath");
+    validateRequired(params.functionName, "functionName");
+    fragment = loadFunctionFromAbi(params.abiPath, params.functionName, args.length);
+  }
+
+  const signature = canonicalSignature(fragment);
+
+  if (fragment.inputs.length !== args.length) {
+    throw new ValidationError(
+      "args",
+      args,
+      `${signature} takes ${fragment.inputs.length} argument(s), got ${args.length}`
+    );
+  }
+
+  const web3 = await initWeb3Instance({
+    fireblocksApiClient: params.fireblocksApiClient,
+    httpProviderUrl: params.httpProviderUrl,
+    vaultAccountId: params.vaultAccountId,
+    assetId: params.assetId,
+    amount: params.value ?? 0,
+    destAddress: params.contractAddress,
+    note: `Call ${signature} on ${params.contractAddress} from vault ${params.vaultAccountId}`,
+    nonceManager: params.nonceManager,
+    signOnly: params.signOnly,
+    exportDirectory: params.exportDirectory,
+    broadcaster: params.broadcaster,
+  });
+
+  const from: string = web3.eth.defaultAccount;
+  const valueWei = parseUnits(params.value ?? 0, 18, "exact");
+
+  if (valueWei > 0n && fragment.stateMutability && fragment.stateMutability !== "payable") {
+    throw new ValidationError(
+      "value",
+      params.value,
+      `${signature} is ${fragment.stateMutability} and cannot receive value`
+    );
+  }
+
+  const data: string = web3.eth.abi.encodeFunctionCall(
+    fragment,
+    fragment.inputs.map((input, index) => coerceArgument(input, args[index]))
+  );
+  const readOnly =
+    fragment.stateMutability === "view" || fragment.stateMutability === "pure";
+  const call = { from, to: params.contractAddress, data, value: toHexQuantity(valueWei) };
+
+  // Preview from the encoded calldata, so what is shown is what gets signed
+  const basePreview = {
+    from,
+    to: params.contractAddress,
+    signature,
+    selector: data.slice(0, 10),
+    args: decodeValues(web3, fragment.inputs, `0x${data.slice(10)}`),
+    valueWei: valueWei.toString(),
+    data,
+    readOnly,
+  };
+
+  if (readOnly) {
+    Logger.info("Call preview (read-only)", basePreview);
+
+    const result = await web3.eth.call(call);
+    const returnValues = decodeValues(web3, fragment.outputs ?? [], result);
+    Logger.success(`${signature} returned`, returnValues);
+
+    return { preview: basePreview, returnValues };
+  }
+
+  let gasLimit: number;
+  try {
+    const estimatedGas = Number(await web3.eth.estimateGas(call));
+    gasLimit = Math.floor(estimatedGas * GAS.ESTIMATION_BUFFER);
+  } catch (error) {
+    throw new GasEstimationError(
+      `${signature} would revert: ${error instanceof Error ? error.message : String(error)}`,
+      { operation: "callContract", contractAddress: params.contractAddress }
+    );
+  }
+
+  const preview: ContractCallPreview = { ...basePreview, gasLimit };
+  const feeData = await getFeeData(web3);
+
+  Logger.info("Call preview", preview);
+  Logger.info(describeFeeData(feeData));
+
+  if (params.dryRun) {
+    Logger.success("Dry run: call encoded and estimated, nothing signed");
+    return { preview };
+  }
+
+  const signedTransaction = await web3.eth.signTransaction({
+    to: params.contractAddress,
+    data,
+    value: toHexQuantity(valueWei),
+    gasLimit,
+    ...toTransactionFeeFields(feeData),
+  });
+
+  if (params.signOnly) {
+    Logger.success("Contract call signed and exported (not broadcast)");
+    return { preview };
+  }
+
+  Logger.info("Transaction signed, broadcasting...");
+
+  const receipt = await web3.eth.sendSignedTransaction(
+    signedTransaction.raw || signedTransaction
+  );
+
+  Logger.success(`Contract call completed. Transaction hash: ${receipt.transactionHash}`);
+
+  return { preview, transactionHash: receipt.transactionHash };
+}
+
+/**
+ * CLI entry point
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const value = takeOption(args, "--value", true);
+  const dryRun = takeOption(args, "--dry-run", false) === true;
+  const signOnly = takeOption(args, "--sign-only", true);
+
+  const [vaultAccountId, assetId, rpcUrl, contractAddress, target, ...rest] = args;
+
+  if (!vaultAccountId || !assetId || !rpcUrl || !contractAddress || !target || value === true) {
+    Logger.error(
+      "Usage: ts-node call_contract.ts <vaultId> <assetId> <rpcUrl> <contract> " +
+      "<signature|abiFile functionName> [arg...] [--value <ether>] [--dry-run] [--sign-only [exportDir]]"
+    );
+    process.exit(1);
+  }
+
+  const useAbiFile = target.endsWith(".json");
+  const [functionName, ...callArgs] = useAbiFile ? rest : [undefined, ...rest];
+
+  // Loaded lazily: the config module reads the API secret on import
+  const { createFireblocksClient } = require("../shared/config");
+
+  const result = await callContract({
+    fireblocksApiClient: createFireblocksClient(),
+    httpProviderUrl: rpcUrl,
+    vaultAccountId,
+    assetId,
+    contractAddress,
+    functionSignature: useAbiFile ? undefined : target,
+    abiPath: useAbiFile ? target : undefined,
+    functionName,
+    args: callArgs,
+    value: typeof value === "string" ? value : undefined,
+    dryRun,
+    signOnly: signOnly !== undefined,
+    exportDirectory: typeof signOnly === "string" ? signOnly : undefined,
+  });
+
+  Logger.success("Contract call result", result);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    Logger.error("Contract call failed", error);
+    process.exit(1);
+  });
+}
@@ -4,6 +4,14 @@ import { createObjectCsvWriter } from "csv-writer";
 import { initWeb3Instance } from "../src/web3_instance";
 import { FireblocksSDK } from "fireblocks-sdk";
 import Web3 from "web3";
+import { transfer } from "./transfer.refactored";
+import { getPermitDomain } from "./permit";
+import { scanBalances } from "./balance_scanner";
+import { planGasTopUps } from "./gas_topup_planner";
+import { returnLeftoverGas } from "./gas_return";
+import { compareAmounts, formatUnits, isZeroAmount } from "../shared/amounts";
+import { getChainRegistry, getRpcUrl, getRpcUrls } from "../shared/chain-registry";
+import { ChainInfo, GasReturnRequest } from "../shared/types";
 const { apiSecret, apiKey } = require("./config");
 const abiFilePath = "./abi.json";
 const abiJson = fs.readFileSync(abiFilePath, "utf-8");
@@ -21,11 +29,19 @@ interface ContractData {
   Coin: string;
   "Token Name": string;
   Contract: string;
+  // Optional: ERC20 (default), ERC721 or ERC1155
+  Type?: string;
+  // Optional: space-separated token IDs (required for ERC1155)
+  TokenIds?: string;
 }
 
+// Chain info resolved from the chain registry by the Network column
 interface ChainData {
   Network: string;
   RPC: string;
+  // The chain's other registry RPCs, failed over to by transfer()
+  FallbackRPCs: string[];
+  Chain: ChainInfo;
 }
 
 interface VaultData {
@@ -33,13 +49,27 @@ interface VaultData {
   NativeToken: string;
   Address: string;
   Coin: string;
+  // Token contract, so gas_topup_planner.ts can estimate the sweep
+  Contract: string;
 }
 
 const vaultsNeedingGas: VaultData[] = [];
 
+// Vaults swept in this run, keyed by vault and network; their leftover gas
+// goes back to GAS_FUNDING_VAULT once every row is processed
+const sweptVaults = new Map<string, GasReturnRequest>();
+const vaultsWithFailedSweeps = new Set<string>();
+const gasFundingVault = process.env.GAS_FUNDING_VAULT;
+
+// Address every row is swept to
+const recipientAddress = "0xDb31651967684A40A05c4aB8Ec56FC32f060998d";
+
+// Gas-funded vault that sweeps ERC-2612 tokens via permit instead of
+// listing their vaults in vaults_needing_gas.csv
+const permitRelayerVault = process.env.PERMIT_RELAYER_VAULT;
+
 const unsupportedCsvFilePath = "unsupported.csv";
 const contractsCsvFilePath = "../contracts.csv";
-const chainsCsvFilePath = "../chains.csv";
 const unmatchedCsvFilePath = "unmatched.csv";
 
 let totalRowsProcessed = 0;
@@ -47,7 +77,29 @@ let totalRowsMatched = 0;
 
 // Read contracts.csv and store the data in a Map
 const contractsMap = new Map<string, ContractData>();
-const chainsMap = new Map<string, ChainData>();
+
+// A chain without a usable RPC (e.g. its API key is not set) fails the row
+// instead of throwing out of the CSV stream's data handler
+const resolveChain = (network: string, rowNumber: number): ChainData | undefined => {
+  const chain = getChainRegistry().find(network);
+  if (!chain) {
+    return undefined;
+  }
+
+  try {
+    const rpc = getRpcUrl(chain);
+    return {
+      Network: network,
+      RPC: rpc,
+      FallbackRPCs: getRpcUrls(chain).filter((url) => url !== rpc),
+      Chain: chain,
+    };
+  } catch (error) {
+    console.error(`Row ${rowNumber} failed:`, error.message);
+    fs.appendFileSync(logFilename, `Row#: ${rowNumber}\nNetwork: ${network}\nFailed: ${error.message}\n---\n`);
+    return undefined;
+  }
+};
 
 const generateLogFilename = () => {
   const timestamp = new Date().toISOString().replace(/[:T]/g, "-").slice(0, -5);
@@ -77,9 +129,9 @@ const processUnsupportedCsv = async () => {
   return new Promise<void>((resolve) => {
     fs.createReadStream(unsupportedCsvFilePath)
       .pipe(csv())
-      .on("data", async (row: CryptoData) => {
+      .on("data", (row: CryptoData) => {
         const contractData = contractsMap.get(row.Coin);
-        const chainData = chainsMap.get(row.Network);
+        const chainData = contractData && resolveChain(row.Network, row.RowNumber);
         totalRowsProcessed++;
 
         if (contractData && chainData) {
@@ -101,6 +153,7 @@ const processUnsupportedCsv = async () => {
 
         writeUnmatchedRows(unmatchedRows);
         writeVaultsNeedingGas();
+        await returnGasFromSweptVaults();
 
         resolve();
       });
@@ -117,9 +170,19 @@ const processMatchedRow = async (
       .map((vault) => vault.trim())
       .filter((vault) => /^\d+$/.test(vault));
 
+    const rowType = (contractData.Type || "ERC20").toUpperCase();
+    if (rowType === "ERC721" || rowType === "ERC1155") {
+      await processNftRow(row, contractData, chainData, vaultList, rowType);
+      return;
+    }
+
     let balance = "";
 
-    for (const vault of vaultList) {
+    for (const vault of await findVaultsHoldingToken(
+      vaultList,
+      contractData.Contract,
+      chainData.RPC
+    )) {
       try {
         const { tokenBalance } = await getTokenAndNativeBalance(
             row.Network,
@@ -129,10 +192,10 @@ const processMatchedRow = async (
             row.RowNumber,
             row.Coin,
             row.Vaults,
-            chainData.RPC
+            chainData
           );
 
-        if (Number(tokenBalance) > 0) {
+        if (!isZeroAmount(tokenBalance)) {
           balance = tokenBalance;
           break;
         }
@@ -161,6 +224,84 @@ const processMatchedRow = async (
 
 
 
+// Reads every vault's token balance in one batched scan so that only
+// funded vaults get a signing provider. Falls back to the full list if
+// the scan fails.
+const findVaultsHoldingToken = async (
+  vaultList: string[],
+  contract: string,
+  rpc: string
+): Promise<string[]> => {
+  try {
+    const fireblocksApiClient = new FireblocksSDK(apiSecret, apiKey);
+    const addresses = new Map<string, string>();
+
+    for (const vault of vaultList) {
+      const [deposit] = await fireblocksApiClient.getDepositAddresses(vault, "ETH");
+      if (deposit) {
+        addresses.set(vault, deposit.address);
+      }
+    }
+
+    const balances = await scanBalances(
+      rpc,
+      [...addresses.values()].map((address) => ({ address, token: contract }))
+    );
+    const funded = new Set(
+      balances
+        .filter((info) => !info.error && info.balanceInWei !== "0")
+        .map((info) => info.address!.toLowerCase())
+    );
+
+    return vaultList.filter((vault) =>
+      funded.has((addresses.get(vault) || "").toLowerCase())
+    );
+  } catch (error) {
+    console.error(`Balance scan failed, checking vaults one by one:`, error.message);
+    return vaultList;
+  }
+};
+
+const processNftRow = async (
+  row: CryptoData,
+  contractData: ContractData,
+  chainData: ChainData,
+  vaultList: string[],
+  rowType: string
+) => {
+  const fireblocksApiClient = new FireblocksSDK(apiSecret, apiKey);
+  const tokenIds = contractData.TokenIds
+    ? contractData.TokenIds.split(/\s+/).filter(Boolean)
+    : undefined;
+
+  for (const vault of vaultList) {
+    try {
+      await transfer({
+        fireblocksApiClient,
+        ethereumProviderUrl: chainData.RPC,
+        fallbackProviderUrls: chainData.FallbackRPCs,
+        sourceVaultAccountId: vault,
+        recipientAddress,
+        assetIdentifier: "ETH",
+        assetSymbol: contractData["Token Name"],
+        nftContractAddress: contractData.Contract,
+        nftTokenIds: tokenIds,
+        nftStandard: rowType === "ERC721" ? "erc721" : "erc1155",
+        transactionFilename: String(row.RowNumber),
+        // Signed with the ETH key on whatever chain the row is on
+        expectedChainIds: [chainData.Chain.chainId],
+      });
+
+      fs.appendFileSync(
+        logFilename,
+        `Row#: ${row.RowNumber}\nCoin: ${row.Coin}\nNetwork: ${row.Network}\nVault: ${vault}\nType: ${rowType}\nContract: ${contractData.Contract}\n---\n`
+      );
+    } catch (error) {
+      console.error(`NFT transfer failed for Vault ID ${vault}:`, error.message);
+    }
+  }
+};
+
 const writeUnmatchedRows = (unmatchedRows: CryptoData[]) => {
   unmatchedCsvWriter
     .writeRecords(unmatchedRows)
@@ -179,6 +320,7 @@ const writeVaultsNeedingGas = () => {
       { id: "NativeToken", title: "NativeToken" },
       { id: "Address", title: "Address" },
       { id: "Coin", title: "Coin" },
+      { id: "Contract", title: "Contract" },
     ],
   });
   vaultsNeedingGasCsvWriter
@@ -189,6 +331,27 @@ const writeVaultsNeedingGas = () => {
     );
 };
 
+// Returns leftover gas from vaults whose sweeps all succeeded and that
+// have nothing left waiting for gas
+const returnGasFromSweptVaults = async () => {
+  if (!gasFundingVault) {
+    console.log("GAS_FUNDING_VAULT not set, leaving leftover gas in swept vaults");
+    return;
+  }
+
+  const pending = new Set(vaultsNeedingGas.map((row) => `${row.Vault}:${row.NativeToken}`));
+  const vaults = [...sweptVaults.entries()]
+    .filter(([key]) => !pending.has(key) && !vaultsWithFailedSweeps.has(key))
+    .map(([, request]) => request);
+
+  console.log(`Returning leftover gas from ${vaults.length} swept vault(s) to vault ${gasFundingVault}`);
+  const results = await returnLeftoverGas(new FireblocksSDK(apiSecret, apiKey), vaults, {
+    fundingVaultId: gasFundingVault,
+  });
+
+  fs.appendFileSync(logFilename, `Gas returned:\n${JSON.stringify(results, null, 2)}\n---\n`);
+};
+
 const getTokenAndNativeBalance = async (
     network: string,
     vault: string,
@@ -197,12 +360,10 @@ const getTokenAndNativeBalance = async (
     rowNumber: number,
     coin: string,
     vaults: string,
-    rpc: string
+    chainData: ChainData
 ): Promise<{ tokenBalance: string; nativeBalance: string }> => {
   const fireblocksApiClient = new FireblocksSDK(apiSecret, apiKey);
-
-  const chainData = chainsMap.get(network);
- 
+  const rpc = chainData.RPC;
 
   const web3 =await initWeb3Instance(
       fireblocksApiClient,
@@ -211,7 +372,7 @@ const getTokenAndNativeBalance = async (
       "ETH",
       tokenName,
       0,
-      "0xDb31651967684A40A05c4aB8Ec56FC32f060998d",
+      recipientAddress,
       rowNumber
     );
      
@@ -220,24 +381,31 @@ const getTokenAndNativeBalance = async (
   const accountBalanceInSmallestUnit = await erc20Contract.methods
     .balanceOf(web3.eth.defaultAccount)
     .call();
-  const tokenBalance =
-    Number(accountBalanceInSmallestUnit) / 10 ** tokenDecimals;
+  const tokenBalance = formatUnits(
+    BigInt(accountBalanceInSmallestUnit),
+    Number(tokenDecimals)
+  );
 
   const nativeBalance = await web3.eth.getBalance(web3.eth.defaultAccount);
-  const nativeBalanceInEther = parseFloat(
-    web3.utils.fromWei(nativeBalance, "ether")
-  );
+  const nativeBalanceInEther = formatUnits(BigInt(nativeBalance), chainData.Chain.gasDecimals);
 
-  const minimumGasBalance = 0.0005;
+  // Same requirement gas_topup_planner.ts funds, so topped-up vaults are swept
+  const [gasPlan] = await planGasTopUps(
+    [{ vaultId: vault, chain: network, address: web3.eth.defaultAccount, tokenAddress: contract, tokenName }],
+    { recipientAddress }
+  );
+  // A transfer that would revert was not estimated, so the plan is no proof of gas
+  const sweepWouldRevert = gasPlan.skippedTokens.length > 0;
+  const hasGas = gasPlan.topUp === "0" && !sweepWouldRevert;
 
-  if (tokenBalance > 0.01 && nativeBalanceInEther > minimumGasBalance) {
+  if (compareAmounts(tokenBalance, "0.01") > 0 && hasGas) {
     // Add a 1-second pause before sending the transaction
     await new Promise((resolve) => setTimeout(resolve, 1000));
 
-    await handleErc20Transfer(
+    const swept = await handleErc20Transfer(
         web3,
         contract,
-        "0xDb31651967684A40A05c4aB8Ec56FC32f060998d",
+        recipientAddress,
         tokenBalance,
         rowNumber,
         coin,
@@ -246,38 +414,92 @@ const getTokenAndNativeBalance = async (
         tokenName,
         rpc
       );
-  } else if (nativeBalanceInEther <= minimumGasBalance) {
+
+    const key = `${vault}:${network}`;
+    if (swept) {
+      sweptVaults.set(key, { vaultId: vault, chain: network, address: web3.eth.defaultAccount });
+    } else {
+      vaultsWithFailedSweeps.add(key);
+    }
+  } else if (compareAmounts(tokenBalance, "0.01") > 0 && sweepWouldRevert) {
     console.error(
-      `\\x1b[31mERROR: Insufficient native balance for the transfer. Native balance: ${nativeBalanceInEther} ETH\\x1b[0m`
+      `\\x1b[31mERROR: ${tokenName} transfer from vault ${vault} would revert, not sweeping it\\x1b[0m`
     );
-    if (tokenBalance > 0.09) {
+    vaultsWithFailedSweeps.add(`${vault}:${network}`);
+  } else if (!hasGas) {
+    console.error(
+      `\\x1b[31mERROR: Insufficient native balance for the transfer. Native balance: ${nativeBalanceInEther} ${chainData.Chain.nativeSymbol}, needed: ${gasPlan.required}\\x1b[0m`
+    );
+    if (
+      compareAmounts(tokenBalance, "0.09") > 0 &&
+      permitRelayerVault &&
+      (await sweepWithPermit(fireblocksApiClient, web3, vault, contract, tokenName, chainData))
+    ) {
+      console.log(`Swept ${tokenName} from vault ${vault} via permit`);
+    } else if (compareAmounts(tokenBalance, "0.09") > 0) {
       vaultsNeedingGas.push({
         Vault: vault,
         NativeToken: network,
         Address: web3.eth.defaultAccount,
         Coin: tokenName,
+        Contract: contract,
       });
     }
   }
 
   return {
-    tokenBalance: tokenBalance.toString(),
-    nativeBalance: nativeBalanceInEther.toString(),
+    tokenBalance,
+    nativeBalance: nativeBalanceInEther,
   };
 };
 
+const sweepWithPermit = async (
+    fireblocksApiClient: FireblocksSDK,
+    web3,
+    vault: string,
+    contract: string,
+    tokenName: string,
+    chainData: ChainData
+): Promise<boolean> => {
+  const domain = await getPermitDomain(web3, contract, web3.eth.defaultAccount);
+  if (!domain) {
+    return false;
+  }
+
+  try {
+    await transfer({
+      fireblocksApiClient,
+      ethereumProviderUrl: chainData.RPC,
+      fallbackProviderUrls: chainData.FallbackRPCs,
+      sourceVaultAccountId: vault,
+      recipientAddress,
+      assetIdentifier: "ETH",
+      assetSymbol: tokenName,
+      transferAmount: 0,
+      erc20ContractAddress: contract,
+      permitRelayerVaultId: permitRelayerVault,
+      // Signed with the ETH key on whatever chain the row is on
+      expectedChainIds: [chainData.Chain.chainId],
+    });
+    return true;
+  } catch (error) {
+    console.error(`Permit sweep failed for vault ${vault}:`, error.message);
+    return false;
+  }
+};
+
 const handleErc20Transfer = async (
     web3,
     erc20ContractAddress: string,
     recipientAddress: string,
-    transferAmount: number,
+    transferAmount: string,
     rowNumber: number,
     coin: string,
     network: string,
     vaults: string,
     tokenName: string,
     rpc: string
-  ) => {
+  ): Promise<boolean> => {
   try {
     const erc20Contract = new web3.eth.Contract(abi, erc20ContractAddress);    
     const transferAmountInSmallestUnit = await erc20Contract.methods
@@ -365,12 +587,14 @@ const handleErc20Transfer = async (
       2
     )}\n`;
     fs.appendFileSync("transactions.log", transactionLog);
+    return true;
   } catch (error) {
     console.error("Error in handleErc20Transfer:", error);
     fs.appendFileSync(
       "transfer_exceptions.log",
       `${rowNumber}\n${tokenName}\n${error.message}\n${error.stack}\n`
     );
+    return false;
   }
 };
 
@@ -382,21 +606,13 @@ const initializeData = () => {
     })
     .on("end", () => {
       console.log("Contracts CSV file processed.");
+      console.log(`Chain registry: ${getChainRegistry().all().length} chains`);
 
-      fs.createReadStream(chainsCsvFilePath)
-        .pipe(csv())
-        .on("data", (row: ChainData) => {
-          chainsMap.set(row.Network, row);
-        })
-        .on("end", async () => {
-          console.log("Chains CSV file processed.");
-
-          if (fs.existsSync(unmatchedCsvFilePath)) {
-            fs.unlinkSync(unmatchedCsvFilePath);
-          }
+      if (fs.existsSync(unmatchedCsvFilePath)) {
+        fs.unlinkSync(unmatchedCsvFilePath);
+      }
 
-          await processUnsupportedCsv();
-        });
+      processUnsupportedCsv();
     });
 };
 
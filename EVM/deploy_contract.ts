@@ -0,0 +1,345 @@
+/**
+ * Contract deployment from a vault via Fireblocks RAW signing
+ *
+ * Signs a creation transaction (no `to`) with the vault key, so rescue or
+ * forwarder contracts can be deployed from the exact address that holds
+ * stuck funds. The deployed address is derived from the deployer and the
+ * signed nonce and confirmed against the receipt.
+ *
+ * Usage:
+ *   ts-node deploy_contract.ts <vaultId> <assetId> <rpcUrl> <artifact.json|bytecode> [constructorSignature] [arg...]
+ *     [--value <ether>] [--dry-run] [--sign-only [exportDir]]
+ *
+ * A constructor signature (e.g. "constructor(address,uint256)") is only
+ * needed when deploying raw bytecode with constructor arguments.
+ */
+
+import * as fs from "fs";
+import { TransactionFactory } from "@ethereumjs/tx";
+import Common from "@ethereumjs/common";
+import { DeployContractParams, DeploymentResult } from "../shared/types";
+import { Logger } from "../shared/logger";
+import { takeOption } from "../shared/cli-options";
+import { GAS } from "../shared/constants";
+import {
+  GasEstimationError,
+  TransactionError,
+  ValidationError,
+} from "../shared/errors";
+import { validateFileExists } from "../shared/validators";
+import { parseUnits } from "../shared/amounts";
+import { initWeb3Instance } from "./web3_instance.refactored";
+import { getFeeData, describeFeeData, toTransactionFeeFields } from "./fee_data";
+import { toHexQuantity } from "./json_rpc";
+import { AbiParameter, coerceArgument, parseFunctionSignature } from "./call_contract";
+
+const { Web3 } = require("web3");
+
+/**
+ * RLP-encodes a nonce as a byte string
+ */
+function rlpEncodeNonce(nonce: number): string {
+  if (nonce === 0) {
+    return "80";
+  }
+
+  let hex = nonce.toString(16);
+  if (hex.length % 2) {
+    hex = `0${hex}`;
+  }
+
+  return nonce < 0x80 ? hex : (0x80 + hex.length / 2).toString(16) + hex;
+}
+
+/**
+ * Computes the address of a contract created by `deployer` at `nonce`
+ *
+ * keccak256(rlp([deployer, nonce]))[12:]
+ *
+ * @param deployer - Deployer address
+ * @param nonce - Nonce of the creation transaction
+ * @returns Checksummed contract address
+ */
+export function computeContractAddress(deployer: string, nonce: number): string {
+  const web3 = new Web3();
+  const payload = `94${deployer.toLowerCase().replace(/^0x/, "")}${rlpEncodeNonce(nonce)}`;
+  const encoded = `0x${(0xc0 + payload.length / 2).toString(16)}${payload}`;
+
+  return web3.utils.toChecksumAddress(`0x${web3.utils.sha3Raw(encoded).slice(-40)}`);
+}
+
+/**
+ * Normalizes bytecode to 0x-prefixed hex
+ *
+ * @throws {ValidationError} If the bytecode is empty or not hex
+ */
+function normalizeBytecode(bytecode: string): string {
+  const hex = bytecode.trim().startsWith("0x") ? bytecode.trim() : `0x${bytecode.trim()}`;
+
+  if (!/^0x([0-9a-fA-F]{2})+$/.test(hex)) {
+    throw new ValidationError("bytecode", bytecode.slice(0, 20), "Bytecode must be non-empty hex");
+  }
+
+  return hex;
+}
+
+/**
+ * Resolves creation bytecode and constructor definition from the parameters
+ *
+ * @param params - Deployment parameters
+ * @returns Bytecode, constructor inputs and whether the constructor is payable
+ * @throws {ValidationError} If no bytecode is provided
+ */
+function resolveDeployment(params: DeployContractParams): {
+  bytecode: string;
+  inputs: AbiParameter[];
+  payable?: boolean;
+} {
+  if (params.artifactPath) {
+    validateFileExists(params.artifactPath);
+
+    const artifact = JSON.parse(fs.readFileSync(params.artifactPath, "utf8"));
+    const bytecode = artifact.bytecode?.object ?? artifact.bytecode;
+    const constructor = (artifact.abi ?? []).find((item: any) => item.type === "constructor");
+
+    return {
+      bytecode: normalizeBytecode(String(bytecode ?? "")),
+      inputs: constructor?.inputs ?? [],
+      payable: constructor ? constructor.stateMutability === "payable" : false,
+    };
+  }
+
+  if (!params.bytecode) {
+    throw new ValidationError("bytecode", params.bytecode, "Provide bytecode or artifactPath");
+  }
+
+  const constructor = params.constructorSignature
+    ? parseFunctionSignature(params.constructorSignature)
+    : undefined;
+
+  return {
+    bytecode: normalizeBytecode(params.bytecode),
+    inputs: constructor?.inputs ?? [],
+    payable: constructor?.stateMutability
+      ? constructor.stateMutability === "payable"
+      : undefined,
+  };
+}
+
+/**
+ * Reads the nonce from a serialized signed transaction
+ */
+function getSignedNonce(rawTransaction: string, chainId: number): number {
+  const common = Common.forCustomChain(
+    "mainnet",
+    { name: "custom", chainId, networkId: chainId },
+    "london"
+  );
+  const signedTx = TransactionFactory.fromSerializedData(
+    Buffer.from(rawTransaction.replace(/^0x/, ""), "hex"),
+    { common }
+  );
+
+  return signedTx.nonce.toNumber();
+}
+
+/**
+ * Deploys a contract from a vault
+ *
+ * @param params - Deployment parameters
+ * @returns Deployer, nonce, contract address and transaction hash
+ * @throws {ValidationError} If bytecode, arguments or value are invalid
+ * @throws {GasEstimationError} If the deployment would revert
+ * @throws {TransactionError} If the receipt does not confirm the address
+ *
+ * @example
+ * ```typescript
+ * const { contractAddress } = await deployContract({
+ *   fireblocksApiClient,
+ *   httpProviderUrl: "https://...",
+ *   vaultAccountId: "5",
+ *   assetId: "ETH",
+ *   artifactPath: "./out/Forwarder.json",
+ *   args: ["0x..."],
+ * });
+ * ```
+ */
+export async function deployContract(params: DeployContractParams): Promise<DeploymentResult> {
+  const { bytecode, inputs, payable } = resolveDeployment(params);
+  const args = params.args ?? [];
+
+  if (inputs.length !== args.length) {
+    throw new ValidationError(
+      "args",
+      args,
+      `Constructor takes ${inputs.length} argument(s), got ${args.length}`
+    );
+  }
+
+  const web3 = await initWeb3Instance({
+    fireblocksApiClient: params.fireblocksApiClient,
+    httpProviderUrl: params.httpProviderUrl,
+    vaultAccountId: params.vaultAccountId,
+    assetId: params.assetId,
+    amount: params.value ?? 0,
+    destAddress: "contract creation",
+    note: `Deploy contract from vault ${params.vaultAccountId}`,
+    nonceManager: params.nonceManager,
+    signOnly: params.signOnly,
+    exportDirectory: params.exportDirectory,
+    broadcaster: params.broadcaster,
+  });
+
+  const deployer: string = web3.eth.defaultAccount;
+  const valueWei = parseUnits(params.value ?? 0, 18, "exact");
+
+  if (valueWei > 0n && payable === false) {
+    throw new ValidationError("value", params.value, "Constructor is not payable");
+  }
+
+  const constructorValues = inputs.map((input, index) => coerceArgument(input, args[index]));
+  const encodedArgs =
+    inputs.length > 0 ? web3.eth.abi.encodeParameters(inputs, constructorValues).slice(2) : "";
+  const data = `${bytecode}${encodedArgs}`;
+
+  let gasLimit: number;
+  try {
+    const estimatedGas = Number(
+      await web3.eth.estimateGas({ from: deployer, data, value: toHexQuantity(valueWei) })
+    );
+    gasLimit = Math.floor(estimatedGas * GAS.ESTIMATION_BUFFER);
+  } catch (error) {
+    throw new GasEstimationError(
+      `Deployment would revert: ${error instanceof Error ? error.message : String(error)}`,
+      { operation: "deployContract" }
+    );
+  }
+
+  const feeData = await getFeeData(web3);
+  const pendingNonce = Number(await web3.eth.getTransactionCount(deployer, "pending"));
+
+  Logger.info("Deployment preview", {
+    deployer,
+    bytecodeBytes: (bytecode.length - 2) / 2,
+    constructorArgs: args.map(String),
+    valueWei: valueWei.toString(),
+    gasLimit,
+    expectedAddress: computeContractAddress(deployer, pendingNonce),
+  });
+  Logger.info(describeFeeData(feeData));
+
+  if (params.dryRun) {
+    Logger.success("Dry run: deployment encoded and estimated, nothing signed");
+    return {
+      deployer,
+      nonce: pendingNonce,
+      contractAddress: computeContractAddress(deployer, pendingNonce),
+      gasLimit,
+      confirmed: false,
+    };
+  }
+
+  const signedTransaction = await web3.eth.signTransaction({
+    data,
+    value: toHexQuantity(valueWei),
+    gasLimit,
+    ...toTransactionFeeFields(feeData),
+  });
+  const rawTransaction: string = signedTransaction.raw || signedTransaction;
+
+  // The address follows from the nonce actually signed, not the one previewed
+  const nonce = getSignedNonce(rawTransaction, Number(await web3.eth.getChainId()));
+  const contractAddress = computeContractAddress(deployer, nonce);
+
+  Logger.info(`Creation transaction signed with nonce ${nonce}; contract address ${contractAddress}`);
+
+  if (params.signOnly) {
+    Logger.success("Deployment signed and exported (not broadcast)");
+    return { deployer, nonce, contractAddress, gasLimit, confirmed: false };
+  }
+
+  Logger.info("Transaction signed, broadcasting...");
+
+  const receipt = await web3.eth.sendSignedTransaction(rawTransaction);
+  const code: string = await web3.eth.getCode(contractAddress);
+
+  if (
+    !receipt.contractAddress ||
+    receipt.contractAddress.toLowerCase() !== contractAddress.toLowerCase() ||
+    !code ||
+    code === "0x"
+  ) {
+    throw new TransactionError(
+      `Deployment not confirmed: expected ${contractAddress}, ` +
+      `receipt reports ${receipt.contractAddress ?? "no contract"}`,
+      undefined,
+      undefined,
+      { operation: "deployContract", txHash: receipt.transactionHash }
+    );
+  }
+
+  Logger.success(
+    `Contract deployed at ${contractAddress}. Transaction hash: ${receipt.transactionHash}`
+  );
+
+  return {
+    deployer,
+    nonce,
+    contractAddress,
+    gasLimit,
+    transactionHash: receipt.transactionHash,
+    confirmed: true,
+  };
+}
+
+/**
+ * CLI entry point
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const value = takeOption(args, "--value", true);
+  const dryRun = takeOption(args, "--dry-run", false) === true;
+  const signOnly = takeOption(args, "--sign-only", true);
+
+  const [vaultAccountId, assetId, rpcUrl, source, ...rest] = args;
+
+  if (!vaultAccountId || !assetId || !rpcUrl || !source || value === true) {
+    Logger.error(
+      "Usage: ts-node deploy_contract.ts <vaultId> <assetId> <rpcUrl> " +
+      "<artifact.json|bytecode> [constructorSignature] [arg...] " +
+      "[--value <ether>] [--dry-run] [--sign-only [exportDir]]"
+    );
+    process.exit(1);
+  }
+
+  const useArtifact = source.endsWith(".json");
+  const hasSignature = !useArtifact && rest[0]?.startsWith("constructor(");
+  const constructorArgs = hasSignature ? rest.slice(1) : rest;
+
+  // Loaded lazily: the config module reads the API secret on import
+  const { createFireblocksClient } = require("../shared/config");
+
+  const result = await deployContract({
+    fireblocksApiClient: createFireblocksClient(),
+    httpProviderUrl: rpcUrl,
+    vaultAccountId,
+    assetId,
+    artifactPath: useArtifact ? source : undefined,
+    bytecode: useArtifact ? undefined : source,
+    constructorSignature: hasSignature ? rest[0] : undefined,
+    args: constructorArgs,
+    value: typeof value === "string" ? value : undefined,
+    dryRun,
+    signOnly: signOnly !== undefined,
+    exportDirectory: typeof signOnly === "string" ? signOnly : undefined,
+  });
+
+  Logger.success("Deployment result", result);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    Logger.error("Deployment failed", error);
+    process.exit(1);
+  });
+}
@@ -1,25 +1,31 @@
 const { apiSecret, apiKey } = require('./config');
 import { FireblocksSDK, TransactionStatus } from "fireblocks-sdk";
-const { transfer } = require("./src/transfer");
-const { colorLog } = require("./src/web3_instance");
+import { getChainRegistry, getRpcUrl } from "../shared/chain-registry";
+import { transfer } from "./transfer.refactored";
+import { colorLog } from "./web3_instance.refactored";
 
 const fireblocksApiClient = new FireblocksSDK(apiSecret, apiKey);
-const httpProviderURL = 'https://rpc.flashbots.net';
 const tokenName = 'ETH';
 const assetIdentifier = 'ETH';
+const httpProviderURL = getRpcUrl(getChainRegistry().get(assetIdentifier));
 
+// Leftover gas is returned to the funding vault automatically after the
+// consolidation sweeps (gas_return.ts, GAS_FUNDING_VAULT)
 async function main() {
   const vaultAccountID = 10;
-  const destinationVault = process.argv[2];
-  const revert = process.argv[3] === 'revert';
+  const destinationVault = Number(process.argv[2]);
   const amount = .001;
 
-  let result;
-  if (revert) {
-    result = await transfer(fireblocksApiClient, httpProviderURL, destinationVault, null, assetIdentifier, tokenName, amount, '', 0, null, vaultAccountID);
-  } else {
-    result = await transfer(fireblocksApiClient, httpProviderURL, vaultAccountID, null, assetIdentifier, tokenName, amount, '', 0, null, destinationVault);
-  }
+  const result = await transfer({
+    fireblocksApiClient,
+    ethereumProviderUrl: httpProviderURL,
+    sourceVaultAccountId: vaultAccountID,
+    recipientAddress: `vault ${destinationVault}`,
+    assetIdentifier,
+    assetSymbol: tokenName,
+    transferAmount: amount,
+    destinationVault,
+  });
 
   console.log(result);
   const txid = result.id;
@@ -0,0 +1,451 @@
+/**
+ * Multi-endpoint RPC provider with failover
+ *
+ * Stands in for the single HTTP provider behind initWeb3Instance. It
+ * exposes the same callback-style `send(payload, callback)`, so the
+ * Fireblocks RPC proxy and the signing path are unchanged; only the
+ * requests the proxy forwards are spread over several endpoints.
+ *
+ * - Health checks (eth_chainId, eth_blockNumber) run at most once per
+ *   interval; endpoints on the wrong chain are never used, endpoints that
+ *   fail or trail the best block by more than the lag threshold are
+ *   skipped for a cooldown
+ * - Endpoints are picked by priority or round-robin
+ * - Each endpoint has its own request rate limit
+ * - Only idempotent reads are retried on another endpoint; anything else
+ *   (eth_sendRawTransaction, ...) is sent once and its error returned
+ */
+
+import {
+  ChainInfo,
+  FailoverProviderOptions,
+  FailoverStrategy,
+  RpcEndpointConfig,
+  RpcEndpointHealth,
+} from "../shared/types";
+import { Logger } from "../shared/logger";
+import { ApiError, ConfigurationError } from "../shared/errors";
+import { RETRY, RPC_FAILOVER, TIMEOUTS } from "../shared/constants";
+import { validateRpcUrl } from "../shared/validators";
+import { getRpcUrl, getRpcUrls } from "../shared/chain-registry";
+
+/**
+ * Methods that can be repeated on another endpoint without side effects
+ */
+const IDEMPOTENT_METHODS = new Set([
+  "eth_blockNumber",
+  "eth_call",
+  "eth_chainId",
+  "eth_createAccessList",
+  "eth_estimateGas",
+  "eth_feeHistory",
+  "eth_gasPrice",
+  "eth_getBalance",
+  "eth_getBlockByHash",
+  "eth_getBlockByNumber",
+  "eth_getCode",
+  "eth_getLogs",
+  "eth_getStorageAt",
+  "eth_getTransactionByHash",
+  "eth_getTransactionCount",
+  "eth_getTransactionReceipt",
+  "eth_maxPriorityFeePerGas",
+  "eth_simulateV1",
+  "eth_syncing",
+  "net_version",
+  "web3_clientVersion",
+]);
+
+/**
+ * JSON-RPC error codes providers use for rate limiting
+ */
+const RATE_LIMIT_ERROR_CODES = new Set([-32005, 429]);
+
+/**
+ * Per-endpoint state
+ */
+interface EndpointState {
+  readonly url: string;
+  /** Host only, for logs (URLs may embed API keys) */
+  readonly label: string;
+  readonly minIntervalMs: number;
+  nextSlotAt: number;
+  unhealthyUntil: number;
+  wrongChain: boolean;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Describes an endpoint without exposing its path or query
+ */
+function endpointLabel(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "invalid URL";
+  }
+}
+
+/**
+ * Checks whether a failed request may be repeated on another endpoint
+ *
+ * Transport failures, timeouts, HTTP 429 and 5xx qualify; a node
+ * answering with a JSON-RPC error does not.
+ */
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof ApiError)) {
+    return false;
+  }
+
+  const status = error.statusCode;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Checks whether a JSON-RPC response reports rate limiting
+ */
+function isRateLimited(response: any): boolean {
+  const responses = Array.isArray(response) ? response : [response];
+  return responses.some((item) => RATE_LIMIT_ERROR_CODES.has(item?.error?.code));
+}
+
+/**
+ * Web3 provider that fails over across several RPC endpoints
+ */
+export class FailoverProvider {
+  private readonly endpoints: EndpointState[];
+  private readonly strategy: FailoverStrategy;
+  private readonly maxBlockLag: number;
+  private readonly healthCheckIntervalMs: number;
+  private readonly maxAttempts: number;
+  private readonly requestTimeoutMs: number;
+  private expectedChainId?: number;
+  private nextIndex = 0;
+  private nextRequestId = 1;
+  private lastHealthCheckAt = 0;
+  private healthCheck?: Promise<RpcEndpointHealth[]>;
+
+  /**
+   * @param endpoints - RPC URLs or endpoint configs, in order of preference
+   * @param options - Failover options
+   * @throws {ValidationError} If a URL is invalid
+   * @throws {ConfigurationError} If no endpoint is given
+   */
+  constructor(
+    endpoints: readonly (string | RpcEndpointConfig)[],
+    options: FailoverProviderOptions = {}
+  ) {
+    const configs = endpoints.map((endpoint) =>
+      typeof endpoint === "string" ? { url: endpoint } : endpoint
+    );
+    const unique = configs.filter(
+      (config, index) => configs.findIndex((other) => other.url === config.url) === index
+    );
+
+    if (unique.length === 0) {
+      throw new ConfigurationError("FailoverProvider needs at least one RPC endpoint", {
+        operation: "FailoverProvider",
+      });
+    }
+
+    this.endpoints = unique.map((config) => {
+      validateRpcUrl(config.url);
+      const requestsPerSecond =
+        config.requestsPerSecond ?? options.requestsPerSecond ?? RPC_FAILOVER.REQUESTS_PER_SECOND;
+
+      return {
+        url: config.url,
+        label: endpointLabel(config.url),
+        minIntervalMs: requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0,
+        nextSlotAt: 0,
+        unhealthyUntil: 0,
+        wrongChain: false,
+      };
+    });
+
+    this.expectedChainId = options.expectedChainId;
+    this.strategy = options.strategy ?? "priority";
+    this.maxBlockLag = options.maxBlockLag ?? RPC_FAILOVER.MAX_BLOCK_LAG;
+    this.healthCheckIntervalMs =
+      options.healthCheckIntervalMs ?? RPC_FAILOVER.HEALTH_CHECK_INTERVAL_MS;
+    this.maxAttempts =
+      options.maxAttempts ?? Math.max(RETRY.MAX_ATTEMPTS, this.endpoints.length);
+    this.requestTimeoutMs = options.requestTimeoutMs ?? TIMEOUTS.WEB3_PROVIDER_MS;
+  }
+
+  /**
+   * Callback-style send, as used by Web3 and the Fireblocks RPC proxy
+   *
+   * @param payload - JSON-RPC request or batch
+   * @param callback - Receives a transport error, or the JSON-RPC response
+   */
+  send(payload: any, callback: Function): void {
+    this.request(payload).then(
+      (response) => callback(null, response),
+      (error) => callback(error)
+    );
+  }
+
+  /**
+   * Sends a JSON-RPC request or batch through the first usable endpoint
+   *
+   * JSON-RPC error responses are returned as-is, like a plain HTTP provider.
+   *
+   * @param payload - JSON-RPC request or batch
+   * @returns JSON-RPC response
+   * @throws {ApiError} If every attempt fails at the transport level
+   */
+  async request(payload: any): Promise<any> {
+    await this.refreshHealthIfDue();
+
+    const methods: string[] = Array.isArray(payload)
+      ? payload.map((item) => item.method)
+      : [payload.method];
+    const idempotent = methods.every((method) => IDEMPOTENT_METHODS.has(method));
+    const candidates = this.orderEndpoints();
+    const attempts = idempotent ? this.maxAttempts : 1;
+
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const endpoint = candidates[attempt % candidates.length];
+      const round = Math.floor(attempt / candidates.length);
+
+      if (round > 0 && attempt % candidates.length === 0) {
+        await sleep(RETRY.INITIAL_BACKOFF_MS * RETRY.BACKOFF_MULTIPLIER ** (round - 1));
+      }
+
+      try {
+        const response = await this.post(endpoint, payload, methods.join(","));
+
+        if (idempotent && isRateLimited(response)) {
+          throw new ApiError(`Rate limited by ${endpoint.label}`, 429, methods.join(","), {
+            operation: "FailoverProvider.request",
+            endpoint: endpoint.label,
+          });
+        }
+
+        return response;
+      } catch (error) {
+        lastError = error;
+
+        if (!isRetryable(error)) {
+          throw error;
+        }
+
+        this.markUnhealthy(endpoint, error instanceof Error ? error.message : String(error));
+
+        if (attempt + 1 < attempts) {
+          const next = candidates[(attempt + 1) % candidates.length];
+          Logger.warn(`RPC ${endpoint.label} failed for ${methods.join(",")}; retrying on ${next.label}`);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Checks every endpoint's chain ID and block height
+   *
+   * Endpoints on another chain are disabled for good; endpoints that fail
+   * or lag are skipped for a cooldown. Without an expected chain ID, the
+   * first endpoint to answer (in configured order) sets it.
+   *
+   * @returns Health of each endpoint
+   */
+  async checkHealth(): Promise<RpcEndpointHealth[]> {
+    const probes = await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        try {
+          const [chainId, blockNumber] = await Promise.all(
+            ["eth_chainId", "eth_blockNumber"].map(async (method) => {
+              const response = await this.post(endpoint, {
+                jsonrpc: "2.0",
+                id: this.nextRequestId++,
+                method,
+                params: [],
+              }, method);
+
+              if (response?.error || response?.result === undefined) {
+                throw new Error(response?.error?.message || `${method} returned no result`);
+              }
+              return Number(response.result);
+            })
+          );
+          return { endpoint, chainId, blockNumber };
+        } catch (error) {
+          return { endpoint, error: error instanceof Error ? error.message : String(error) };
+        }
+      })
+    );
+
+    this.expectedChainId ??= probes.find((probe) => probe.chainId !== undefined)?.chainId;
+
+    const bestBlock = Math.max(
+      0,
+      ...probes
+        .filter((probe) => probe.chainId === this.expectedChainId)
+        .map((probe) => probe.blockNumber!)
+    );
+
+    return probes.map(({ endpoint, chainId, blockNumber, error }) => {
+      let reason = error;
+
+      if (chainId !== undefined && chainId !== this.expectedChainId) {
+        reason = `chain ID ${chainId}, expected ${this.expectedChainId}`;
+        if (!endpoint.wrongChain) {
+          Logger.error(`RPC ${endpoint.label} is on ${reason}; it will not be used`);
+        }
+        endpoint.wrongChain = true;
+      } else if (blockNumber !== undefined && bestBlock - blockNumber > this.maxBlockLag) {
+        reason = `${bestBlock - blockNumber} blocks behind`;
+      }
+
+      if (reason) {
+        this.markUnhealthy(endpoint, reason);
+      } else {
+        endpoint.unhealthyUntil = 0;
+      }
+
+      return { endpoint: endpoint.label, healthy: !reason, chainId, blockNumber, reason };
+    });
+  }
+
+  /**
+   * Runs a health check if the last one is older than the interval
+   */
+  private async refreshHealthIfDue(): Promise<void> {
+    if (!this.healthCheck && Date.now() - this.lastHealthCheckAt >= this.healthCheckIntervalMs) {
+      this.healthCheck = this.checkHealth().finally(() => {
+        this.lastHealthCheckAt = Date.now();
+        this.healthCheck = undefined;
+      });
+    }
+
+    if (this.healthCheck) {
+      await this.healthCheck;
+    }
+  }
+
+  /**
+   * Orders endpoints for a request: healthy ones by strategy, then the
+   * rest as a last resort
+   *
+   * @throws {ConfigurationError} If every endpoint is on the wrong chain
+   */
+  private orderEndpoints(): EndpointState[] {
+    const usable = this.endpoints.filter((endpoint) => !endpoint.wrongChain);
+
+    if (usable.length === 0) {
+      throw new ConfigurationError(
+        `No RPC endpoint serves chain ${this.expectedChainId}`,
+        { operation: "FailoverProvider", chainId: this.expectedChainId }
+      );
+    }
+
+    const now = Date.now();
+    const healthy = usable.filter((endpoint) => endpoint.unhealthyUntil <= now);
+    const unhealthy = usable.filter((endpoint) => endpoint.unhealthyUntil > now);
+
+    if (this.strategy === "round-robin" && healthy.length > 1) {
+      const start = this.nextIndex++ % healthy.length;
+      healthy.push(...healthy.splice(0, start));
+    }
+
+    return [...healthy, ...unhealthy];
+  }
+
+  /**
+   * Skips an endpoint for the cooldown period
+   */
+  private markUnhealthy(endpoint: EndpointState, reason: string): void {
+    if (endpoint.unhealthyUntil <= Date.now()) {
+      Logger.debug(`RPC ${endpoint.label} marked unhealthy: ${reason}`);
+    }
+    endpoint.unhealthyUntil = Date.now() + RPC_FAILOVER.UNHEALTHY_COOLDOWN_MS;
+  }
+
+  /**
+   * Waits for the endpoint's next rate-limit slot
+   */
+  private async acquireSlot(endpoint: EndpointState): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, endpoint.nextSlotAt);
+    endpoint.nextSlotAt = slot + endpoint.minIntervalMs;
+
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+
+  /**
+   * Posts a payload to one endpoint
+   *
+   * @throws {ApiError} On transport errors, timeouts and non-2xx responses
+   */
+  private async post(endpoint: EndpointState, payload: any, method: string): Promise<any> {
+    await this.acquireSlot(endpoint);
+
+    let response: Response;
+    try {
+      response = await fetch(endpoint.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(this.requestTimeoutMs),
+      });
+    } catch (error) {
+      throw new ApiError(
+        `${endpoint.label}: ${error instanceof Error ? error.message : String(error)}`,
+        undefined,
+        method,
+        { operation: "FailoverProvider.post", endpoint: endpoint.label }
+      );
+    }
+
+    if (!response.ok) {
+      throw new ApiError(
+        `HTTP ${response.status} ${response.statusText} from ${endpoint.label}`,
+        response.status,
+        method,
+        { operation: "FailoverProvider.post", endpoint: endpoint.label }
+      );
+    }
+
+    try {
+      return await response.json();
+    } catch {
+      throw new ApiError(`Invalid JSON from ${endpoint.label}`, undefined, method, {
+        operation: "FailoverProvider.post",
+        endpoint: endpoint.label,
+      });
+    }
+  }
+}
+
+/**
+ * Creates a failover provider over a registry chain's RPC URLs
+ *
+ * @param chain - Chain from the chain registry
+ * @param options - Failover options (the chain ID is taken from the chain)
+ * @returns Provider expecting the chain's ID
+ * @throws {ConfigurationError} If none of the chain's URLs is usable (e.g. API key not set)
+ *
+ * @example
+ * ```typescript
+ * const provider = createChainFailoverProvider(getChainRegistry().get("BSC"));
+ * const web3 = new Web3(provider);
+ * ```
+ */
+export function createChainFailoverProvider(
+  chain: ChainInfo,
+  options: FailoverProviderOptions = {}
+): FailoverProvider {
+  // getRpcUrl throws the chain-specific error when no URL is usable
+  return new FailoverProvider([getRpcUrl(chain), ...getRpcUrls(chain)], {
+    ...options,
+    expectedChainId: chain.chainId,
+  });
+}
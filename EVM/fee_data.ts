@@ -0,0 +1,222 @@
+/**
+ * EIP-1559 fee market helpers
+ *
+ * Detects whether a chain has activated the London fee market and
+ * derives maxFeePerGas / maxPriorityFeePerGas for type-2 transactions,
+ * falling back to a legacy gasPrice on chains that have not.
+ */
+
+import { FeeData } from "../shared/types";
+import { FeePolicy } from "../shared/fee-policy";
+import { Logger } from "../shared/logger";
+import { GAS, ETH_UNITS } from "../shared/constants";
+import { getChainRegistry } from "../shared/chain-registry";
+import { sendJsonRpc, toHexQuantity } from "./json_rpc";
+
+/**
+ * Fee fields ready to be spread into a Web3 transaction object
+ */
+export interface TransactionFeeFields {
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+}
+
+/**
+ * Converts a gwei amount to wei
+ *
+ * @param gwei - Amount in gwei
+ * @returns Amount in wei
+ */
+export function gweiToWei(gwei: number): bigint {
+  return BigInt(Math.round(gwei * ETH_UNITS.GWEI_PER_ETHER));
+}
+
+/**
+ * Reads the base fee of the latest block
+ *
+ * @param web3 - Web3 instance
+ * @returns Base fee in wei, or undefined if the chain is pre-London
+ */
+export async function getBaseFeePerGas(web3: any): Promise<bigint | undefined> {
+  const block = await web3.eth.getBlock("latest");
+
+  if (!block || block.baseFeePerGas === undefined || block.baseFeePerGas === null) {
+    return undefined;
+  }
+
+  return BigInt(block.baseFeePerGas);
+}
+
+/**
+ * Checks whether the connected chain supports EIP-1559 transactions
+ *
+ * Chains in the registry use its `eip1559` flag; for other chains the
+ * latest block is probed for a base fee.
+ *
+ * @param web3 - Web3 instance
+ * @param chainId - Chain ID of the RPC (read from it if omitted)
+ * @returns True if type-2 transactions should be used
+ */
+export async function supportsEip1559(web3: any, chainId?: number): Promise<boolean> {
+  const id = chainId ?? Number(await web3.eth.getChainId());
+  const chain = getChainRegistry().find(id);
+
+  if (chain) {
+    return chain.eip1559;
+  }
+
+  return (await getBaseFeePerGas(web3)) !== undefined;
+}
+
+/**
+ * Gets the node's suggested priority fee
+ *
+ * Falls back to {@link GAS.DEFAULT_PRIORITY_FEE_GWEI} for nodes that do
+ * not implement eth_maxPriorityFeePerGas.
+ *
+ * @param web3 - Web3 instance
+ * @returns Priority fee in wei
+ */
+export async function getMaxPriorityFeePerGas(web3: any): Promise<bigint> {
+  try {
+    const result = await sendJsonRpc<string>(
+      web3.currentProvider,
+      "eth_maxPriorityFeePerGas"
+    );
+    return BigInt(result);
+  } catch (error) {
+    Logger.warn(
+      `eth_maxPriorityFeePerGas unavailable, using ${GAS.DEFAULT_PRIORITY_FEE_GWEI} gwei`
+    );
+    return gweiToWei(GAS.DEFAULT_PRIORITY_FEE_GWEI);
+  }
+}
+
+/**
+ * Gets current fee data for the connected chain
+ *
+ * On EIP-1559 chains maxFeePerGas is `baseFee * BASE_FEE_MULTIPLIER + tip`,
+ * which keeps the transaction includable through several blocks of
+ * rising base fee while only ever paying `baseFee + tip`. Chains the
+ * registry marks as non-EIP-1559 get a legacy gasPrice even if their
+ * blocks carry a base fee.
+ *
+ * @param web3 - Web3 instance
+ * @returns Fee data for building a transaction
+ */
+export async function getFeeData(web3: any): Promise<FeeData> {
+  const [baseFeePerGas, gasPrice, chainId] = await Promise.all([
+    getBaseFeePerGas(web3),
+    web3.eth.getGasPrice().then((price: any) => BigInt(price)),
+    web3.eth.getChainId().then((id: any) => Number(id)),
+  ]);
+
+  if (baseFeePerGas === undefined || getChainRegistry().find(chainId)?.eip1559 === false) {
+    return { supportsEip1559: false, gasPrice };
+  }
+
+  const maxPriorityFeePerGas = await getMaxPriorityFeePerGas(web3);
+  const maxFeePerGas =
+    baseFeePerGas * BigInt(GAS.BASE_FEE_MULTIPLIER) + maxPriorityFeePerGas;
+
+  return {
+    supportsEip1559: true,
+    gasPrice,
+    baseFeePerGas,
+    maxFeePerGas,
+    maxPriorityFeePerGas,
+  };
+}
+
+/**
+ * Gets current fee data that satisfies a fee policy
+ *
+ * When the policy defers, an exceeded gas price or transaction fee is
+ * re-checked every poll interval until fees come down or maxDeferMs
+ * runs out.
+ *
+ * @param web3 - Web3 instance
+ * @param policy - Fee policy
+ * @param gasLimit - Gas limit, if known (otherwise only the gas price is checked)
+ * @returns Fee data within the policy's limits
+ * @throws {FeeLimitExceededError} If a limit is exceeded and cannot be waited out
+ */
+export async function getFeeDataWithinPolicy(
+  web3: any,
+  policy: FeePolicy,
+  gasLimit?: number | bigint
+): Promise<FeeData> {
+  const chainId = Number(await web3.eth.getChainId());
+  const deadline = Date.now() + policy.maxDeferMs;
+
+  while (true) {
+    const feeData = await getFeeData(web3);
+    const violation = policy.check(
+      chainId,
+      gasLimit !== undefined ? BigInt(gasLimit) : undefined,
+      getMaxPricePerGas(feeData)
+    );
+
+    if (!violation) {
+      return feeData;
+    }
+
+    if (
+      !policy.defers ||
+      !violation.deferrable ||
+      Date.now() + policy.deferPollIntervalMs > deadline
+    ) {
+      throw violation;
+    }
+
+    Logger.warn(
+      `${violation.message}; deferring, re-checking in ${policy.deferPollIntervalMs / 1000}s`
+    );
+    await new Promise((resolve) => setTimeout(resolve, policy.deferPollIntervalMs));
+  }
+}
+
+/**
+ * Returns the worst-case price per gas unit for the given fee data
+ *
+ * @param feeData - Fee data
+ * @returns maxFeePerGas on EIP-1559 chains, gasPrice otherwise
+ */
+export function getMaxPricePerGas(feeData: FeeData): bigint {
+  return feeData.maxFeePerGas ?? feeData.gasPrice;
+}
+
+/**
+ * Converts fee data into transaction fields
+ *
+ * @param feeData - Fee data
+ * @returns Type-2 fee fields on EIP-1559 chains, gasPrice otherwise
+ */
+export function toTransactionFeeFields(feeData: FeeData): TransactionFeeFields {
+  if (feeData.supportsEip1559 && feeData.maxFeePerGas !== undefined) {
+    return {
+      maxFeePerGas: toHexQuantity(feeData.maxFeePerGas),
+      maxPriorityFeePerGas: toHexQuantity(feeData.maxPriorityFeePerGas ?? 0n),
+    };
+  }
+
+  return { gasPrice: toHexQuantity(feeData.gasPrice) };
+}
+
+/**
+ * Formats fee data for logging
+ *
+ * @param feeData - Fee data
+ * @returns Human-readable fee summary
+ */
+export function describeFeeData(feeData: FeeData): string {
+  if (feeData.supportsEip1559) {
+    return (
+      `EIP-1559 fees: baseFee=${feeData.baseFeePerGas} wei, ` +
+      `maxFee=${feeData.maxFeePerGas} wei, tip=${feeData.maxPriorityFeePerGas} wei`
+    );
+  }
+
+  return `Legacy gas price: ${feeData.gasPrice} wei`;
+}
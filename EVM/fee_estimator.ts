@@ -0,0 +1,508 @@
+/**
+ * Network fee estimates for consolidation budgets
+ *
+ * For each asset, reads the Fireblocks low / medium / high fee estimate
+ * and derives the cost of a native and of an ERC20 transfer at each
+ * tier's gas price. A token's transfer gas is estimated with
+ * eth_estimateGas when a holder to estimate from is given, and assumed
+ * otherwise. Fees are in the asset's native (gas) unit and are converted
+ * to USD (exactly, as decimal strings) when a price source is given.
+ *
+ * Rollup L1 data fees are not included; calculateMaxNativeSweep (max_sweep)
+ * accounts for them when sweeping.
+ *
+ * Usage:
+ *   ts-node fee_estimator.ts <assetId,assetId,...|assets.txt> [--prices <prices.json>]
+ *     [--from <holder> --to <recipient>] [--out <file.csv|file.json>]
+ */
+
+import * as fs from "fs";
+import { AssetTypeResponse, EstimatedFee, FireblocksSDK } from "fireblocks-sdk";
+import {
+  ChainInfo,
+  DecimalAmount,
+  FeeEstimate,
+  FeeEstimatorOptions,
+  FeeTier,
+  PriceSource,
+  TierFeeEstimate,
+} from "../shared/types";
+import { Logger } from "../shared/logger";
+import { takeOption } from "../shared/cli-options";
+import { GAS } from "../shared/constants";
+import { ApiError, ConfigurationError, ValidationError } from "../shared/errors";
+import { validateEthereumAddress, validateFileExists } from "../shared/validators";
+import { formatUnits, multiplyAmounts, parseUnits, toDecimalString } from "../shared/amounts";
+import { getChainRegistry } from "../shared/chain-registry";
+import { createChainFailoverProvider } from "./failover_provider";
+
+const { Web3 } = require("web3");
+
+/**
+ * Gas price unit Fireblocks reports in
+ */
+const GWEI_DECIMALS = 9;
+
+/**
+ * Decimal places USD amounts are rounded (up) to
+ */
+const USD_DECIMALS = 6;
+
+/**
+ * ERC20 transfer(address,uint256)
+ */
+const TRANSFER_ABI = {
+  name: "transfer",
+  type: "function",
+  inputs: [
+    { name: "recipient", type: "address" },
+    { name: "amount", type: "uint256" },
+  ],
+};
+
+/**
+ * ERC20 balanceOf(address)
+ */
+const BALANCE_OF_ABI = {
+  name: "balanceOf",
+  type: "function",
+  inputs: [{ name: "account", type: "address" }],
+};
+
+const FEE_TIERS: readonly FeeTier[] = ["low", "medium", "high"];
+
+/**
+ * CSV columns, one row per asset and tier
+ */
+const CSV_COLUMNS = [
+  "assetId",
+  "nativeAssetId",
+  "chainId",
+  "tier",
+  "erc20GasLimit",
+  "erc20GasEstimated",
+  "networkFee",
+  "gasPriceGwei",
+  "nativeTransferFee",
+  "erc20TransferFee",
+  "nativePriceUsd",
+  "networkFeeUsd",
+  "nativeTransferFeeUsd",
+  "erc20TransferFeeUsd",
+  "error",
+] as const;
+
+/**
+ * USD prices from a JSON file (`{ "ETH": "2450.12", "BNB_BSC": 580 }`)
+ *
+ * Keys are Fireblocks asset IDs or native symbols, matched case-insensitively.
+ * Prices may be numbers or decimal strings; strings are kept exact.
+ */
+export class JsonFilePriceSource implements PriceSource {
+  private readonly prices = new Map<string, string>();
+
+  /**
+   * @param filePath - Price file
+   * @throws {ValidationError} If the file does not exist
+   * @throws {ConfigurationError} If a price is not a non-negative decimal
+   */
+  constructor(filePath: string) {
+    validateFileExists(filePath, "prices");
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+
+    for (const [asset, value] of Object.entries(parsed)) {
+      let price: string;
+
+      try {
+        price = toDecimalString(value as DecimalAmount, asset);
+      } catch {
+        throw new ConfigurationError(`${filePath}: price of ${asset} must be a non-negative decimal`, {
+          operation: "JsonFilePriceSource",
+        });
+      }
+
+      this.prices.set(asset.toUpperCase(), price);
+    }
+  }
+
+  async getUsdPrice(asset: string): Promise<string | undefined> {
+    return this.prices.get(asset.toUpperCase());
+  }
+}
+
+/**
+ * Reads a tier's price per gas in wei
+ *
+ * @returns Gas price, or undefined for assets without gas (e.g. BTC)
+ */
+function getGasPriceWei(fee: EstimatedFee): bigint | undefined {
+  if (fee.gasPrice !== undefined && fee.gasPrice !== null) {
+    return parseUnits(String(fee.gasPrice), GWEI_DECIMALS, "up");
+  }
+
+  if (fee.baseFee !== undefined && fee.priorityFee !== undefined) {
+    return (
+      parseUnits(String(fee.baseFee), GWEI_DECIMALS, "up") +
+      parseUnits(String(fee.priorityFee), GWEI_DECIMALS, "up")
+    );
+  }
+
+  return undefined;
+}
+
+/**
+ * Converts a whole-unit amount to USD, rounding up to USD_DECIMALS
+ */
+function toUsd(amount: string | undefined, priceUsd: string | undefined): string | undefined {
+  if (amount === undefined || priceUsd === undefined) {
+    return undefined;
+  }
+
+  return multiplyAmounts(amount, priceUsd, USD_DECIMALS, "up");
+}
+
+/**
+ * Estimates network fees per asset from Fireblocks
+ *
+ * @example
+ * ```typescript
+ * const estimator = new FeeEstimator(fireblocksApiClient, {
+ *   priceSource: new JsonFilePriceSource("prices.json"),
+ *   erc20Transfer: { from: vaultAddress, to: consolidationAddress },
+ * });
+ *
+ * const estimates = await estimator.estimateAll(["ETH", "USDC", "BNB_BSC"]);
+ * fs.writeFileSync("fees.csv", toFeeEstimateCsv(estimates));
+ * ```
+ */
+export class FeeEstimator {
+  private readonly fireblocksApiClient: FireblocksSDK;
+  private readonly options: FeeEstimatorOptions;
+  private readonly pricesByAsset = new Map<string, Promise<string | undefined>>();
+  private readonly web3ByChain = new Map<number, any>();
+  private supportedAssets?: Promise<Map<string, AssetTypeResponse>>;
+
+  /**
+   * @param fireblocksApiClient - Fireblocks SDK client
+   * @param options - Price source and ERC20 gas estimation
+   * @throws {ValidationError} If an erc20Transfer address is invalid
+   */
+  constructor(fireblocksApiClient: FireblocksSDK, options: FeeEstimatorOptions = {}) {
+    if (options.erc20Transfer) {
+      validateEthereumAddress(options.erc20Transfer.from, "erc20Transfer.from");
+      validateEthereumAddress(options.erc20Transfer.to, "erc20Transfer.to");
+    }
+
+    this.fireblocksApiClient = fireblocksApiClient;
+    this.options = options;
+  }
+
+  /**
+   * Estimates the fees of one asset
+   *
+   * @param assetId - Fireblocks asset ID
+   * @returns Fees per tier
+   * @throws {ValidationError} If Fireblocks does not support the asset
+   * @throws {ApiError} If Fireblocks returns no estimate
+   */
+  async estimate(assetId: string): Promise<FeeEstimate> {
+    const { nativeAssetId, contractAddress } = await this.resolveAsset(assetId);
+    const chain = getChainRegistry().find(nativeAssetId);
+    const decimals = chain?.gasDecimals ?? 18;
+
+    const [fees, nativePriceUsd, erc20Gas] = await Promise.all([
+      this.fireblocksApiClient.getFeeForAsset(assetId),
+      this.getNativePriceUsd(nativeAssetId, chain),
+      this.getErc20GasLimit(assetId, chain, contractAddress),
+    ]);
+
+    const missing = FEE_TIERS.filter((tier) => !fees?.[tier]);
+    if (missing.length > 0) {
+      throw new ApiError(
+        `Fireblocks returned no ${missing.join("/")} fee estimate for ${assetId}`,
+        undefined,
+        "getFeeForAsset",
+        { operation: "FeeEstimator.estimate", assetId }
+      );
+    }
+
+    const erc20GasLimit = erc20Gas.gasLimit;
+    const tiers = {} as Record<FeeTier, TierFeeEstimate>;
+
+    for (const tier of FEE_TIERS) {
+      const fee = fees[tier];
+      const gasPrice = getGasPriceWei(fee);
+      const networkFee = fee.networkFee !== undefined ? String(fee.networkFee) : undefined;
+      const nativeTransferFee =
+        gasPrice !== undefined
+          ? formatUnits(gasPrice * BigInt(GAS.SIMPLE_TRANSFER_LIMIT), decimals)
+          : undefined;
+      const erc20TransferFee =
+        gasPrice !== undefined ? formatUnits(gasPrice * erc20GasLimit, decimals) : undefined;
+
+      tiers[tier] = {
+        networkFee,
+        gasPriceGwei: gasPrice !== undefined ? formatUnits(gasPrice, GWEI_DECIMALS) : undefined,
+        nativeTransferFee,
+        erc20TransferFee,
+        networkFeeUsd: toUsd(networkFee, nativePriceUsd),
+        nativeTransferFeeUsd: toUsd(nativeTransferFee, nativePriceUsd),
+        erc20TransferFeeUsd: toUsd(erc20TransferFee, nativePriceUsd),
+      };
+    }
+
+    return {
+      assetId,
+      nativeAssetId,
+      chainId: chain?.chainId,
+      nativePriceUsd,
+      erc20GasLimit: erc20GasLimit.toString(),
+      erc20GasEstimated: erc20Gas.estimated,
+      tiers,
+    };
+  }
+
+  /**
+   * Estimates the fees of several assets, one at a time
+   *
+   * An asset that fails is logged and returned with `error` set; the
+   * others are still estimated.
+   *
+   * @param assetIds - Fireblocks asset IDs (duplicates are estimated once)
+   * @returns One estimate per asset, in input order
+   */
+  async estimateAll(assetIds: readonly string[]): Promise<FeeEstimate[]> {
+    const estimates: FeeEstimate[] = [];
+
+    for (const assetId of [...new Set(assetIds)]) {
+      try {
+        estimates.push(await this.estimate(assetId));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        Logger.error(`Fee estimate for ${assetId} failed: ${message}`);
+        estimates.push({ assetId, error: message });
+      }
+    }
+
+    return estimates;
+  }
+
+  /**
+   * Finds the asset an asset's fees are paid in, and its token contract
+   *
+   * Uses the chain registry, then the Fireblocks supported-asset list.
+   */
+  private async resolveAsset(assetId: string): Promise<{ nativeAssetId: string; contractAddress?: string }> {
+    const chain = getChainRegistry().find(assetId);
+    if (chain) {
+      return { nativeAssetId: chain.nativeAssetId };
+    }
+
+    if (!this.supportedAssets) {
+      this.supportedAssets = this.fireblocksApiClient
+        .getSupportedAssets()
+        .then((assets) => new Map(assets.map((asset) => [asset.id, asset])));
+      this.supportedAssets.catch(() => (this.supportedAssets = undefined));
+    }
+
+    const asset = (await this.supportedAssets).get(assetId);
+    if (!asset) {
+      throw new ValidationError("assetId", assetId, "Not supported by Fireblocks", {
+        operation: "FeeEstimator.resolveAsset",
+      });
+    }
+
+    return { nativeAssetId: asset.nativeAsset || asset.id, contractAddress: asset.contractAddress || undefined };
+  }
+
+  /**
+   * Gets the gas an ERC20 transfer of the asset is priced at
+   *
+   * A token is estimated with eth_estimateGas, sending the holder's full
+   * balance, when a transfer to estimate is configured and the token's
+   * contract and chain are known. Otherwise, or if the holder has none
+   * or the estimate fails, erc20TransferGasLimit is assumed.
+   */
+  private async getErc20GasLimit(
+    assetId: string,
+    chain: ChainInfo | undefined,
+    contractAddress: string | undefined
+  ): Promise<{ gasLimit: bigint; estimated: boolean }> {
+    const assumed = {
+      gasLimit: BigInt(this.options.erc20TransferGasLimit ?? GAS.ERC20_TRANSFER_LIMIT),
+      estimated: false,
+    };
+    const transfer = this.options.erc20Transfer;
+
+    if (!transfer || !chain || !contractAddress) {
+      return assumed;
+    }
+
+    try {
+      let web3 = this.web3ByChain.get(chain.chainId);
+      if (!web3) {
+        web3 = new Web3(createChainFailoverProvider(chain));
+        this.web3ByChain.set(chain.chainId, web3);
+      }
+
+      const balance = BigInt(
+        web3.eth.abi.decodeParameter(
+          "uint256",
+          await web3.eth.call({
+            to: contractAddress,
+            data: web3.eth.abi.encodeFunctionCall(BALANCE_OF_ABI, [transfer.from]),
+          })
+        )
+      );
+
+      if (balance === 0n) {
+        Logger.warn(`${assetId}: ${transfer.from} holds none, assuming ${assumed.gasLimit} gas per transfer`);
+        return assumed;
+      }
+
+      const gasLimit = await web3.eth.estimateGas({
+        from: transfer.from,
+        to: contractAddress,
+        data: web3.eth.abi.encodeFunctionCall(TRANSFER_ABI, [transfer.to, balance.toString()]),
+      });
+
+      return { gasLimit: BigInt(gasLimit), estimated: true };
+    } catch (error) {
+      Logger.warn(
+        `${assetId}: transfer gas not estimated, assuming ${assumed.gasLimit} ` +
+        `(${error instanceof Error ? error.message : String(error)})`
+      );
+      return assumed;
+    }
+  }
+
+  /**
+   * Gets the USD price of a native asset, falling back to its symbol
+   */
+  private getNativePriceUsd(nativeAssetId: string, chain?: ChainInfo): Promise<string | undefined> {
+    const priceSource = this.options.priceSource;
+    if (!priceSource) {
+      return Promise.resolve(undefined);
+    }
+
+    let price = this.pricesByAsset.get(nativeAssetId);
+
+    if (!price) {
+      price = (async () => {
+        const usd =
+          (await priceSource.getUsdPrice(nativeAssetId)) ??
+          (chain ? await priceSource.getUsdPrice(chain.nativeSymbol) : undefined);
+
+        if (usd === undefined) {
+          Logger.warn(`No USD price for ${nativeAssetId}; its fees are not converted`);
+          return undefined;
+        }
+        return toDecimalString(usd, `price of ${nativeAssetId}`);
+      })();
+      this.pricesByAsset.set(nativeAssetId, price);
+    }
+
+    return price;
+  }
+}
+
+/**
+ * Formats estimates as CSV, one row per asset and tier
+ *
+ * Failed assets get a single row with the error.
+ *
+ * @param estimates - Estimates from {@link FeeEstimator}
+ * @returns CSV with a header row
+ */
+export function toFeeEstimateCsv(estimates: readonly FeeEstimate[]): string {
+  const escape = (value: unknown): string => {
+    const text = value === undefined || value === null ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const rows = estimates.flatMap((estimate) => {
+    const { tiers, ...common } = estimate;
+    return tiers
+      ? FEE_TIERS.map((tier) => ({ ...common, tier, ...tiers[tier] }))
+      : [common];
+  });
+
+  return [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row: Record<string, unknown>) =>
+      CSV_COLUMNS.map((column) => escape(row[column])).join(",")
+    ),
+  ].join("\n") + "\n";
+}
+
+/**
+ * CLI entry point
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const pricesPath = takeOption(args, "--prices", true);
+  const fromAddress = takeOption(args, "--from", true);
+  const toAddress = takeOption(args, "--to", true);
+  const outPath = takeOption(args, "--out", true);
+  const [assets] = args;
+
+  if (
+    !assets ||
+    pricesPath === true ||
+    outPath === true ||
+    fromAddress === true ||
+    toAddress === true ||
+    typeof fromAddress !== typeof toAddress
+  ) {
+    Logger.error(
+      "Usage: ts-node fee_estimator.ts <assetId,assetId,...|assets.txt> " +
+      "[--prices <prices.json>] [--from <holder> --to <recipient>] [--out <file.csv|file.json>]"
+    );
+    process.exit(1);
+  }
+
+  const assetIds = (fs.existsSync(assets) ? fs.readFileSync(assets, "utf8") : assets)
+    .split(/[\s,]+/)
+    .filter(Boolean);
+
+  // Loaded lazily: the config module reads the API secret on import
+  const { createFireblocksClient } = require("../shared/config");
+  const estimator = new FeeEstimator(createFireblocksClient(), {
+    priceSource: typeof pricesPath === "string" ? new JsonFilePriceSource(pricesPath) : undefined,
+    erc20Transfer:
+      typeof fromAddress === "string" && typeof toAddress === "string"
+        ? { from: fromAddress, to: toAddress }
+        : undefined,
+  });
+
+  const estimates = await estimator.estimateAll(assetIds);
+
+  for (const estimate of estimates.filter((entry) => entry.tiers)) {
+    const { low, medium, high } = estimate.tiers!;
+    const usd = medium.networkFeeUsd !== undefined ? ` (medium ~$${medium.networkFeeUsd})` : "";
+    Logger.info(
+      `${estimate.assetId}: network fee ${low.networkFee ?? "?"} / ${medium.networkFee ?? "?"} / ` +
+      `${high.networkFee ?? "?"} ${estimate.nativeAssetId}${usd}`
+    );
+  }
+
+  const output = typeof outPath === "string" ? outPath : "fee_estimates.csv";
+  fs.writeFileSync(
+    output,
+    output.endsWith(".json") ? JSON.stringify(estimates, null, 2) : toFeeEstimateCsv(estimates)
+  );
+
+  const failures = estimates.filter((estimate) => estimate.error).length;
+  Logger.success(`${estimates.length - failures}/${estimates.length} asset(s) estimated, written to ${output}`);
+
+  if (failures > 0) {
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    Logger.error("Fee estimation failed", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,273 @@
+/**
+ * Leftover gas return
+ *
+ * Once a vault's tokens are swept, the native gas topped up for the
+ * sweeps is no longer needed. This sends it back to the gas-funding vault:
+ * - through a Fireblocks internal transfer when the vault holds the
+ *   chain's native asset in Fireblocks: the vault's available balance
+ *   less Fireblocks' high fee estimate and the safety margin
+ * - otherwise as a raw native transfer signed with the vault's ETH key
+ *   to the funding vault's address, sending the largest sendable balance
+ *   (calculateMaxNativeSweep: worst-case fee, L1 data fee and safety
+ *   margin held back)
+ *
+ * Balances not worth returning (the fee held back is larger than what
+ * would arrive) are left in place.
+ */
+
+import {
+  AssetResponse,
+  FireblocksSDK,
+  PeerType,
+  TransactionOperation,
+  TransactionStatus,
+} from "fireblocks-sdk";
+import { ChainInfo, GasReturnOptions, GasReturnRequest, GasTransferResult } from "../shared/types";
+import { Logger } from "../shared/logger";
+import { ApiError, InsufficientBalanceError, NoAddressesError } from "../shared/errors";
+import { validateVaultId } from "../shared/validators";
+import { addPercent, formatUnits, parseUnits } from "../shared/amounts";
+import { SWEEP } from "../shared/constants";
+import { getChainRegistry, getRpcUrls } from "../shared/chain-registry";
+import { pollTransaction } from "../shared/transaction-poller";
+import { calculateMaxNativeSweep } from "./max_sweep";
+import { createChainFailoverProvider } from "./failover_provider";
+import { performInternalTransfer, transfer } from "./transfer.refactored";
+
+const { Web3 } = require("web3");
+
+/**
+ * Gets the chain's native asset in a vault, if Fireblocks tracks it there
+ */
+async function getFireblocksWallet(
+  fireblocksApiClient: FireblocksSDK,
+  vaultId: string,
+  chain: ChainInfo
+): Promise<AssetResponse | undefined> {
+  try {
+    return await fireblocksApiClient.getVaultAccountAsset(vaultId, chain.nativeAssetId);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Returns one vault's leftover gas through a Fireblocks internal transfer
+ *
+ * Fireblocks pays the network fee from the vault's balance, so its own
+ * fee estimate (high tier, plus the safety margin) is held back from the
+ * available balance.
+ *
+ * @returns Transfer result, or undefined if nothing is worth returning
+ * @throws {ApiError} If Fireblocks returns no fee estimate
+ */
+async function returnThroughFireblocks(
+  fireblocksApiClient: FireblocksSDK,
+  request: GasReturnRequest,
+  options: GasReturnOptions,
+  chain: ChainInfo,
+  wallet: AssetResponse,
+  web3: any
+): Promise<GasTransferResult | undefined> {
+  const available = parseUnits(wallet.available ?? wallet.total, chain.gasDecimals);
+
+  if (available === 0n) {
+    Logger.info(`Vault ${request.vaultId}: no gas left to return on ${chain.name}`);
+    return undefined;
+  }
+
+  const estimate = await fireblocksApiClient.estimateFeeForTransaction({
+    operation: TransactionOperation.TRANSFER,
+    assetId: chain.nativeAssetId,
+    amount: formatUnits(available, chain.gasDecimals),
+    source: { type: PeerType.VAULT_ACCOUNT, id: String(request.vaultId) },
+    destination: { type: PeerType.VAULT_ACCOUNT, id: String(options.fundingVaultId) },
+  });
+
+  const networkFee = estimate?.high?.networkFee;
+  if (networkFee === undefined) {
+    throw new ApiError(
+      `Fireblocks returned no fee estimate for ${chain.nativeAssetId}`,
+      undefined,
+      "estimateFeeForTransaction",
+      { operation: "returnThroughFireblocks", vaultId: request.vaultId }
+    );
+  }
+
+  const reservedFee = addPercent(
+    parseUnits(networkFee, chain.gasDecimals, "up"),
+    options.safetyMarginPercent ?? SWEEP.SAFETY_MARGIN_PERCENT
+  );
+  const amount = formatUnits(available - reservedFee, chain.gasDecimals);
+
+  if (available - reservedFee <= reservedFee) {
+    Logger.info(
+      `Vault ${request.vaultId}: ${formatUnits(available, chain.gasDecimals)} ${chain.nativeSymbol} left on ` +
+      `${chain.name} is not worth the ${formatUnits(reservedFee, chain.gasDecimals)} fee, keeping it`
+    );
+    return undefined;
+  }
+
+  const transaction = await performInternalTransfer(web3, {
+    fireblocksApiClient,
+    assetId: chain.nativeAssetId,
+    amount,
+    sourceVaultId: request.vaultId,
+    destinationVaultId: options.fundingVaultId,
+  });
+  const { finalStatus } = await pollTransaction(fireblocksApiClient, transaction.id);
+
+  return {
+    vaultId: request.vaultId,
+    nativeAssetId: chain.nativeAssetId,
+    amount,
+    transactionId: transaction.id,
+    status: finalStatus,
+    error: finalStatus === TransactionStatus.COMPLETED ? undefined : `Transaction ${finalStatus.toLowerCase()}`,
+  };
+}
+
+/**
+ * Returns one vault's leftover gas
+ *
+ * @returns Transfer result, or undefined if nothing is worth returning
+ */
+async function returnVaultGas(
+  fireblocksApiClient: FireblocksSDK,
+  request: GasReturnRequest,
+  options: GasReturnOptions,
+  getFundingAddress: () => Promise<string>
+): Promise<GasTransferResult | undefined> {
+  const chain = getChainRegistry().get(request.chain);
+  const [rpcUrl, ...fallbackProviderUrls] = getRpcUrls(chain);
+
+  // Read-only instance over the chain's registry RPCs: the sweep amount is
+  // computed for the vault's address
+  const web3 = new Web3(createChainFailoverProvider(chain));
+  web3.eth.defaultAccount = request.address;
+
+  const wallet = await getFireblocksWallet(fireblocksApiClient, request.vaultId, chain);
+  if (wallet) {
+    return returnThroughFireblocks(fireblocksApiClient, request, options, chain, wallet, web3);
+  }
+
+  // Not in Fireblocks: sweep with the ETH key, resending the full balance less fees
+  let sweep;
+  try {
+    sweep = await calculateMaxNativeSweep(web3, {
+      safetyMarginPercent: options.safetyMarginPercent,
+    });
+  } catch (error) {
+    if (error instanceof InsufficientBalanceError) {
+      Logger.info(`Vault ${request.vaultId}: no gas left to return on ${chain.name}`);
+      return undefined;
+    }
+    throw error;
+  }
+
+  const amount = formatUnits(sweep.amount, chain.gasDecimals);
+
+  if (sweep.amount <= sweep.reservedFee) {
+    Logger.info(
+      `Vault ${request.vaultId}: ${amount} ${chain.nativeSymbol} left on ${chain.name} ` +
+      `is not worth the ${formatUnits(sweep.reservedFee, chain.gasDecimals)} fee, keeping it`
+    );
+    return undefined;
+  }
+
+  Logger.info(`Vault ${request.vaultId}: ${chain.nativeAssetId} not in Fireblocks, returning gas with a raw transfer`);
+  const sent = await transfer({
+    fireblocksApiClient,
+    ethereumProviderUrl: rpcUrl,
+    fallbackProviderUrls,
+    sourceVaultAccountId: request.vaultId,
+    recipientAddress: await getFundingAddress(),
+    assetIdentifier: "ETH",
+    assetSymbol: chain.nativeSymbol,
+    transferAmount: 0,
+    expectedChainIds: [chain.chainId],
+    feePolicy: options.feePolicy,
+    sweepSafetyMarginPercent: options.safetyMarginPercent,
+  });
+
+  // Web3 reports success as true (1.x) or 1n (4.x)
+  const succeeded = Number(sent.receipt?.status) === 1;
+
+  return {
+    vaultId: request.vaultId,
+    nativeAssetId: chain.nativeAssetId,
+    amount: formatUnits(BigInt(sent.sentAmount), chain.gasDecimals),
+    transactionId: sent.transactionHash,
+    status: succeeded ? TransactionStatus.COMPLETED : TransactionStatus.FAILED,
+    error: succeeded ? undefined : "Transaction reverted",
+  };
+}
+
+/**
+ * Sends swept vaults' leftover native gas back to the gas-funding vault
+ *
+ * Vaults are processed one at a time. A failed return is logged and
+ * reported; the rest still run.
+ *
+ * @param fireblocksApiClient - Fireblocks SDK client
+ * @param vaults - Swept vaults (one entry per vault and chain)
+ * @param options - Funding vault and safety margin
+ * @returns One result per vault that had gas worth returning
+ *
+ * @example
+ * ```typescript
+ * const results = await returnLeftoverGas(fireblocksApiClient, sweptVaults, {
+ *   fundingVaultId: process.env.GAS_FUNDING_VAULT!,
+ * });
+ * ```
+ */
+export async function returnLeftoverGas(
+  fireblocksApiClient: FireblocksSDK,
+  vaults: readonly GasReturnRequest[],
+  options: GasReturnOptions
+): Promise<GasTransferResult[]> {
+  validateVaultId(options.fundingVaultId, "fundingVaultId");
+
+  let fundingAddress: string | undefined;
+  const getFundingAddress = async (): Promise<string> => {
+    if (!fundingAddress) {
+      const [deposit] = await fireblocksApiClient.getDepositAddresses(String(options.fundingVaultId), "ETH");
+      if (!deposit) {
+        throw new NoAddressesError(options.fundingVaultId, "ETH", { operation: "returnLeftoverGas" });
+      }
+      fundingAddress = deposit.address;
+    }
+    return fundingAddress;
+  };
+
+  const results: GasTransferResult[] = [];
+
+  for (const request of vaults) {
+    if (String(request.vaultId) === String(options.fundingVaultId)) {
+      continue;
+    }
+
+    try {
+      const result = await returnVaultGas(fireblocksApiClient, request, options, getFundingAddress);
+      if (result) {
+        results.push(result);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      Logger.error(`Gas return from vault ${request.vaultId} on ${request.chain} failed: ${message}`);
+      results.push({
+        vaultId: request.vaultId,
+        nativeAssetId: getChainRegistry().find(request.chain)?.nativeAssetId ?? request.chain,
+        amount: "0",
+        error: message,
+      });
+    }
+  }
+
+  const failures = results.filter((result) => result.error).length;
+  Logger.info(
+    `Returned gas from ${results.length - failures}/${results.length} vault(s) to vault ${options.fundingVaultId}`
+  );
+
+  return results;
+}
@@ -0,0 +1,400 @@
+/**
+ * Gas top-up planner
+ *
+ * Works out how much native gas each vault needs for its pending token
+ * sweeps instead of sending every vault a fixed amount:
+ * - each sweep's gas is estimated against the vault's real token balance
+ *   (with GAS.ESTIMATION_BUFFER, as the sweep will be sent with it)
+ * - fees are priced at the worst case the node requires the balance to
+ *   cover (gas limit times maxFeePerGas or gasPrice), plus the L1 data
+ *   fee on OP Stack chains
+ * - the vault's existing native balance is subtracted and a safety
+ *   margin added, so only the shortfall is sent
+ *
+ * The plan is executed with Fireblocks internal transfers from a
+ * gas-funding vault. Sweeps that would revert are left unfunded.
+ *
+ * Usage:
+ *   ts-node gas_topup_planner.ts [vaults_needing_gas.csv] --recipient <address>
+ *     [--funding-vault <vaultId>] [--margin <percent>] [--out <plan.json>] [--execute]
+ */
+
+import * as fs from "fs";
+import { FireblocksSDK, TransactionStatus } from "fireblocks-sdk";
+import {
+  ChainInfo,
+  FeeData,
+  GasTopUpOptions,
+  GasTopUpPlanEntry,
+  GasTopUpRequest,
+  GasTransferResult,
+} from "../shared/types";
+import { Logger } from "../shared/logger";
+import { takeOption } from "../shared/cli-options";
+import { GAS, GAS_TOP_UP } from "../shared/constants";
+import { ValidationError } from "../shared/errors";
+import { validateEthereumAddress, validateFileExists, validateVaultId } from "../shared/validators";
+import { addPercent, formatUnits } from "../shared/amounts";
+import { getChainRegistry, getRpcUrl } from "../shared/chain-registry";
+import { createChainFailoverProvider } from "./failover_provider";
+import { pollTransaction } from "../shared/transaction-poller";
+import { getFeeData, getMaxPricePerGas } from "./fee_data";
+import { getOpStackL1Fee } from "./max_sweep";
+import { scanBalances } from "./balance_scanner";
+import { performInternalTransfer } from "./transfer.refactored";
+
+const { Web3 } = require("web3");
+
+/**
+ * ERC20 transfer(address,uint256)
+ */
+const TRANSFER_ABI = {
+  name: "transfer",
+  type: "function",
+  inputs: [
+    { name: "recipient", type: "address" },
+    { name: "amount", type: "uint256" },
+  ],
+};
+
+/**
+ * ERC20 balanceOf(address)
+ */
+const BALANCE_OF_ABI = {
+  name: "balanceOf",
+  type: "function",
+  inputs: [{ name: "account", type: "address" }],
+};
+
+/**
+ * Largest uint256, the longest amount an ERC20 transfer can encode
+ */
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+/**
+ * Gas and L1 data fee of one pending sweep
+ */
+interface SweepCost {
+  readonly gasLimit: bigint;
+  readonly l1DataFee: bigint;
+}
+
+/**
+ * Estimates the cost of sweeping one token out of a vault
+ *
+ * @returns Sweep cost, or undefined if the transfer would revert
+ */
+async function estimateSweepCost(
+  web3: any,
+  chain: ChainInfo,
+  request: GasTopUpRequest,
+  recipientAddress: string,
+  feeData: FeeData
+): Promise<SweepCost | undefined> {
+  let gasLimit = BigInt(Math.floor(GAS.ERC20_TRANSFER_LIMIT * GAS.ESTIMATION_BUFFER));
+  let to = recipientAddress;
+  let data = web3.eth.abi.encodeFunctionCall(TRANSFER_ABI, [recipientAddress, MAX_UINT256.toString()]);
+
+  if (request.tokenAddress) {
+    to = request.tokenAddress;
+    const balance = await web3.eth.call({
+      to,
+      data: web3.eth.abi.encodeFunctionCall(BALANCE_OF_ABI, [request.address]),
+    });
+    data = web3.eth.abi.encodeFunctionCall(TRANSFER_ABI, [
+      recipientAddress,
+      web3.eth.abi.decodeParameter("uint256", balance).toString(),
+    ]);
+
+    try {
+      const estimate = await web3.eth.estimateGas({ from: request.address, to, data });
+      gasLimit = BigInt(Math.floor(Number(estimate) * GAS.ESTIMATION_BUFFER));
+    } catch (error) {
+      Logger.warn(
+        `Vault ${request.vaultId}: ${request.tokenName ?? to} transfer would revert, not funding it ` +
+        `(${error instanceof Error ? error.message : String(error)})`
+      );
+      return undefined;
+    }
+  } else {
+    Logger.warn(
+      `Vault ${request.vaultId}: no contract for ${request.tokenName ?? "token"}, ` +
+      `assuming ${GAS.ERC20_TRANSFER_LIMIT} gas`
+    );
+  }
+
+  const l1DataFee =
+    chain.l1DataFee === "op-stack"
+      ? await getOpStackL1Fee(web3, chain.chainId, request.address, to, 0n, gasLimit, feeData, data)
+      : 0n;
+
+  return { gasLimit, l1DataFee };
+}
+
+/**
+ * Plans the top-ups for the vaults on one chain
+ */
+async function planChain(
+  chain: ChainInfo,
+  requests: readonly GasTopUpRequest[],
+  options: GasTopUpOptions
+): Promise<GasTopUpPlanEntry[]> {
+  const rpcUrl = getRpcUrl(chain);
+  // Reads fail over across the chain's registry RPCs
+  const web3 = new Web3(createChainFailoverProvider(chain));
+  const feeData = await getFeeData(web3);
+  const pricePerGas = getMaxPricePerGas(feeData);
+  const safetyMarginPercent = options.safetyMarginPercent ?? GAS_TOP_UP.SAFETY_MARGIN_PERCENT;
+
+  const byVault = new Map<string, GasTopUpRequest[]>();
+  for (const request of requests) {
+    byVault.set(request.vaultId, [...(byVault.get(request.vaultId) ?? []), request]);
+  }
+
+  const vaults = [...byVault.values()];
+  const balances = await scanBalances(
+    rpcUrl,
+    vaults.map(([first]) => ({ address: first.address }))
+  );
+
+  const plan: GasTopUpPlanEntry[] = [];
+
+  for (const [index, vaultRequests] of vaults.entries()) {
+    const { vaultId, address } = vaultRequests[0];
+    const balanceInfo = balances[index];
+
+    if (balanceInfo.error) {
+      throw new ValidationError("address", address, `Balance unreadable on ${chain.name}: ${balanceInfo.error}`, {
+        operation: "planGasTopUps",
+        vaultId,
+      });
+    }
+
+    const tokens: string[] = [];
+    const skippedTokens: string[] = [];
+    let gasLimit = 0n;
+    let fees = 0n;
+
+    for (const request of vaultRequests) {
+      const label = request.tokenName ?? request.tokenAddress ?? "token";
+      const cost = await estimateSweepCost(web3, chain, request, options.recipientAddress, feeData);
+
+      if (!cost) {
+        skippedTokens.push(label);
+        continue;
+      }
+
+      tokens.push(label);
+      gasLimit += cost.gasLimit;
+      fees += cost.gasLimit * pricePerGas + cost.l1DataFee;
+    }
+
+    const required = addPercent(fees, safetyMarginPercent);
+    const balance = BigInt(balanceInfo.balanceInWei);
+    const topUp = required > balance ? required - balance : 0n;
+
+    plan.push({
+      vaultId,
+      nativeAssetId: chain.nativeAssetId,
+      chainId: chain.chainId,
+      address,
+      tokens,
+      skippedTokens,
+      gasLimit: gasLimit.toString(),
+      required: formatUnits(required, chain.gasDecimals),
+      balance: formatUnits(balance, chain.gasDecimals),
+      topUp: formatUnits(topUp, chain.gasDecimals),
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * Plans the native gas each vault needs for its pending token sweeps
+ *
+ * @param requests - Pending sweeps; several per vault are summed
+ * @param options - Sweep recipient and safety margin
+ * @returns One entry per vault and chain
+ * @throws {ConfigurationError} If a chain is not in the chain registry
+ * @throws {ValidationError} If an address or a vault balance is invalid
+ *
+ * @example
+ * ```typescript
+ * const plan = await planGasTopUps(requests, { recipientAddress });
+ * const results = await executeGasTopUps(fireblocksApiClient, plan, "10");
+ * ```
+ */
+export async function planGasTopUps(
+  requests: readonly GasTopUpRequest[],
+  options: GasTopUpOptions
+): Promise<GasTopUpPlanEntry[]> {
+  validateEthereumAddress(options.recipientAddress, "recipientAddress");
+
+  const byChain = new Map<number, { chain: ChainInfo; requests: GasTopUpRequest[] }>();
+
+  for (const request of requests) {
+    validateVaultId(request.vaultId, "vaultId");
+    validateEthereumAddress(request.address, "address");
+    if (request.tokenAddress) validateEthereumAddress(request.tokenAddress, "tokenAddress");
+
+    const chain = getChainRegistry().get(request.chain);
+    const group = byChain.get(chain.chainId) ?? { chain, requests: [] };
+    group.requests.push(request);
+    byChain.set(chain.chainId, group);
+  }
+
+  const plan: GasTopUpPlanEntry[] = [];
+
+  for (const { chain, requests: chainRequests } of byChain.values()) {
+    Logger.info(`Planning gas for ${chainRequests.length} sweep(s) on ${chain.name}`);
+    plan.push(...(await planChain(chain, chainRequests, options)));
+  }
+
+  return plan;
+}
+
+/**
+ * Sends the planned top-ups from the gas-funding vault, one at a time
+ *
+ * Each transfer is polled to completion before the next is created. A
+ * failed top-up is logged and reported; the rest still run.
+ *
+ * @param fireblocksApiClient - Fireblocks SDK client
+ * @param plan - Plan from {@link planGasTopUps}
+ * @param fundingVaultId - Vault that pays for the gas
+ * @returns One result per vault that needed gas
+ */
+export async function executeGasTopUps(
+  fireblocksApiClient: FireblocksSDK,
+  plan: readonly GasTopUpPlanEntry[],
+  fundingVaultId: string | number
+): Promise<GasTransferResult[]> {
+  validateVaultId(fundingVaultId, "fundingVaultId");
+  const results: GasTransferResult[] = [];
+
+  for (const entry of plan.filter((item) => item.topUp !== "0")) {
+    const { vaultId, nativeAssetId, topUp: amount } = entry;
+
+    try {
+      const web3 = new Web3(createChainFailoverProvider(getChainRegistry().get(entry.chainId)));
+      const transaction = await performInternalTransfer(web3, {
+        fireblocksApiClient,
+        assetId: nativeAssetId,
+        amount,
+        sourceVaultId: fundingVaultId,
+        destinationVaultId: vaultId,
+      });
+      const { finalStatus } = await pollTransaction(fireblocksApiClient, transaction.id);
+
+      results.push({
+        vaultId,
+        nativeAssetId,
+        amount,
+        transactionId: transaction.id,
+        status: finalStatus,
+        error: finalStatus === TransactionStatus.COMPLETED ? undefined : `Transaction ${finalStatus.toLowerCase()}`,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      Logger.error(`Top-up of ${amount} ${nativeAssetId} to vault ${vaultId} failed: ${message}`);
+      results.push({ vaultId, nativeAssetId, amount, error: message });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Reads pending sweeps from vaults_needing_gas.csv
+ * (Vault, NativeToken, Address, Coin and optionally Contract columns)
+ */
+function readGasRequests(csvPath: string): Promise<GasTopUpRequest[]> {
+  const csv = require("csv-parser");
+  const requests: GasTopUpRequest[] = [];
+
+  return new Promise((resolve, reject) => {
+    fs.createReadStream(csvPath)
+      .pipe(csv())
+      .on("data", (row: any) =>
+        requests.push({
+          vaultId: row.Vault,
+          chain: row.NativeToken,
+          address: row.Address,
+          tokenAddress: row.Contract || undefined,
+          tokenName: row.Coin || undefined,
+        })
+      )
+      .on("error", reject)
+      .on("end", () => resolve(requests));
+  });
+}
+
+/**
+ * CLI entry point
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const recipientAddress = takeOption(args, "--recipient", true);
+  const fundingVault = takeOption(args, "--funding-vault", true) ?? process.env.GAS_FUNDING_VAULT;
+  const margin = takeOption(args, "--margin", true);
+  const outPath = takeOption(args, "--out", true);
+  const execute = takeOption(args, "--execute", false) === true;
+  const [csvPath = "vaults_needing_gas.csv"] = args;
+
+  if (
+    typeof recipientAddress !== "string" ||
+    margin === true ||
+    outPath === true ||
+    (execute && typeof fundingVault !== "string")
+  ) {
+    Logger.error(
+      "Usage: ts-node gas_topup_planner.ts [vaults_needing_gas.csv] --recipient <address> " +
+      "[--funding-vault <vaultId>] [--margin <percent>] [--out <plan.json>] [--execute]"
+    );
+    process.exit(1);
+  }
+
+  validateFileExists(csvPath, "csvPath");
+  const plan = await planGasTopUps(await readGasRequests(csvPath), {
+    recipientAddress,
+    safetyMarginPercent: margin !== undefined ? Number(margin) : undefined,
+  });
+
+  for (const entry of plan) {
+    Logger.info(
+      `Vault ${entry.vaultId} on ${entry.nativeAssetId}: needs ${entry.required}, ` +
+      `has ${entry.balance}, top-up ${entry.topUp} (${entry.tokens.length} sweep(s)` +
+      (entry.skippedTokens.length ? `, skipped ${entry.skippedTokens.join(", ")})` : ")")
+    );
+  }
+
+  const output = typeof outPath === "string" ? outPath : "gas_topup_plan.json";
+  fs.writeFileSync(output, JSON.stringify(plan, null, 2));
+
+  const needed = plan.filter((entry) => entry.topUp !== "0").length;
+  Logger.success(`${needed}/${plan.length} vault(s) need gas, plan written to ${output}`);
+
+  if (!execute) {
+    Logger.info("Dry run: pass --execute to send the top-ups");
+    return;
+  }
+
+  // Loaded lazily: the config module reads the API secret on import
+  const { createFireblocksClient } = require("../shared/config");
+  const results = await executeGasTopUps(createFireblocksClient(), plan, fundingVault as string);
+  const failures = results.filter((result) => result.error).length;
+
+  Logger.info(`Topped up ${results.length - failures}/${results.length} vault(s)`);
+
+  if (failures > 0) {
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    Logger.error("Gas top-up planning failed", error);
+    process.exit(1);
+  });
+}
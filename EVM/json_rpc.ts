@@ -0,0 +1,184 @@
+/**
+ * Minimal JSON-RPC helper for Web3 providers
+ *
+ * Sends raw JSON-RPC requests through a provider's callback-style
+ * `send` method, for node methods Web3 does not wrap directly
+ * (eth_maxPriorityFeePerGas, eth_createAccessList, ...).
+ */
+
+import { ApiError } from "../shared/errors";
+
+let nextRequestId = 1;
+
+/**
+ * Sends a JSON-RPC request through a Web3-compatible provider
+ *
+ * @param provider - Provider exposing `send(payload, callback)`
+ * @param method - JSON-RPC method name
+ * @param params - JSON-RPC params array
+ * @returns The `result` field of the response
+ * @throws {ApiError} If the node returns a JSON-RPC error
+ */
+export function sendJsonRpc<T = any>(
+  provider: any,
+  method: string,
+  params: any[] = []
+): Promise<T> {
+  const payload = {
+    jsonrpc: "2.0",
+    id: nextRequestId++,
+    method,
+    params,
+  };
+
+  return new Promise<T>((resolve, reject) => {
+    provider.send(payload, (error: any, response: any) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+
+      if (response?.error) {
+        reject(
+          new ApiError(
+            response.error.message || `JSON-RPC error in ${method}`,
+            response.error.code,
+            method,
+            { operation: "sendJsonRpc", data: response.error.data }
+          )
+        );
+        return;
+      }
+
+      resolve(response?.result);
+    });
+  });
+}
+
+/**
+ * Posts a JSON-RPC request directly to an HTTP endpoint
+ *
+ * Used for endpoints that need custom headers (e.g. relay authentication
+ * computed over the exact request body).
+ *
+ * @param url - Endpoint URL
+ * @param method - JSON-RPC method name
+ * @param params - JSON-RPC params array
+ * @param headers - Extra headers, or a function deriving them from the body
+ * @returns The `result` field of the response
+ * @throws {ApiError} On HTTP or JSON-RPC errors
+ */
+export async function postJsonRpc<T = any>(
+  url: string,
+  method: string,
+  params: any[] = [],
+  headers: Record<string, string> | ((body: string) => Record<string, string>) = {}
+): Promise<T> {
+  const body = JSON.stringify({
+    jsonrpc: "2.0",
+    id: nextRequestId++,
+    method,
+    params,
+  });
+  const extraHeaders = typeof headers === "function" ? headers(body) : headers;
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...extraHeaders },
+    body,
+  });
+
+  if (!response.ok) {
+    throw new ApiError(
+      `HTTP ${response.status} ${response.statusText} from ${url}`,
+      response.status,
+      method,
+      { operation: "postJsonRpc", url }
+    );
+  }
+
+  const json: any = await response.json();
+
+  if (json.error) {
+    throw new ApiError(
+      json.error.message || `JSON-RPC error in ${method}`,
+      json.error.code,
+      method,
+      { operation: "postJsonRpc", url, data: json.error.data }
+    );
+  }
+
+  return json.result;
+}
+
+/**
+ * Posts a JSON-RPC batch request directly to an HTTP endpoint
+ *
+ * Per-request errors are returned in place rather than thrown, so one
+ * failing call does not discard the rest of the batch.
+ *
+ * @param url - Endpoint URL
+ * @param requests - Method and params of each request
+ * @returns Result or error of each request, in request order
+ * @throws {ApiError} On HTTP errors or if the endpoint does not support batches
+ */
+export async function postJsonRpcBatch<T = any>(
+  url: string,
+  requests: readonly { method: string; params: any[] }[]
+): Promise<{ result?: T; error?: { code: number; message: string } }[]> {
+  const firstId = nextRequestId;
+  nextRequestId += requests.length;
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(
+      requests.map((request, index) => ({
+        jsonrpc: "2.0",
+        id: firstId + index,
+        method: request.method,
+        params: request.params,
+      }))
+    ),
+  });
+
+  if (!response.ok) {
+    throw new ApiError(
+      `HTTP ${response.status} ${response.statusText} from ${url}`,
+      response.status,
+      "batch",
+      { operation: "postJsonRpcBatch", url }
+    );
+  }
+
+  const json: any = await response.json();
+
+  if (!Array.isArray(json)) {
+    throw new ApiError(
+      json?.error?.message || "Endpoint does not support JSON-RPC batches",
+      json?.error?.code,
+      "batch",
+      { operation: "postJsonRpcBatch", url }
+    );
+  }
+
+  // Responses may arrive in any order
+  const byId = new Map<number, any>(json.map((item: any) => [Number(item.id), item]));
+
+  return requests.map((_request, index) => {
+    const item = byId.get(firstId + index);
+    return item
+      ? { result: item.result, error: item.error }
+      : { error: { code: -32603, message: "Missing response in batch" } };
+  });
+}
+
+/**
+ * Formats a numeric value as a 0x-prefixed hex quantity
+ *
+ * @param value - Value to format
+ * @returns Hex quantity string
+ */
+export function toHexQuantity(value: bigint | number | string): string {
+  return `0x${BigInt(value).toString(16)}`;
+}
@@ -0,0 +1,199 @@
+/**
+ * Largest native amount a vault can send
+ *
+ * Subtracting `gasPrice * 21000` from the balance is not enough on:
+ * - EIP-1559 chains: nodes require `value + gasLimit * maxFeePerGas`,
+ *   so the worst-case fee is held back, not the current price
+ * - OP Stack L2s (Optimism, Base): an L1 data fee is charged on top of
+ *   the execution fee; it is read from the GasPriceOracle predeploy
+ * - Arbitrum: the L1 cost is charged as extra gas, so the gas limit must
+ *   include the NodeInterface L1 estimate
+ *
+ * A safety margin is held back on top, for L1 prices moving between the
+ * estimate and inclusion.
+ */
+
+import { FeeMarketEIP1559Transaction, Transaction } from "@ethereumjs/tx";
+import Common from "@ethereumjs/common";
+import { FeeData, MaxSweepOptions, MaxSweepResult } from "../shared/types";
+import { Logger } from "../shared/logger";
+import { GAS, SWEEP } from "../shared/constants";
+import { InsufficientBalanceError } from "../shared/errors";
+import { addPercent, formatUnits } from "../shared/amounts";
+import { getChainRegistry } from "../shared/chain-registry";
+import { getFeeData, getMaxPricePerGas } from "./fee_data";
+import { sendJsonRpc, toHexQuantity } from "./json_rpc";
+
+/**
+ * OP Stack GasPriceOracle.getL1Fee(bytes)
+ */
+const GET_L1_FEE_ABI = {
+  name: "getL1Fee",
+  type: "function",
+  inputs: [{ name: "_data", type: "bytes" }],
+};
+
+/**
+ * Arbitrum NodeInterface.gasEstimateL1Component(address, bool, bytes)
+ */
+const GAS_ESTIMATE_L1_COMPONENT_ABI = {
+  name: "gasEstimateL1Component",
+  type: "function",
+  inputs: [
+    { name: "to", type: "address" },
+    { name: "contractCreation", type: "bool" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+/**
+ * Reads the OP Stack L1 data fee of a transaction
+ *
+ * The oracle prices the serialized transaction, built here unsigned. Pass
+ * the largest value and data the real transaction may carry so the
+ * estimate is never short.
+ *
+ * @param web3 - Web3 instance on an OP Stack chain
+ * @returns L1 data fee in wei
+ */
+export async function getOpStackL1Fee(
+  web3: any,
+  chainId: number,
+  from: string,
+  to: string,
+  value: bigint,
+  gasLimit: bigint,
+  feeData: FeeData,
+  data: string = "0x"
+): Promise<bigint> {
+  const nonce = Number(await web3.eth.getTransactionCount(from, "pending"));
+  const common = Common.forCustomChain(
+    "mainnet",
+    { name: "custom", chainId, networkId: chainId },
+    feeData.supportsEip1559 ? "london" : "byzantium"
+  );
+  const txData = {
+    nonce,
+    gasLimit: toHexQuantity(gasLimit),
+    to,
+    value: toHexQuantity(value),
+    data,
+  };
+
+  const unsigned =
+    feeData.supportsEip1559 && feeData.maxFeePerGas !== undefined
+      ? FeeMarketEIP1559Transaction.fromTxData(
+          {
+            ...txData,
+            maxFeePerGas: toHexQuantity(feeData.maxFeePerGas),
+            maxPriorityFeePerGas: toHexQuantity(feeData.maxPriorityFeePerGas ?? 0n),
+          },
+          { common }
+        )
+      : Transaction.fromTxData(
+          { ...txData, gasPrice: toHexQuantity(feeData.gasPrice) },
+          { common }
+        );
+
+  const oracleCall = web3.eth.abi.encodeFunctionCall(GET_L1_FEE_ABI, [
+    `0x${unsigned.serialize().toString("hex")}`,
+  ]);
+  const result = await sendJsonRpc<string>(web3.currentProvider, "eth_call", [
+    { to: SWEEP.OP_GAS_PRICE_ORACLE, data: oracleCall },
+    "latest",
+  ]);
+
+  return BigInt(web3.eth.abi.decodeParameter("uint256", result));
+}
+
+/**
+ * Reads the extra gas Arbitrum charges for a native transfer's L1 data
+ */
+async function getArbitrumL1Gas(web3: any, from: string, to: string): Promise<bigint> {
+  const data = web3.eth.abi.encodeFunctionCall(GAS_ESTIMATE_L1_COMPONENT_ABI, [
+    to,
+    false,
+    "0x",
+  ]);
+  const result = await sendJsonRpc<string>(web3.currentProvider, "eth_call", [
+    { from, to: SWEEP.ARBITRUM_NODE_INTERFACE, data },
+    "latest",
+  ]);
+
+  // Returns (uint64 gasEstimateForL1, uint256 baseFee, uint256 l1BaseFeeEstimate)
+  return BigInt(web3.eth.abi.decodeParameters(["uint64", "uint256", "uint256"], result)[0]);
+}
+
+/**
+ * Calculates the largest native amount the default account can send
+ *
+ * @param web3 - Web3 instance with the sending vault as default account
+ * @param options - Recipient, fee data and safety margin
+ * @returns Amount to send, the gas limit to send it with and the fees held back
+ * @throws {InsufficientBalanceError} If the balance does not cover the fees
+ *
+ * @example
+ * ```typescript
+ * const sweep = await calculateMaxNativeSweep(web3, { recipient });
+ * await web3.eth.signTransaction({
+ *   to: recipient,
+ *   value: toHexQuantity(sweep.amount),
+ *   gasLimit: toHexQuantity(sweep.gasLimit),
+ *   ...toTransactionFeeFields(sweep.feeData),
+ * });
+ * ```
+ */
+export async function calculateMaxNativeSweep(
+  web3: any,
+  options: MaxSweepOptions = {}
+): Promise<MaxSweepResult> {
+  const from: string = web3.eth.defaultAccount;
+  const recipient = options.recipient ?? from;
+  const safetyMarginPercent = options.safetyMarginPercent ?? SWEEP.SAFETY_MARGIN_PERCENT;
+
+  const [balance, chainId, feeData] = await Promise.all([
+    web3.eth.getBalance(from).then((value: any) => BigInt(value)),
+    web3.eth.getChainId().then((id: any) => Number(id)),
+    options.feeData ?? getFeeData(web3),
+  ]);
+
+  const chain = getChainRegistry().find(chainId);
+  const decimals = chain?.gasDecimals ?? 18;
+  const symbol = chain?.nativeSymbol ?? "native";
+
+  let gasLimit = BigInt(GAS.SIMPLE_TRANSFER_LIMIT);
+  let l1DataFee = 0n;
+
+  if (chain?.l1DataFee === "arbitrum") {
+    gasLimit += addPercent(await getArbitrumL1Gas(web3, from, recipient), safetyMarginPercent);
+  } else if (chain?.l1DataFee === "op-stack") {
+    l1DataFee = await getOpStackL1Fee(web3, chainId, from, recipient, balance, gasLimit, feeData);
+  }
+
+  const executionFee = gasLimit * getMaxPricePerGas(feeData);
+  const reservedFee = addPercent(executionFee + l1DataFee, safetyMarginPercent);
+
+  Logger.info(
+    `Max sweep on ${chain?.name ?? `chain ${chainId}`}: gas limit ${gasLimit}, ` +
+    `execution fee ${formatUnits(executionFee, decimals)} ${symbol}, ` +
+    `L1 data fee ${formatUnits(l1DataFee, decimals)} ${symbol}, ` +
+    `holding back ${formatUnits(reservedFee, decimals)} ${symbol} (${safetyMarginPercent}% margin)`
+  );
+
+  if (balance <= reservedFee) {
+    throw new InsufficientBalanceError(reservedFee.toString(), balance.toString(), {
+      operation: "calculateMaxNativeSweep",
+      chainId,
+    });
+  }
+
+  return {
+    balance,
+    amount: balance - reservedFee,
+    gasLimit,
+    executionFee,
+    l1DataFee,
+    reservedFee,
+    feeData,
+  };
+}
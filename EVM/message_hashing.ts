@@ -0,0 +1,269 @@
+/**
+ * EIP-191 and EIP-712 message hashing
+ *
+ * Fireblocks RAW signing signs a bare 32-byte digest, so the hashing that
+ * wallets normally do for personal_sign / eth_sign (EIP-191) and
+ * eth_signTypedData_v4 (EIP-712) has to happen here before the digest is
+ * sent for signing.
+ */
+
+import { TypedData, TypedDataField } from "../shared/types";
+import { ValidationError } from "../shared/errors";
+
+const { Web3 } = require("web3");
+
+let utilityWeb3: any;
+
+/**
+ * Provider-less Web3 instance used for hashing and ABI encoding
+ */
+function getWeb3(): any {
+  return (utilityWeb3 ??= new Web3());
+}
+
+/**
+ * Domain fields in the order EIP-712 defines them
+ */
+const DOMAIN_FIELDS: readonly TypedDataField[] = [
+  { name: "name", type: "string" },
+  { name: "version", type: "string" },
+  { name: "chainId", type: "uint256" },
+  { name: "verifyingContract", type: "address" },
+  { name: "salt", type: "bytes32" },
+];
+
+/**
+ * keccak256 over raw bytes given as 0x-prefixed hex
+ */
+function keccak(hex: string): string {
+  return getWeb3().utils.sha3Raw(hex);
+}
+
+/**
+ * Converts a message to 0x-prefixed hex bytes
+ *
+ * Hex input is taken as raw bytes, anything else as UTF-8 text, matching
+ * how wallets treat personal_sign payloads.
+ */
+function messageToHex(message: string): string {
+  return /^0x([0-9a-fA-F]{2})*$/.test(message) ? message : getWeb3().utils.utf8ToHex(message);
+}
+
+/**
+ * Hashes a message with the EIP-191 personal message prefix
+ *
+ * keccak256("\x19Ethereum Signed Message:\n" + len(message) + message)
+ *
+ * @param message - Hex bytes or UTF-8 text
+ * @returns 0x-prefixed digest
+ */
+export function hashPersonalMessage(message: string): string {
+  const body = messageToHex(message).slice(2);
+  const prefix = getWeb3().utils
+    .utf8ToHex(`\x19Ethereum Signed Message:\n${body.length / 2}`)
+    .slice(2);
+
+  return keccak(`0x${prefix}${body}`);
+}
+
+/**
+ * Strips an array suffix ("T[]" or "T[n]") from a type
+ */
+function arrayItemType(type: string): string | undefined {
+  const match = type.match(/^(.*)\[\d*\]$/);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Collects a struct type and every struct type it references
+ */
+function findTypeDependencies(
+  type: string,
+  types: TypedData["types"],
+  found: Set<string> = new Set()
+): Set<string> {
+  const baseType = type.replace(/(\[\d*\])+$/, "");
+
+  if (found.has(baseType) || !types[baseType]) {
+    return found;
+  }
+
+  found.add(baseType);
+  for (const field of types[baseType]) {
+    findTypeDependencies(field.type, types, found);
+  }
+
+  return found;
+}
+
+/**
+ * Encodes a struct type as `Name(type name,...)` followed by its
+ * referenced types in alphabetical order
+ */
+function encodeType(primaryType: string, types: TypedData["types"]): string {
+  const dependencies = [...findTypeDependencies(primaryType, types)]
+    .filter((type) => type !== primaryType)
+    .sort();
+
+  return [primaryType, ...dependencies]
+    .map(
+      (type) =>
+        `${type}(${types[type].map((field) => `${field.type} ${field.name}`).join(",")})`
+    )
+    .join("");
+}
+
+/**
+ * Encodes a single value as its 32-byte EIP-712 representation
+ */
+function encodeValue(type: string, value: any, types: TypedData["types"]): string {
+  if (types[type]) {
+    return hashStruct(type, value, types);
+  }
+
+  const itemType = arrayItemType(type);
+  if (itemType !== undefined) {
+    if (!Array.isArray(value)) {
+      throw new ValidationError("typedData", value, `Expected an array for ${type}`);
+    }
+    const items = value.map((item) => encodeValue(itemType, item, types).slice(2));
+    return keccak(`0x${items.join("")}`);
+  }
+
+  if (type === "string") {
+    return keccak(getWeb3().utils.utf8ToHex(String(value)));
+  }
+
+  if (type === "bytes") {
+    return keccak(messageToHex(String(value)));
+  }
+
+  return getWeb3().eth.abi.encodeParameter(type, value);
+}
+
+/**
+ * Computes hashStruct(s) = keccak256(typeHash || encodeData(s))
+ */
+function hashStruct(
+  primaryType: string,
+  data: Record<string, any>,
+  types: TypedData["types"]
+): string {
+  const typeHash = keccak(getWeb3().utils.utf8ToHex(encodeType(primaryType, types)));
+  const encodedFields = types[primaryType].map((field) => {
+    if (data[field.name] === undefined) {
+      throw new ValidationError(
+        "typedData",
+        field.name,
+        `Missing field ${primaryType}.${field.name}`
+      );
+    }
+    return encodeValue(field.type, data[field.name], types).slice(2);
+  });
+
+  return keccak(`${typeHash}${encodedFields.join("")}`);
+}
+
+/**
+ * Parses eth_signTypedData_v4 input (JSON string or object)
+ *
+ * @param input - Typed data
+ * @returns Parsed typed data
+ * @throws {ValidationError} If the structure is invalid
+ */
+export function parseTypedData(input: string | TypedData): TypedData {
+  const typedData: TypedData = typeof input === "string" ? JSON.parse(input) : input;
+
+  if (!typedData?.types || !typedData.primaryType || !typedData.domain || !typedData.message) {
+    throw new ValidationError(
+      "typedData",
+      input,
+      "Typed data requires types, primaryType, domain and message"
+    );
+  }
+
+  if (!typedData.types[typedData.primaryType]) {
+    throw new ValidationError(
+      "primaryType",
+      typedData.primaryType,
+      "Primary type is not defined in types"
+    );
+  }
+
+  return typedData;
+}
+
+/**
+ * Computes the EIP-712 domain separator of a domain
+ *
+ * Only the standard domain fields present in `domain` are encoded, in
+ * the order EIP-712 defines them.
+ *
+ * @param domain - EIP-712 domain
+ * @returns 0x-prefixed domain separator
+ */
+export function hashDomain(domain: Record<string, any>): string {
+  const types = {
+    EIP712Domain: DOMAIN_FIELDS.filter((field) => domain[field.name] !== undefined),
+  };
+
+  return hashStruct("EIP712Domain", domain, types);
+}
+
+/**
+ * Hashes EIP-712 typed data as eth_signTypedData_v4 does
+ *
+ * keccak256("\x19\x01" || hashStruct(domain) || hashStruct(message)).
+ * When `types.EIP712Domain` is omitted it is derived from the domain fields
+ * present.
+ *
+ * @param input - Typed data (JSON string or object)
+ * @returns 0x-prefixed digest
+ * @throws {ValidationError} If the typed data is malformed
+ */
+export function hashTypedDataV4(input: string | TypedData): string {
+  const typedData = parseTypedData(input);
+  const types = {
+    EIP712Domain: DOMAIN_FIELDS.filter((field) => typedData.domain[field.name] !== undefined),
+    ...typedData.types,
+  };
+
+  const domainSeparator = hashStruct("EIP712Domain", typedData.domain, types);
+  const messageHash =
+    typedData.primaryType === "EIP712Domain"
+      ? ""
+      : hashStruct(typedData.primaryType, typedData.message, types).slice(2);
+
+  return keccak(`0x1901${domainSeparator.slice(2)}${messageHash}`);
+}
+
+/**
+ * Serializes a Fireblocks signature as a 65-byte r || s || v signature
+ *
+ * Fireblocks returns the recovery id (0/1); message signatures use the
+ * Ethereum convention v = 27/28.
+ *
+ * @param signature - Fireblocks signature ({ r, s, v })
+ * @returns 0x-prefixed signature
+ */
+export function toRpcSignature(signature: { r: string; s: string; v: number }): string {
+  const v = signature.v < 27 ? signature.v + 27 : signature.v;
+
+  return (
+    "0x" +
+    signature.r.replace(/^0x/, "").padStart(64, "0") +
+    signature.s.replace(/^0x/, "").padStart(64, "0") +
+    v.toString(16).padStart(2, "0")
+  );
+}
+
+/**
+ * Recovers the signer of a digest
+ *
+ * @param digest - 0x-prefixed 32-byte digest that was signed
+ * @param signature - 65-byte signature
+ * @returns Signer address
+ */
+export function recoverDigestSigner(digest: string, signature: string): string {
+  return getWeb3().eth.accounts.recover(digest, signature, true);
+}
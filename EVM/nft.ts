@@ -0,0 +1,230 @@
+/**
+ * ERC-721 and ERC-1155 helpers
+ *
+ * Detects the NFT standard of a contract via ERC-165 and lists the tokens
+ * a vault owns: ERC721Enumerable where available, and ERC-1155
+ * balanceOfBatch over a caller-provided ID list (ERC-1155 has no
+ * on-chain enumeration).
+ */
+
+import { NftHolding, NftStandard } from "../shared/types";
+import { Logger } from "../shared/logger";
+import { ValidationError } from "../shared/errors";
+
+/**
+ * ERC-165 interface IDs
+ */
+const INTERFACE_IDS = {
+  ERC721: "0x80ac58cd",
+  ERC721_ENUMERABLE: "0x780e9d63",
+  ERC1155: "0xd9b67a26",
+} as const;
+
+/**
+ * ERC-721 (+ Enumerable, ERC-165) ABI fragment
+ */
+export const ERC721_ABI = [
+  {
+    inputs: [{ name: "interfaceId", type: "bytes4" }],
+    name: "supportsInterface",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "owner", type: "address" }],
+    name: "balanceOf",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "tokenId", type: "uint256" }],
+    name: "ownerOf",
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "index", type: "uint256" },
+    ],
+    name: "tokenOfOwnerByIndex",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "from", type: "address" },
+      { name: "to", type: "address" },
+      { name: "tokenId", type: "uint256" },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+];
+
+/**
+ * ERC-1155 ABI fragment
+ */
+export const ERC1155_ABI = [
+  {
+    inputs: [
+      { name: "accounts", type: "address[]" },
+      { name: "ids", type: "uint256[]" },
+    ],
+    name: "balanceOfBatch",
+    outputs: [{ name: "", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "from", type: "address" },
+      { name: "to", type: "address" },
+      { name: "ids", type: "uint256[]" },
+      { name: "amounts", type: "uint256[]" },
+      { name: "data", type: "bytes" },
+    ],
+    name: "safeBatchTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+];
+
+/**
+ * Checks an ERC-165 interface, treating reverts as "not supported"
+ */
+async function supportsInterface(contract: any, interfaceId: string): Promise<boolean> {
+  try {
+    return Boolean(await contract.methods.supportsInterface(interfaceId).call());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detects whether a contract is ERC-721 or ERC-1155
+ *
+ * @param web3 - Web3 instance
+ * @param contractAddress - NFT contract address
+ * @returns NFT standard
+ * @throws {ValidationError} If the contract implements neither via ERC-165
+ */
+export async function detectNftStandard(
+  web3: any,
+  contractAddress: string
+): Promise<NftStandard> {
+  const contract = new web3.eth.Contract(ERC721_ABI, contractAddress);
+
+  if (await supportsInterface(contract, INTERFACE_IDS.ERC721)) {
+    return "erc721";
+  }
+
+  if (await supportsInterface(contract, INTERFACE_IDS.ERC1155)) {
+    return "erc1155";
+  }
+
+  throw new ValidationError(
+    "nftContractAddress",
+    contractAddress,
+    "Contract does not report ERC-721 or ERC-1155 support (ERC-165); pass nftStandard"
+  );
+}
+
+/**
+ * Lists ERC-721 token IDs owned by an address via ERC721Enumerable
+ *
+ * @param web3 - Web3 instance
+ * @param contractAddress - NFT contract address
+ * @param owner - Owner address
+ * @returns Owned token IDs
+ * @throws {ValidationError} If the contract is not enumerable
+ */
+export async function enumerateErc721Tokens(
+  web3: any,
+  contractAddress: string,
+  owner: string
+): Promise<string[]> {
+  const contract = new web3.eth.Contract(ERC721_ABI, contractAddress);
+
+  if (!(await supportsInterface(contract, INTERFACE_IDS.ERC721_ENUMERABLE))) {
+    throw new ValidationError(
+      "nftTokenIds",
+      undefined,
+      `Contract ${contractAddress} is not ERC721Enumerable; pass the token IDs explicitly`
+    );
+  }
+
+  const balance = Number(await contract.methods.balanceOf(owner).call());
+  const tokenIds: string[] = [];
+
+  for (let index = 0; index < balance; index++) {
+    tokenIds.push(String(await contract.methods.tokenOfOwnerByIndex(owner, index).call()));
+  }
+
+  Logger.info(`Found ${tokenIds.length} ERC-721 token(s) owned by ${owner}`);
+
+  return tokenIds;
+}
+
+/**
+ * Keeps the ERC-721 token IDs actually owned by an address
+ *
+ * @param web3 - Web3 instance
+ * @param contractAddress - NFT contract address
+ * @param owner - Owner address
+ * @param tokenIds - Candidate token IDs
+ * @returns Holdings (amount 1 each)
+ */
+export async function getErc721Holdings(
+  web3: any,
+  contractAddress: string,
+  owner: string,
+  tokenIds: readonly string[]
+): Promise<NftHolding[]> {
+  const contract = new web3.eth.Contract(ERC721_ABI, contractAddress);
+  const holdings: NftHolding[] = [];
+
+  for (const tokenId of tokenIds) {
+    const tokenOwner: string = await contract.methods.ownerOf(tokenId).call();
+
+    if (tokenOwner.toLowerCase() === owner.toLowerCase()) {
+      holdings.push({ tokenId, amount: "1" });
+    } else {
+      Logger.warn(`Token ${tokenId} is owned by ${tokenOwner}, skipping`);
+    }
+  }
+
+  return holdings;
+}
+
+/**
+ * Reads ERC-1155 balances for a list of token IDs
+ *
+ * @param web3 - Web3 instance
+ * @param contractAddress - NFT contract address
+ * @param owner - Owner address
+ * @param tokenIds - Token IDs to check
+ * @returns Holdings with a non-zero balance
+ */
+export async function getErc1155Holdings(
+  web3: any,
+  contractAddress: string,
+  owner: string,
+  tokenIds: readonly string[]
+): Promise<NftHolding[]> {
+  const contract = new web3.eth.Contract(ERC1155_ABI, contractAddress);
+  const balances: any[] = await contract.methods
+    .balanceOfBatch(tokenIds.map(() => owner), [...tokenIds])
+    .call();
+
+  return tokenIds
+    .map((tokenId, index) => ({ tokenId, amount: String(balances[index]) }))
+    .filter((holding) => BigInt(holding.amount) > 0n);
+}
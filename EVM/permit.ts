@@ -0,0 +1,218 @@
+/**
+ * ERC-2612 permit support
+ *
+ * Detects permit-capable tokens and signs permits through the Fireblocks
+ * provider's eth_signTypedData_v4, so a vault without native gas can
+ * authorize a gas-funded vault to move its tokens.
+ */
+
+import { PermitSignature, TypedData } from "../shared/types";
+import { Logger } from "../shared/logger";
+import { PERMIT } from "../shared/constants";
+import { hashDomain } from "./message_hashing";
+import { sendJsonRpc } from "./json_rpc";
+
+/**
+ * ERC20 + ERC-2612 ABI fragment used for permit sweeps
+ */
+export const ERC20_PERMIT_ABI = [
+  {
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+      { name: "v", type: "uint8" },
+      { name: "r", type: "bytes32" },
+      { name: "s", type: "bytes32" },
+    ],
+    name: "permit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "owner", type: "address" }],
+    name: "nonces",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DOMAIN_SEPARATOR",
+    outputs: [{ name: "", type: "bytes32" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "version",
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [{ name: "", type: "uint8" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "account", type: "address" }],
+    name: "balanceOf",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+    ],
+    name: "allowance",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "sender", type: "address" },
+      { name: "recipient", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    name: "transferFrom",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+];
+
+/**
+ * ERC-2612 Permit struct type
+ */
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * Resolves the EIP-712 domain of a permit-capable token
+ *
+ * A token counts as permit-capable when it exposes `nonces(owner)` and
+ * `DOMAIN_SEPARATOR()`, and the domain rebuilt from `name()`, `version()`
+ * (default "1"), the chain ID and the token address hashes to the
+ * on-chain separator. Tokens with non-standard domains are reported as
+ * unsupported rather than signed for blindly.
+ *
+ * @param web3 - Web3 instance
+ * @param contractAddress - Token contract address
+ * @param owner - Token holder
+ * @returns EIP-712 domain, or undefined if permit is not supported
+ */
+export async function getPermitDomain(
+  web3: any,
+  contractAddress: string,
+  owner: string
+): Promise<Record<string, any> | undefined> {
+  const token = new web3.eth.Contract(ERC20_PERMIT_ABI, contractAddress);
+
+  let domainSeparator: string;
+  let name: string;
+  try {
+    await token.methods.nonces(owner).call();
+    domainSeparator = await token.methods.DOMAIN_SEPARATOR().call();
+    name = await token.methods.name().call();
+  } catch {
+    return undefined;
+  }
+
+  let version: string = PERMIT.DEFAULT_DOMAIN_VERSION;
+  try {
+    version = await token.methods.version().call();
+  } catch {
+    // Most OpenZeppelin-based tokens hard-code "1" without a getter
+  }
+
+  const domain = {
+    name,
+    version,
+    chainId: Number(await web3.eth.getChainId()),
+    verifyingContract: contractAddress,
+  };
+
+  if (hashDomain(domain).toLowerCase() !== String(domainSeparator).toLowerCase()) {
+    Logger.warn(
+      `Token ${contractAddress} has a non-standard EIP-712 domain; permit not used`
+    );
+    return undefined;
+  }
+
+  return domain;
+}
+
+/**
+ * Signs an ERC-2612 permit with the vault behind `web3`
+ *
+ * @param web3 - Web3 instance of the token holder (Fireblocks provider)
+ * @param contractAddress - Token contract address
+ * @param domain - Token EIP-712 domain from {@link getPermitDomain}
+ * @param spender - Address allowed to spend
+ * @param value - Allowance in smallest token units
+ * @returns Permit signature split into v, r, s
+ */
+export async function signPermit(
+  web3: any,
+  contractAddress: string,
+  domain: Record<string, any>,
+  spender: string,
+  value: bigint
+): Promise<PermitSignature> {
+  const owner: string = web3.eth.defaultAccount;
+  const token = new web3.eth.Contract(ERC20_PERMIT_ABI, contractAddress);
+
+  const nonce = String(await token.methods.nonces(owner).call());
+  const deadline = Math.floor(Date.now() / 1000) + PERMIT.DEADLINE_SECONDS;
+
+  const typedData: TypedData = {
+    types: PERMIT_TYPES,
+    primaryType: "Permit",
+    domain,
+    message: { owner, spender, value: value.toString(), nonce, deadline },
+  };
+
+  Logger.info(
+    `Signing permit: ${owner} allows ${spender} to spend ${value} ` +
+    `(nonce ${nonce}, deadline ${new Date(deadline * 1000).toISOString()})`
+  );
+
+  const signature = await sendJsonRpc<string>(
+    web3.currentProvider,
+    "eth_signTypedData_v4",
+    [owner, JSON.stringify(typedData)]
+  );
+
+  return {
+    owner,
+    spender,
+    value: value.toString(),
+    nonce,
+    deadline,
+    r: signature.slice(0, 66),
+    s: `0x${signature.slice(66, 130)}`,
+    v: parseInt(signature.slice(130, 132), 16),
+  };
+}
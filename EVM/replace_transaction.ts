@@ -0,0 +1,350 @@
+/**
+ * Speed-up and cancel for stuck raw-signed EVM transactions
+ *
+ * Re-signs the nonce of a pending transaction through the Fireblocks RAW
+ * flow, either with the same payload and higher fees (speed-up) or as a
+ * 0-value self-transfer (cancel). Fees are bumped by at least the
+ * replacement minimum nodes enforce, otherwise the replacement would be
+ * rejected as "replacement transaction underpriced".
+ *
+ * The stuck transaction is identified by its hash, or by the Fireblocks
+ * RAW transaction that signed it. Fireblocks never sees the broadcast, so
+ * an ID is resolved through the sign-only export of that transaction.
+ *
+ * Usage:
+ *   ts-node replace_transaction.ts <speedup|cancel> <txHash> <rpcUrl> <vaultId> <assetId> [bumpPercent]
+ *   ts-node replace_transaction.ts <speedup|cancel> <fireblocksTxId> <rpcUrl> [bumpPercent] [--exports <dir>]
+ */
+
+import { FeeData, ReplaceTransactionParams, ReplacementResult } from "../shared/types";
+import { Logger } from "../shared/logger";
+import { GAS, REGEX } from "../shared/constants";
+import { TransactionError, ValidationError } from "../shared/errors";
+import { validateRequired, validateTransactionId } from "../shared/validators";
+import { addPercent } from "../shared/amounts";
+import { takeOption } from "../shared/cli-options";
+import { initWeb3Instance } from "./web3_instance.refactored";
+import { getFeeData, getMaxPricePerGas } from "./fee_data";
+import { toHexQuantity } from "./json_rpc";
+import { findSignedTransactionExport, getExportSigningHash } from "./signed_transaction_export";
+
+/**
+ * Fee caps of the transaction being replaced
+ */
+interface OriginalFees {
+  readonly gasPrice?: bigint;
+  readonly maxFeePerGas?: bigint;
+  readonly maxPriorityFeePerGas?: bigint;
+}
+
+/**
+ * Replacement fee caps
+ */
+interface ReplacementFees {
+  readonly maxFeePerGas: bigint;
+  readonly maxPriorityFeePerGas: bigint;
+}
+
+/**
+ * Returns the larger of two bigints
+ */
+function maxBigInt(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+/**
+ * Calculates fees for a same-nonce replacement
+ *
+ * Nodes treat a legacy gasPrice as both fee cap and tip cap, and require
+ * both caps to rise by at least {@link GAS.REPLACEMENT_MIN_BUMP_PERCENT}.
+ * The result is never below current network fees either, so the
+ * replacement is not immediately stuck as well.
+ *
+ * @param original - Fees of the stuck transaction
+ * @param current - Current network fee data
+ * @param bumpPercent - Requested bump in percent
+ * @returns Replacement fee caps
+ * @throws {ValidationError} If bumpPercent is below the replacement minimum
+ */
+export function calculateReplacementFees(
+  original: OriginalFees,
+  current: FeeData,
+  bumpPercent: number = GAS.REPLACEMENT_DEFAULT_BUMP_PERCENT
+): ReplacementFees {
+  if (bumpPercent < GAS.REPLACEMENT_MIN_BUMP_PERCENT) {
+    throw new ValidationError(
+      "bumpPercent",
+      bumpPercent,
+      `Replacement requires at least a ${GAS.REPLACEMENT_MIN_BUMP_PERCENT}% fee bump`
+    );
+  }
+
+  const originalFeeCap = original.maxFeePerGas ?? original.gasPrice;
+  const originalTipCap = original.maxPriorityFeePerGas ?? original.gasPrice;
+
+  if (originalFeeCap === undefined || originalTipCap === undefined) {
+    throw new ValidationError(
+      "originalFees",
+      original,
+      "Original transaction has no gasPrice or maxFeePerGas"
+    );
+  }
+
+  const currentTip = current.maxPriorityFeePerGas ?? current.gasPrice;
+  const maxPriorityFeePerGas = maxBigInt(
+    addPercent(originalTipCap, bumpPercent),
+    currentTip
+  );
+  const maxFeePerGas = maxBigInt(
+    maxBigInt(addPercent(originalFeeCap, bumpPercent), getMaxPricePerGas(current)),
+    maxPriorityFeePerGas
+  );
+
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+/**
+ * Resolves the stuck transaction hash, vault and asset from the parameters
+ *
+ * A Fireblocks transaction ID is looked up in the sign-only exports; the
+ * export must carry the hash that Fireblocks transaction signed.
+ *
+ * @param params - Replacement parameters
+ * @returns Transaction hash, vault ID and asset ID
+ * @throws {ValidationError} If the transaction cannot be identified
+ */
+async function resolveOriginalTransaction(
+  params: ReplaceTransactionParams
+): Promise<{ txHash: string; vaultAccountId: string | number; assetId: string }> {
+  if (params.txHash) {
+    if (!REGEX.TX_HASH.test(params.txHash)) {
+      throw new ValidationError("txHash", params.txHash, "Must be a 0x-prefixed 32-byte transaction hash");
+    }
+    validateRequired(params.vaultAccountId, "vaultAccountId");
+    validateRequired(params.assetId, "assetId");
+
+    return {
+      txHash: params.txHash,
+      vaultAccountId: params.vaultAccountId!,
+      assetId: params.assetId!,
+    };
+  }
+
+  validateRequired(params.fireblocksTxId, "fireblocksTxId");
+  const fireblocksTxId = params.fireblocksTxId!;
+  const exportDirectory = params.exportDirectory || ".";
+
+  const exported = findSignedTransactionExport(exportDirectory, fireblocksTxId);
+  if (!exported) {
+    throw new ValidationError(
+      "fireblocksTxId",
+      fireblocksTxId,
+      `No sign-only export of this transaction in ${exportDirectory}; ` +
+      "Fireblocks does not record the hash of RAW-signed transactions, pass the transaction hash instead"
+    );
+  }
+
+  const txInfo = await params.fireblocksApiClient.getTransactionById(fireblocksTxId);
+  const signingHash = getExportSigningHash(exported);
+  const signed = (txInfo.signedMessages ?? []).some(
+    (message) => message.content.toLowerCase().replace(/^0x/, "") === signingHash
+  );
+
+  if (!signed) {
+    throw new ValidationError(
+      "fireblocksTxId",
+      fireblocksTxId,
+      `Fireblocks transaction did not sign ${exported.transactionHash}`
+    );
+  }
+
+  Logger.info(`Fireblocks transaction ${fireblocksTxId} signed ${exported.transactionHash}`);
+
+  return {
+    txHash: exported.transactionHash,
+    vaultAccountId: params.vaultAccountId ?? txInfo.source?.id ?? exported.vaultAccountId,
+    assetId: params.assetId ?? txInfo.assetId ?? exported.assetId,
+  };
+}
+
+/**
+ * Replaces a stuck transaction by re-signing its nonce via Fireblocks
+ *
+ * @param params - Replacement parameters
+ * @returns Replacement result
+ * @throws {TransactionError} If the transaction is unknown or already mined
+ * @throws {ValidationError} If the transaction cannot be identified or the
+ *   vault does not own it
+ *
+ * @example
+ * ```typescript
+ * await replaceTransaction({
+ *   fireblocksApiClient,
+ *   httpProviderUrl: "https://...",
+ *   mode: "speedup",
+ *   txHash: "0x...",
+ *   vaultAccountId: "5",
+ *   assetId: "ETH",
+ * });
+ * ```
+ */
+export async function replaceTransaction(
+  params: ReplaceTransactionParams
+): Promise<ReplacementResult> {
+  const { txHash, vaultAccountId, assetId } = await resolveOriginalTransaction(params);
+
+  const web3 = await initWeb3Instance({
+    fireblocksApiClient: params.fireblocksApiClient,
+    httpProviderUrl: params.httpProviderUrl,
+    vaultAccountId,
+    assetId,
+    amount: 0,
+    destAddress: params.mode === "cancel" ? "self" : "original recipient",
+    note: `${params.mode === "cancel" ? "Cancel" : "Speed up"} ${txHash} from vault ${vaultAccountId}`,
+  });
+
+  const original = await web3.eth.getTransaction(txHash);
+
+  if (!original) {
+    throw new TransactionError(
+      "Original transaction not found on this RPC",
+      undefined,
+      undefined,
+      { operation: "replaceTransaction", txHash }
+    );
+  }
+
+  if (original.blockNumber !== null && original.blockNumber !== undefined) {
+    throw new TransactionError(
+      `Transaction already mined in block ${original.blockNumber}; nothing to replace`,
+      undefined,
+      "MINED",
+      { operation: "replaceTransaction", txHash }
+    );
+  }
+
+  const sender = web3.eth.defaultAccount;
+  if (original.from.toLowerCase() !== sender.toLowerCase()) {
+    throw new ValidationError(
+      "txHash",
+      txHash,
+      `Transaction was sent by ${original.from}, not by vault ${vaultAccountId} (${sender})`
+    );
+  }
+
+  const nonce = Number(original.nonce);
+  const minedNonce = Number(await web3.eth.getTransactionCount(sender, "latest"));
+  if (minedNonce > nonce) {
+    throw new TransactionError(
+      `Nonce ${nonce} already used on-chain; the transaction was mined or replaced`,
+      undefined,
+      "MINED",
+      { operation: "replaceTransaction", txHash }
+    );
+  }
+
+  const fees = calculateReplacementFees(
+    {
+      gasPrice: original.gasPrice != null ? BigInt(original.gasPrice) : undefined,
+      maxFeePerGas: original.maxFeePerGas != null ? BigInt(original.maxFeePerGas) : undefined,
+      maxPriorityFeePerGas:
+        original.maxPriorityFeePerGas != null ? BigInt(original.maxPriorityFeePerGas) : undefined,
+    },
+    await getFeeData(web3),
+    params.bumpPercent
+  );
+
+  Logger.info(
+    `Replacing nonce ${nonce} (${params.mode}): ` +
+    `maxFee=${fees.maxFeePerGas} wei, tip=${fees.maxPriorityFeePerGas} wei`
+  );
+
+  const payload =
+    params.mode === "cancel"
+      ? { to: sender, value: "0x0", gasLimit: GAS.SIMPLE_TRANSFER_LIMIT }
+      : {
+          to: original.to,
+          value: toHexQuantity(original.value),
+          data: original.input,
+          gasLimit: Number(original.gas),
+          // Same payload: keep the warm-slot pricing the original was estimated with
+          accessList: original.accessList?.length ? original.accessList : undefined,
+        };
+
+  const signedTransaction = await web3.eth.signTransaction({
+    ...payload,
+    from: sender,
+    nonce,
+    maxFeePerGas: toHexQuantity(fees.maxFeePerGas),
+    maxPriorityFeePerGas: toHexQuantity(fees.maxPriorityFeePerGas),
+  });
+
+  Logger.info("Replacement signed, broadcasting...");
+
+  const receipt = await web3.eth.sendSignedTransaction(
+    signedTransaction.raw || signedTransaction
+  );
+
+  Logger.success(
+    `Replacement mined. Transaction hash: ${receipt.transactionHash}`
+  );
+
+  return {
+    mode: params.mode,
+    nonce,
+    originalTxHash: txHash,
+    replacementTxHash: receipt.transactionHash,
+    maxFeePerGas: fees.maxFeePerGas.toString(),
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+  };
+}
+
+/**
+ * CLI entry point
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const exportDirectory = takeOption(args, "--exports", true);
+  const [mode, id, rpcUrl, ...rest] = args;
+
+  const isTxHash = REGEX.TX_HASH.test(id ?? "");
+  const [vaultAccountId, assetId, bumpPercent] = isTxHash ? rest : [undefined, undefined, rest[0]];
+
+  if ((mode !== "speedup" && mode !== "cancel") || !id || !rpcUrl || (isTxHash && (!vaultAccountId || !assetId))) {
+    Logger.error(
+      "Usage: ts-node replace_transaction.ts <speedup|cancel> " +
+      "<txHash> <rpcUrl> <vaultId> <assetId> [bumpPercent]\n" +
+      "       ts-node replace_transaction.ts <speedup|cancel> " +
+      "<fireblocksTxId> <rpcUrl> [bumpPercent] [--exports <dir>]"
+    );
+    process.exit(1);
+  }
+
+  if (!isTxHash) {
+    validateTransactionId(id, "txHash|fireblocksTxId");
+  }
+
+  // Loaded lazily: the config module reads the API secret on import
+  const { createFireblocksClient } = require("../shared/config");
+
+  const result = await replaceTransaction({
+    fireblocksApiClient: createFireblocksClient(),
+    httpProviderUrl: rpcUrl,
+    mode,
+    txHash: isTxHash ? id : undefined,
+    fireblocksTxId: isTxHash ? undefined : id,
+    exportDirectory: typeof exportDirectory === "string" ? exportDirectory : undefined,
+    vaultAccountId,
+    assetId,
+    bumpPercent: bumpPercent !== undefined ? Number(bumpPercent) : undefined,
+  });
+
+  Logger.success("Replacement result", result);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    Logger.error("Replacement failed", error);
+    process.exit(1);
+  });
+}
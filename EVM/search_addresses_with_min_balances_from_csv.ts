@@ -1,6 +1,7 @@
 import Web3 from 'web3';
 import fs from 'fs';
 import csv from 'csv-parser';
+import { getChainRegistry, getRpcUrl } from '../shared/chain-registry';
 
 class EthereumAddressBalanceChecker {
   private web3: Web3;
@@ -50,7 +51,7 @@ export default EthereumAddressBalanceChecker;
 module.exports = EthereumAddressBalanceChecker;
 
 
-const web3Provider = 'https://rpc.flashbots.net';
+const web3Provider = getRpcUrl(getChainRegistry().get('ETH'));
 const csvFilePath = '/Users/davidveksler/Projects/coin-retrievals/ETH/eth_addresses.csv';
 const minBalance = 0.0009; // Optional: set a different minimum balance threshold
 
@@ -0,0 +1,244 @@
+/**
+ * Signed transaction export files
+ *
+ * In sign-only mode the Fireblocks provider writes each signed transaction
+ * to a JSON file instead of broadcasting it, so the payload can be handed
+ * to another team or submitted later through any RPC or private relay.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { TransactionFactory } from "@ethereumjs/tx";
+import Common from "@ethereumjs/common";
+import { Logger } from "../shared/logger";
+import { ValidationError } from "../shared/errors";
+import { validateFileExists } from "../shared/validators";
+import { TransactionBroadcaster } from "../shared/types";
+import { sendJsonRpc } from "./json_rpc";
+import { RpcBroadcaster } from "./broadcasters";
+
+/**
+ * Current export file format version
+ */
+const EXPORT_VERSION = 1;
+
+/**
+ * Contents of a signed transaction export file
+ */
+export interface SignedTransactionExport {
+  readonly version: number;
+  readonly createdAt: string;
+  readonly chainId: number;
+  readonly assetId: string;
+  readonly vaultAccountId: string;
+  readonly fireblocksTxId: string;
+  readonly signer: string;
+  readonly transactionHash: string;
+  readonly rawTransaction: string;
+  /** Decoded transaction fields (hex quantities) */
+  readonly transaction: Record<string, any>;
+  readonly note?: string;
+}
+
+/**
+ * Builds the default export file name for a signed transaction
+ *
+ * Nonces are per sender, so the signer is part of the name: vaults
+ * exporting under the same reference name get distinct files.
+ *
+ * @param filename - Transaction reference name
+ * @param chainId - Chain ID
+ * @param signer - Address that signed the transaction
+ * @param nonce - Transaction nonce
+ * @returns File name
+ */
+export function buildExportFilename(
+  filename: string,
+  chainId: number,
+  signer: string,
+  nonce: number
+): string {
+  return `signed_${filename}_${chainId}_${signer.toLowerCase()}_${nonce}.json`;
+}
+
+/**
+ * Writes a signed transaction export file
+ *
+ * An existing file is never overwritten: it may hold the only copy of
+ * another signed transaction for the same sender and nonce.
+ *
+ * @param data - Export contents
+ * @param directory - Target directory
+ * @param fileName - File name within the directory
+ * @returns Path of the written file
+ * @throws {ValidationError} If the file already exists
+ */
+export function writeSignedTransactionExport(
+  data: SignedTransactionExport,
+  directory: string,
+  fileName: string
+): string {
+  fs.mkdirSync(directory, { recursive: true });
+
+  const filePath = path.resolve(directory, fileName);
+
+  try {
+    fs.writeFileSync(filePath, JSON.stringify(data, null, 2), { flag: "wx" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new ValidationError(
+        "exportDirectory",
+        directory,
+        `${fileName} already exists; move it away or export to another directory`
+      );
+    }
+    throw error;
+  }
+
+  Logger.success(`Signed transaction exported to ${filePath}`);
+
+  return filePath;
+}
+
+/**
+ * Decodes the raw transaction of an export
+ */
+function decodeExportedTransaction(data: SignedTransactionExport) {
+  const common = Common.forCustomChain(
+    "mainnet",
+    { name: "custom", chainId: data.chainId, networkId: data.chainId },
+    "london"
+  );
+
+  return TransactionFactory.fromSerializedData(
+    Buffer.from(data.rawTransaction.replace(/^0x/, ""), "hex"),
+    { common }
+  );
+}
+
+/**
+ * Reads and validates a signed transaction export file
+ *
+ * The raw transaction is decoded again and its hash and signer are
+ * checked against the recorded values, so an edited file is rejected.
+ *
+ * @param filePath - Export file path
+ * @returns Export contents
+ * @throws {ValidationError} If the file is malformed or inconsistent
+ */
+export function readSignedTransactionExport(
+  filePath: string
+): SignedTransactionExport {
+  validateFileExists(filePath);
+
+  const data = JSON.parse(fs.readFileSync(filePath, "utf8")) as SignedTransactionExport;
+
+  if (data.version !== EXPORT_VERSION || !data.rawTransaction || !data.chainId) {
+    throw new ValidationError(
+      "filePath",
+      filePath,
+      "Not a signed transaction export file"
+    );
+  }
+
+  const signedTx = decodeExportedTransaction(data);
+  const transactionHash = `0x${signedTx.hash().toString("hex")}`;
+  const signer = signedTx.getSenderAddress().toString();
+
+  if (transactionHash !== data.transactionHash.toLowerCase()) {
+    throw new ValidationError(
+      "transactionHash",
+      data.transactionHash,
+      `Raw transaction hashes to ${transactionHash}`
+    );
+  }
+
+  if (signer !== data.signer.toLowerCase()) {
+    throw new ValidationError(
+      "signer",
+      data.signer,
+      `Raw transaction is signed by ${signer}`
+    );
+  }
+
+  return data;
+}
+
+/**
+ * Finds the export file of the transaction a Fireblocks RAW transaction signed
+ *
+ * @param directory - Directory holding export files
+ * @param fireblocksTxId - Fireblocks transaction ID
+ * @returns Validated export contents, or undefined if no file matches
+ * @throws {ValidationError} If the matching file is inconsistent
+ */
+export function findSignedTransactionExport(
+  directory: string,
+  fireblocksTxId: string
+): SignedTransactionExport | undefined {
+  if (!fs.existsSync(directory)) {
+    return undefined;
+  }
+
+  for (const name of fs.readdirSync(directory)) {
+    if (!name.startsWith("signed_") || !name.endsWith(".json")) {
+      continue;
+    }
+
+    const filePath = path.join(directory, name);
+    const { fireblocksTxId: exportedTxId } = JSON.parse(fs.readFileSync(filePath, "utf8"));
+
+    if (exportedTxId === fireblocksTxId) {
+      return readSignedTransactionExport(filePath);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Gets the hash Fireblocks signed for an exported transaction
+ *
+ * @param data - Export contents
+ * @returns Signing hash, hex without 0x (as in Fireblocks signedMessages)
+ */
+export function getExportSigningHash(data: SignedTransactionExport): string {
+  return decodeExportedTransaction(data).getMessageToSign().toString("hex");
+}
+
+/**
+ * Broadcasts a signed transaction export through an RPC endpoint
+ *
+ * @param filePath - Export file path
+ * @param provider - Provider exposing `send(payload, callback)`, used for reads
+ * @param broadcaster - Broadcast backend (defaults to eth_sendRawTransaction on provider)
+ * @returns Transaction hash reported by the backend
+ * @throws {ValidationError} If the RPC is on a different chain
+ */
+export async function broadcastSignedTransactionExport(
+  filePath: string,
+  provider: any,
+  broadcaster: TransactionBroadcaster = new RpcBroadcaster(provider)
+): Promise<string> {
+  const data = readSignedTransactionExport(filePath);
+
+  const rpcChainId = Number(await sendJsonRpc<string>(provider, "eth_chainId"));
+  if (rpcChainId !== data.chainId) {
+    throw new ValidationError(
+      "rpcUrl",
+      rpcChainId,
+      `RPC is on chain ${rpcChainId} but the transaction was signed for chain ${data.chainId}`
+    );
+  }
+
+  Logger.info(
+    `Broadcasting ${data.transactionHash} (Fireblocks tx ${data.fireblocksTxId}) ` +
+    `from ${data.signer} on chain ${data.chainId} via ${broadcaster.name}`
+  );
+
+  const txHash = await broadcaster.broadcast(data.rawTransaction);
+
+  Logger.success(`Broadcast ${filePath}: ${txHash}`);
+
+  return txHash;
+}
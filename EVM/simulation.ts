@@ -0,0 +1,300 @@
+/**
+ * Pre-flight transaction simulation
+ *
+ * Replays a transfer with eth_call at the pending block before it is sent
+ * to Fireblocks for signing, so calls that would revert never reach an
+ * approver. Revert data is decoded (Error(string), Panic(uint256), custom
+ * errors). For ERC20 transfers, nodes that implement eth_simulateV1 also
+ * replay balanceOf reads around the transfer, which exposes fee-on-transfer
+ * and blacklist behaviour as a mismatch between expected and actual deltas.
+ *
+ * eth_call state overrides are not used. A single eth_call can only see
+ * balances on both sides of a transfer if the sender's code is overridden
+ * with a probe contract that reads balanceOf, calls transfer and reads
+ * again, all as the sender. That probe would be hand-assembled bytecode
+ * with no way to exercise it here. On nodes without eth_simulateV1 the
+ * transfer is still checked for reverts, but no deltas are reported, so
+ * the behaviour is "unknown". If those deltas become necessary, a
+ * code-override probe is the fallback to add.
+ */
+
+import {
+  SimulationRequest,
+  SimulationResult,
+  TokenTransferBehaviour,
+} from "../shared/types";
+import { Logger } from "../shared/logger";
+import { ApiError } from "../shared/errors";
+import { TRANSFER_BEHAVIOUR } from "../shared/constants";
+import { sendJsonRpc, toHexQuantity } from "./json_rpc";
+
+/**
+ * Selectors of the standard revert payloads and ERC20 calls
+ */
+const SELECTORS = {
+  ERROR: "0x08c379a0",
+  PANIC: "0x4e487b71",
+  BALANCE_OF: "0x70a08231",
+} as const;
+
+/**
+ * Solidity panic codes
+ */
+const PANIC_CODES: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division by zero",
+  0x21: "invalid enum value",
+  0x31: "pop on empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to uninitialized function",
+};
+
+/**
+ * Revert reasons that usually mean an address is blocked by the token
+ */
+const BLACKLIST_PATTERN = /blacklist|blocklist|blocked|frozen|denied|sanction/i;
+
+/**
+ * Decodes revert data into a readable reason
+ *
+ * @param web3 - Web3 instance
+ * @param data - Revert data returned by the node
+ * @returns Decoded reason
+ */
+export function decodeRevertReason(web3: any, data: string | undefined): string {
+  if (!data || data === "0x") {
+    return "reverted without a reason";
+  }
+
+  const selector = data.slice(0, 10).toLowerCase();
+  const payload = `0x${data.slice(10)}`;
+
+  try {
+    if (selector === SELECTORS.ERROR) {
+      return String(web3.eth.abi.decodeParameter("string", payload));
+    }
+
+    if (selector === SELECTORS.PANIC) {
+      const code = Number(web3.eth.abi.decodeParameter("uint256", payload));
+      return `panic 0x${code.toString(16)} (${PANIC_CODES[code] ?? "unknown panic"})`;
+    }
+  } catch {
+    // Malformed payload: fall through to the raw selector
+  }
+
+  return `custom error ${selector}`;
+}
+
+/**
+ * Extracts revert data from a JSON-RPC error, whichever shape the node uses
+ */
+function extractRevertData(error: ApiError): string | undefined {
+  const data = error.context?.data;
+  const candidate = typeof data === "string" ? data : data?.data;
+
+  return typeof candidate === "string" && candidate.startsWith("0x") ? candidate : undefined;
+}
+
+/**
+ * Encodes balanceOf(address)
+ */
+function encodeBalanceOf(address: string): string {
+  return `${SELECTORS.BALANCE_OF}${address.toLowerCase().replace(/^0x/, "").padStart(64, "0")}`;
+}
+
+/**
+ * Simulates a call with eth_call at the pending block
+ *
+ * @param web3 - Web3 instance
+ * @param request - Call to simulate, exactly as it will be signed
+ * @returns Success flag, return data and decoded revert reason
+ * @throws On transport errors (a node rejecting the call is reported, not thrown)
+ */
+export async function simulateTransaction(
+  web3: any,
+  request: SimulationRequest
+): Promise<SimulationResult> {
+  const callObject = {
+    from: request.from,
+    to: request.to,
+    data: request.data,
+    value: request.value !== undefined ? toHexQuantity(request.value) : undefined,
+  };
+
+  try {
+    const returnData = await sendJsonRpc<string>(web3.currentProvider, "eth_call", [
+      callObject,
+      "pending",
+    ]);
+
+    return { success: true, returnData, warnings: [] };
+  } catch (error) {
+    if (!(error instanceof ApiError)) {
+      throw error;
+    }
+
+    const revertData = extractRevertData(error);
+    const revertReason = revertData ? decodeRevertReason(web3, revertData) : error.message;
+    const warnings = BLACKLIST_PATTERN.test(revertReason)
+      ? [`Revert reason suggests a blacklisted address: ${revertReason}`]
+      : [];
+
+    return { success: false, revertReason, warnings };
+  }
+}
+
+/**
+ * Replays a token transfer between balanceOf reads with eth_simulateV1
+ *
+ * @returns Sender and recipient deltas, or undefined if unsupported
+ */
+async function simulateBalanceDeltas(
+  web3: any,
+  request: SimulationRequest,
+  tokenAddress: string,
+  recipientAddress: string
+): Promise<{ senderDelta: bigint; recipientDelta: bigint } | undefined> {
+  const balanceCall = (holder: string) => ({
+    from: request.from,
+    to: tokenAddress,
+    data: encodeBalanceOf(holder),
+  });
+
+  try {
+    const [block] = await sendJsonRpc<any[]>(web3.currentProvider, "eth_simulateV1", [
+      {
+        blockStateCalls: [
+          {
+            calls: [
+              balanceCall(request.from),
+              balanceCall(recipientAddress),
+              { from: request.from, to: request.to, data: request.data },
+              balanceCall(request.from),
+              balanceCall(recipientAddress),
+            ],
+          },
+        ],
+        validation: false,
+      },
+      "pending",
+    ]);
+
+    const calls: { status: string; returnData: string }[] = block.calls;
+    const readsSucceeded = [0, 1, 3, 4].every(
+      (index) => calls[index].status === "0x1" && calls[index].returnData !== "0x"
+    );
+
+    if (calls[2].status !== "0x1" || !readsSucceeded) {
+      return undefined;
+    }
+
+    const [senderBefore, recipientBefore, , senderAfter, recipientAfter] = calls.map((call) =>
+      call.returnData !== "0x" ? BigInt(call.returnData) : 0n
+    );
+
+    return {
+      senderDelta: senderBefore - senderAfter,
+      recipientDelta: recipientAfter - recipientBefore,
+    };
+  } catch (error) {
+    Logger.debug(
+      `Balance delta simulation unavailable: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Simulates an ERC20 transfer and checks the balance deltas it produces
+ *
+ * @param web3 - Web3 instance
+ * @param request - transfer(recipient, amount) call from the vault
+ * @param recipientAddress - Token recipient
+ * @param amount - Amount in smallest units
+ * @returns Simulation result with deltas and warnings where detected
+ */
+export async function simulateErc20Transfer(
+  web3: any,
+  request: SimulationRequest,
+  recipientAddress: string,
+  amount: bigint
+): Promise<SimulationResult> {
+  const result = await simulateTransaction(web3, request);
+
+  if (!result.success) {
+    return result;
+  }
+
+  // Tokens without a return value are fine; an explicit false is a failure
+  if (result.returnData && result.returnData !== "0x" && BigInt(result.returnData) === 0n) {
+    return { ...result, success: false, revertReason: "transfer returned false" };
+  }
+
+  const deltas = await simulateBalanceDeltas(web3, request, request.to, recipientAddress);
+
+  if (!deltas) {
+    return result;
+  }
+
+  const warnings: string[] = [];
+
+  if (amount > 0n && deltas.recipientDelta === 0n) {
+    warnings.push("Recipient balance does not change (blacklisted recipient or blocked token?)");
+  } else if (deltas.recipientDelta < amount) {
+    warnings.push(
+      `Recipient receives ${deltas.recipientDelta} of ${amount} (fee-on-transfer token?)`
+    );
+  }
+
+  if (deltas.senderDelta > amount) {
+    warnings.push(`Sender is debited ${deltas.senderDelta}, more than the ${amount} sent`);
+  }
+
+  return { ...result, ...deltas, warnings };
+}
+
+/**
+ * Classifies a token from the balance deltas of a simulated transfer
+ *
+ * Each class needs its own signal; deltas that fit none (e.g. a blocked
+ * recipient credited nothing) are "unknown".
+ *
+ * @param result - Result of simulateErc20Transfer
+ * @param amount - Amount sent, in smallest units
+ * @returns Transfer behaviour
+ */
+export function classifyTransferBehaviour(
+  result: SimulationResult,
+  amount: bigint
+): TokenTransferBehaviour {
+  if (result.senderDelta === undefined || result.recipientDelta === undefined) {
+    return "unknown";
+  }
+
+  const { senderDelta, recipientDelta } = result;
+
+  if (senderDelta === amount && recipientDelta === amount) {
+    return "standard";
+  }
+
+  const distance = (delta: bigint) => (delta > amount ? delta - amount : amount - delta);
+  if (
+    distance(senderDelta) <= TRANSFER_BEHAVIOUR.REBASING_ROUNDING_UNITS &&
+    distance(recipientDelta) <= TRANSFER_BEHAVIOUR.REBASING_ROUNDING_UNITS
+  ) {
+    return "rebasing";
+  }
+
+  // The fee is taken from the amount sent, or charged to the sender on top
+  if (
+    recipientDelta > 0n &&
+    ((senderDelta === amount && recipientDelta < amount) ||
+      (recipientDelta === amount && senderDelta > amount))
+  ) {
+    return "fee-on-transfer";
+  }
+
+  return "unknown";
+}
@@ -1,10 +1,12 @@
 /**
  * Unified transfer engine for Fireblocks Raw Client (Refactored)
  *
- * Handles three types of transfers:
+ * Handles five types of transfers:
  * 1. Native token transfers (ETH, MATIC, etc.)
  * 2. ERC20 token transfers
- * 3. Internal vault-to-vault transfers
+ * 3. ERC-2612 permit sweeps (gas paid by a separate relayer vault)
+ * 4. ERC-721 / ERC-1155 NFT transfers
+ * 5. Internal vault-to-vault transfers
  *
  * Key improvements:
  * - Strong typing with interfaces
@@ -23,8 +25,16 @@ import {
   InternalTransferParams,
   ERC20TransferParams,
   NativeTransferParams,
+  PermitSweepParams,
+  NftTransferParams,
+  FeeData,
   ERC20Contract,
   GasEstimate,
+  SimulationResult,
+  Erc20TransferResult,
+  NativeTransferResult,
+  TokenTransferBehaviour,
+  DecimalAmount,
 } from "../shared/types";
 import { Logger } from "../shared/logger";
 import { GAS, BALANCE_THRESHOLDS } from "../shared/constants";
@@ -40,6 +50,43 @@ import {
   validateVaultId,
   validateAssetId,
 } from "../shared/validators";
+import {
+  compareAmounts,
+  isZeroAmount,
+  parseUnits,
+  formatUnits,
+  toDecimalString,
+} from "../shared/amounts";
+import { feePolicy as defaultFeePolicy } from "../shared/fee-policy";
+import { assertChainMatchesAsset, getChainRegistry } from "../shared/chain-registry";
+import {
+  getFeeDataWithinPolicy,
+  describeFeeData,
+  toTransactionFeeFields,
+} from "./fee_data";
+import { createAccessList, countStorageKeys } from "./access_list";
+import { toHexQuantity } from "./json_rpc";
+import { calculateMaxNativeSweep } from "./max_sweep";
+import {
+  simulateTransaction,
+  simulateErc20Transfer,
+  classifyTransferBehaviour,
+} from "./simulation";
+import { ERC20_PERMIT_ABI, getPermitDomain, signPermit } from "./permit";
+import {
+  ERC721_ABI,
+  ERC1155_ABI,
+  detectNftStandard,
+  enumerateErc721Tokens,
+  getErc721Holdings,
+  getErc1155Holdings,
+} from "./nft";
+
+/**
+ * Transfer(address,address,uint256) event topic
+ */
+const TRANSFER_EVENT_TOPIC =
+  "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
 
 /**
  * Standard ERC20 ABI for token transfers
@@ -55,19 +102,19 @@ const ERC20_ABI = JSON.parse(
  * @param params - Internal transfer parameters
  * @returns Transaction result
  */
-async function performInternalTransfer(
+export async function performInternalTransfer(
   web3: any,
   params: InternalTransferParams
 ): Promise<any> {
-  let { amount } = params;
+  let amount = toDecimalString(params.amount);
 
   // Handle full balance transfers
-  if (amount === 0) {
-    amount = await calculateMaxInternalTransferAmount(web3, params.assetId);
+  if (isZeroAmount(amount)) {
+    amount = await calculateMaxInternalTransferAmount(web3, params);
   }
 
   // Validate amount is reasonable for internal transfers
-  if (amount > BALANCE_THRESHOLDS.LARGE_INTERNAL_TRANSFER_WARNING) {
+  if (compareAmounts(amount, BALANCE_THRESHOLDS.LARGE_INTERNAL_TRANSFER_WARNING) > 0) {
     Logger.warn(
       `Large internal transfer detected: ${amount} ${params.assetId}. ` +
       `This exceeds the warning threshold of ${BALANCE_THRESHOLDS.LARGE_INTERNAL_TRANSFER_WARNING}.`
@@ -79,7 +126,7 @@ async function performInternalTransfer(
 
   const payload = {
     assetId: params.assetId,
-    amount: String(amount),
+    amount,
     source: {
       type: PeerType.VAULT_ACCOUNT,
       id: String(params.sourceVaultId),
@@ -100,39 +147,39 @@ async function performInternalTransfer(
 /**
  * Calculates the maximum transferable amount for internal transfers
  *
+ * A chain's native asset keeps back the worst-case network fee (the L1
+ * data fee included on L2s). Other assets pay their fee in the native
+ * asset, so their whole available Fireblocks balance is sent.
+ *
  * @param web3 - Web3 instance
- * @param assetId - Asset identifier
- * @returns Maximum amount that can be transferred
+ * @param params - Internal transfer parameters
+ * @returns Maximum amount that can be transferred, as a decimal string
+ * @throws {ChainMismatchError} If `web3` is not on the native asset's chain
+ * @throws {InsufficientBalanceError} If the balance does not cover the fees
  */
 async function calculateMaxInternalTransferAmount(
   web3: any,
-  assetId: string
-): Promise<number> {
-  const maxSpendableInWei = await web3.eth.getBalance(web3.eth.defaultAccount);
-
-  if (assetId === "ETH") {
-    // For ETH, subtract gas fees
-    const gasPrice = await web3.eth.getGasPrice();
-    const gasLimit = BigInt(GAS.SIMPLE_TRANSFER_LIMIT);
-    const gasFee = BigInt(gasPrice) * gasLimit;
-    const amountInWei = BigInt(maxSpendableInWei) - gasFee;
-
-    if (amountInWei < 0n) {
-      throw new InsufficientBalanceError(
-        gasFee.toString(),
-        maxSpendableInWei.toString(),
-        { operation: "calculateMaxInternalTransferAmount" }
-      );
-    }
+  params: InternalTransferParams
+): Promise<string> {
+  const chain = getChainRegistry().find(params.assetId);
 
-    // Convert to ETH
-    return Number(web3.utils.fromWei(amountInWei.toString(), "ether"));
-  } else {
-    // For other assets, return full balance
-    const balance = await web3.eth.getBalance(web3.eth.defaultAccount);
-    Logger.info(`Max spendable balance: ${balance}`);
-    return Number(balance);
+  if (chain?.nativeAssetId === params.assetId) {
+    assertChainMatchesAsset(params.assetId, Number(await web3.eth.getChainId()));
+
+    const sweep = await calculateMaxNativeSweep(web3, {
+      safetyMarginPercent: params.sweepSafetyMarginPercent,
+    });
+    return formatUnits(sweep.amount, chain.gasDecimals);
   }
+
+  const asset = await params.fireblocksApiClient.getVaultAccountAsset(
+    String(params.sourceVaultId),
+    params.assetId
+  );
+  const available = asset.available ?? asset.total;
+
+  Logger.info(`Max spendable balance: ${available} ${params.assetId}`);
+  return toDecimalString(available, "available");
 }
 
 /**
@@ -140,7 +187,7 @@ async function calculateMaxInternalTransferAmount(
  */
 function buildInternalTransferNote(
   params: InternalTransferParams,
-  amount: number
+  amount: DecimalAmount
 ): string {
   return (
     `Transfer from vault ${params.sourceVaultId} ` +
@@ -153,15 +200,15 @@ function buildInternalTransferNote(
  * Estimates gas for a transaction
  *
  * @param web3 - Web3 instance
- * @param estimateGasFn - Function that estimates gas
+ * @param estimateGasFn - Function that estimates gas (web3 4.x returns a bigint)
  * @returns Gas estimate with buffer applied
  */
 async function estimateGasWithBuffer(
   web3: any,
-  estimateGasFn: () => Promise<number>
+  estimateGasFn: () => Promise<number | bigint>
 ): Promise<number> {
   try {
-    const estimatedGas = await estimateGasFn();
+    const estimatedGas = Number(await estimateGasFn());
     const gasWithBuffer = Math.floor(estimatedGas * GAS.ESTIMATION_BUFFER);
 
     Logger.info(`Gas estimated: ${estimatedGas}, with buffer: ${gasWithBuffer}`);
@@ -175,13 +222,71 @@ async function estimateGasWithBuffer(
   }
 }
 
+/**
+ * Stops a transfer whose pre-flight simulation failed
+ *
+ * @param result - Simulation result
+ * @param operation - Calling operation, for the error context
+ * @throws {TransactionError} If the simulated call reverts
+ */
+function assertSimulationSucceeded(result: SimulationResult, operation: string): void {
+  result.warnings.forEach((warning) => Logger.warn(`Simulation: ${warning}`));
+
+  if (!result.success) {
+    throw new TransactionError(
+      `Simulation failed, not sending for signing: ${result.revertReason}`,
+      undefined,
+      "SIMULATION_FAILED",
+      { operation, revertReason: result.revertReason }
+    );
+  }
+
+  Logger.info("Simulation succeeded");
+}
+
+/**
+ * Sums the tokens a receipt's Transfer logs credit to a recipient
+ *
+ * @param receipt - Transaction receipt
+ * @param contractAddress - Token contract
+ * @param recipientAddress - Recipient
+ * @returns Amount received, in smallest units
+ */
+function sumTransfersTo(receipt: any, contractAddress: string, recipientAddress: string): bigint {
+  const recipientTopic = `0x${recipientAddress.toLowerCase().replace(/^0x/, "").padStart(64, "0")}`;
+
+  return (receipt.logs ?? [])
+    .filter(
+      (log: any) =>
+        log.address.toLowerCase() === contractAddress.toLowerCase() &&
+        log.topics[0]?.toLowerCase() === TRANSFER_EVENT_TOPIC &&
+        log.topics[2]?.toLowerCase() === recipientTopic
+    )
+    .reduce((total: bigint, log: any) => total + BigInt(log.data), 0n);
+}
+
 /**
  * Handles ERC20 token transfers
  *
+ * Fee-on-transfer and rebasing tokens are detected from the simulated
+ * balance deltas. With `sweepEntireBalance` the balance is re-read right
+ * before encoding, so such tokens leave no dust behind.
+ *
  * @param params - ERC20 transfer parameters
+ * @returns Sent and received amounts and the detected token behaviour
  */
-async function handleErc20Transfer(params: ERC20TransferParams): Promise<void> {
-  const { web3, contractAddress, recipientAddress, amount } = params;
+async function handleErc20Transfer(params: ERC20TransferParams): Promise<Erc20TransferResult> {
+  const {
+    web3,
+    contractAddress,
+    recipientAddress,
+    amount,
+    useAccessList,
+    signOnly,
+    skipSimulation,
+    sweepEntireBalance,
+    feePolicy = defaultFeePolicy,
+  } = params;
 
   // Validate recipient address
   validateEthereumAddress(recipientAddress, "recipientAddress");
@@ -199,18 +304,16 @@ async function handleErc20Transfer(params: ERC20TransferParams): Promise<void> {
     .call();
 
   Logger.info(
-    `ERC20 contract balance: ${web3.utils.fromWei(
-      accountBalanceInSmallestUnit.toString(),
-      "ether"
+    `ERC20 contract balance: ${formatUnits(
+      BigInt(accountBalanceInSmallestUnit),
+      Number(tokenDecimals)
     )}`
   );
 
   // Convert amount to smallest token unit
-  const transferAmountInSmallestUnit = convertToSmallestTokenUnit(
-    amount,
-    tokenDecimals,
-    web3
-  );
+  let transferAmountInSmallestUnit = sweepEntireBalance
+    ? BigInt(accountBalanceInSmallestUnit)
+    : convertToSmallestTokenUnit(amount, Number(tokenDecimals));
 
   // Validate sufficient balance
   if (BigInt(transferAmountInSmallestUnit) > BigInt(accountBalanceInSmallestUnit)) {
@@ -225,83 +328,197 @@ async function handleErc20Transfer(params: ERC20TransferParams): Promise<void> {
     );
   }
 
-  Logger.info(
-    `Initiating transfer of ${amount} tokens ` +
-    `(${transferAmountInSmallestUnit} in smallest unit)`
-  );
+  if (sweepEntireBalance) {
+    // Rebasing balances move between blocks: read again right before encoding
+    transferAmountInSmallestUnit = BigInt(
+      await erc20Contract.methods.balanceOf(web3.eth.defaultAccount).call()
+    );
+
+    if (transferAmountInSmallestUnit === 0n) {
+      throw new InsufficientBalanceError("1", "0", {
+        operation: "handleErc20Transfer",
+        contractAddress,
+        message: "Token balance is zero",
+      });
+    }
+
+    Logger.info(
+      `Initiating transfer of the entire balance ` +
+      `(${transferAmountInSmallestUnit} in smallest unit)`
+    );
+  } else {
+    Logger.info(
+      `Initiating transfer of ${amount} tokens ` +
+      `(${transferAmountInSmallestUnit} in smallest unit)`
+    );
+  }
+
+  // Prepare transaction data
+  const transactionData = erc20Contract.methods
+    .transfer(recipientAddress, transferAmountInSmallestUnit)
+    .encodeABI();
 
-  // Get current gas price
-  const currentGasPrice = web3.utils.toBN(await web3.eth.getGasPrice());
-  Logger.info(`Current gas price: ${currentGasPrice.toString()} wei`);
+  // Simulate the exact call before it reaches an approver
+  let behaviour: TokenTransferBehaviour = "unknown";
+  let simulatedReceived: bigint | undefined;
+
+  if (!skipSimulation) {
+    const simulation = await simulateErc20Transfer(
+      web3,
+      { from: web3.eth.defaultAccount, to: contractAddress, data: transactionData },
+      recipientAddress,
+      transferAmountInSmallestUnit
+    );
+    assertSimulationSucceeded(simulation, "handleErc20Transfer");
+
+    behaviour = classifyTransferBehaviour(simulation, transferAmountInSmallestUnit);
+    simulatedReceived = simulation.recipientDelta;
+    Logger.info(`Token transfer behaviour: ${behaviour}`);
+
+    if (behaviour !== "standard" && behaviour !== "unknown" && !sweepEntireBalance) {
+      Logger.warn(
+        `Token is ${behaviour}; the recipient will not receive exactly the amount sent. ` +
+        `Use sweepEntireBalance to empty the vault regardless of fees`
+      );
+    }
+  }
 
   // Estimate gas with buffer
-  const gasLimit = await estimateGasWithBuffer(web3, () =>
+  let gasLimit = await estimateGasWithBuffer(web3, () =>
     erc20Contract.methods
       .transfer(recipientAddress, transferAmountInSmallestUnit)
       .estimateGas({ from: web3.eth.defaultAccount })
   );
 
-  // Prepare transaction data
-  const transactionData = erc20Contract.methods
-    .transfer(recipientAddress, transferAmountInSmallestUnit)
-    .encodeABI();
+  // Optionally pre-compute an access list (helps upgradeable proxy tokens)
+  let accessList;
+  if (useAccessList) {
+    const result = await createAccessList(web3, {
+      from: web3.eth.defaultAccount,
+      to: contractAddress,
+      data: transactionData,
+    });
+    const gasWithAccessList = result
+      ? Math.floor(result.gasUsed * GAS.ESTIMATION_BUFFER)
+      : gasLimit;
+
+    if (result && result.accessList.length > 0 && gasWithAccessList < gasLimit) {
+      Logger.info(
+        `Using access list (${result.accessList.length} addresses, ` +
+        `${countStorageKeys(result.accessList)} storage keys), ` +
+        `gas limit ${gasLimit} -> ${gasWithAccessList}`
+      );
+      accessList = result.accessList;
+      gasLimit = gasWithAccessList;
+    } else {
+      Logger.info("Access list would not reduce gas, sending without one");
+    }
+  }
+
+  // Get current network fees (EIP-1559 where supported) within the fee policy
+  const feeData = await getFeeDataWithinPolicy(web3, feePolicy, gasLimit);
+  Logger.info(describeFeeData(feeData));
 
   // Sign and send transaction
   const signedTransaction = await web3.eth.signTransaction({
     to: contractAddress,
     data: transactionData,
-    value: web3.utils.toBN("0x00"),
-    gasPrice: currentGasPrice,
+    value: "0x0",
     gasLimit,
+    ...toTransactionFeeFields(feeData),
+    accessList,
   });
 
+  if (signOnly) {
+    Logger.success("ERC20 transfer signed and exported (not broadcast)");
+    return {
+      sentAmount: transferAmountInSmallestUnit.toString(),
+      receivedAmount: simulatedReceived?.toString(),
+      behaviour,
+    };
+  }
+
   Logger.info("Transaction signed, broadcasting...");
 
   const transactionReceipt = await web3.eth.sendSignedTransaction(
     signedTransaction.raw || signedTransaction
   );
+  const receivedAmount = sumTransfersTo(transactionReceipt, contractAddress, recipientAddress);
 
   Logger.success(
-    `ERC20 transfer completed. Transaction hash: ${transactionReceipt.transactionHash}`
+    `ERC20 transfer completed. Transaction hash: ${transactionReceipt.transactionHash}. ` +
+    `Sent ${transferAmountInSmallestUnit}, received ${receivedAmount} (smallest units)`
   );
+
+  return {
+    transactionHash: transactionReceipt.transactionHash,
+    sentAmount: transferAmountInSmallestUnit.toString(),
+    receivedAmount: receivedAmount.toString(),
+    behaviour,
+  };
 }
 
 /**
  * Handles native token transfers (ETH, MATIC, etc.)
  *
+ * An amount of 0 sweeps the full balance less the worst-case fees,
+ * including the L1 data fee on L2s (see calculateMaxNativeSweep).
+ *
  * @param params - Native transfer parameters
+ * @returns Amount sent and, once broadcast, the receipt
  */
-async function handleNativeTokenTransfer(params: NativeTransferParams): Promise<void> {
-  const { web3, recipientAddress, amount } = params;
+async function handleNativeTokenTransfer(params: NativeTransferParams): Promise<NativeTransferResult> {
+  const {
+    web3,
+    recipientAddress,
+    amount,
+    signOnly,
+    skipSimulation,
+    feePolicy = defaultFeePolicy,
+    sweepSafetyMarginPercent,
+  } = params;
 
   // Validate recipient address
   validateEthereumAddress(recipientAddress, "recipientAddress");
 
+  // Gas token decimals and symbol come from the chain registry
+  const chain = getChainRegistry().find(Number(await web3.eth.getChainId()));
+  const decimals = chain?.gasDecimals ?? 18;
+  const symbol = chain?.nativeSymbol ?? "native";
+
   // Get account balance
-  const accountBalanceInWei = web3.utils.toBN(
-    await web3.eth.getBalance(web3.eth.defaultAccount)
-  );
+  const accountBalanceInWei = BigInt(await web3.eth.getBalance(web3.eth.defaultAccount));
 
-  Logger.info(`Account balance: ${accountBalanceInWei.toString()} wei`);
+  Logger.info(`Account balance: ${accountBalanceInWei} wei`);
 
-  if (accountBalanceInWei.isZero()) {
+  if (accountBalanceInWei === 0n) {
     throw new InsufficientBalanceError("0", "0", {
       operation: "handleNativeTokenTransfer",
       message: "Account balance is zero",
     });
   }
 
-  // Get current gas price
-  const currentGasPrice = web3.utils.toBN(await web3.eth.getGasPrice());
-  Logger.info(`Current gas price: ${currentGasPrice.toString()} wei`);
+  // Get current network fees (EIP-1559 where supported) within the fee policy
+  const feeData = await getFeeDataWithinPolicy(web3, feePolicy, GAS.SIMPLE_TRANSFER_LIMIT);
+  Logger.info(describeFeeData(feeData));
+
+  // Amount 0 sends the whole balance less the worst-case fees
+  const sweep = isZeroAmount(amount)
+    ? await calculateMaxNativeSweep(web3, {
+        recipient: recipientAddress,
+        feeData,
+        safetyMarginPercent: sweepSafetyMarginPercent,
+      })
+    : undefined;
+  const gasLimit = sweep ? Number(sweep.gasLimit) : GAS.SIMPLE_TRANSFER_LIMIT;
 
   // Convert transfer amount to Wei
-  const transferAmountInWei = web3.utils.toBN(
-    web3.utils.toWei(amount.toString(), "ether")
+  const transferAmountInWei = BigInt(
+    sweep?.amount ?? convertToSmallestTokenUnit(amount, decimals)
   );
 
   // Validate sufficient balance
-  if (transferAmountInWei.gt(accountBalanceInWei)) {
+  if (transferAmountInWei > accountBalanceInWei) {
     throw new InsufficientBalanceError(
       transferAmountInWei.toString(),
       accountBalanceInWei.toString(),
@@ -309,16 +526,37 @@ async function handleNativeTokenTransfer(params: NativeTransferParams): Promise<
     );
   }
 
-  Logger.info(`Initiating native token transfer of ${amount} Ether`);
+  Logger.info(
+    sweep
+      ? `Initiating native sweep of ${formatUnits(sweep.amount, decimals)} ${symbol} (entire balance less fees)`
+      : `Initiating native token transfer of ${amount} ${symbol}`
+  );
+
+  // Simulate the exact call before it reaches an approver
+  if (!skipSimulation) {
+    const simulation = await simulateTransaction(web3, {
+      from: web3.eth.defaultAccount,
+      to: recipientAddress,
+      value: transferAmountInWei.toString(),
+    });
+    assertSimulationSucceeded(simulation, "handleNativeTokenTransfer");
+  }
 
   // Sign and send transaction
   const signedTransaction = await web3.eth.signTransaction({
     to: recipientAddress,
-    value: transferAmountInWei,
-    gasPrice: currentGasPrice,
-    gasLimit: GAS.SIMPLE_TRANSFER_LIMIT,
+    value: toHexQuantity(transferAmountInWei),
+    gasLimit,
+    ...toTransactionFeeFields(feeData),
   });
 
+  const sentAmount = transferAmountInWei.toString();
+
+  if (signOnly) {
+    Logger.success("Native token transfer signed and exported (not broadcast)");
+    return { sentAmount };
+  }
+
   const transactionReceipt = await web3.eth.sendSignedTransaction(
     signedTransaction.raw || signedTransaction
   );
@@ -326,28 +564,278 @@ async function handleNativeTokenTransfer(params: NativeTransferParams): Promise<
   Logger.success(
     `Native token transfer completed. Transaction hash: ${transactionReceipt.transactionHash}`
   );
+
+  return {
+    transactionHash: transactionReceipt.transactionHash,
+    sentAmount,
+    receipt: transactionReceipt,
+  };
+}
+
+/**
+ * Signs and sends a contract call from the vault behind `web3`
+ *
+ * @param web3 - Web3 instance
+ * @param to - Contract address
+ * @param data - Encoded call data
+ * @param gasLimit - Gas limit
+ * @param feeData - Current network fee data
+ * @param signOnly - Sign and export without broadcasting
+ * @returns Transaction receipt, or undefined in sign-only mode
+ */
+async function sendContractTransaction(
+  web3: any,
+  to: string,
+  data: string,
+  gasLimit: number,
+  feeData: FeeData,
+  signOnly: boolean = false
+): Promise<any> {
+  const signedTransaction = await web3.eth.signTransaction({
+    to,
+    data,
+    value: "0x0",
+    gasLimit,
+    ...toTransactionFeeFields(feeData),
+  });
+
+  if (signOnly) {
+    return undefined;
+  }
+
+  return web3.eth.sendSignedTransaction(signedTransaction.raw || signedTransaction);
+}
+
+/**
+ * Sweeps an ERC-2612 token without gas in the token-holding vault
+ *
+ * The token-holding vault signs a permit off-chain for the relayer vault,
+ * which pays gas to submit `permit` and then `transferFrom` to the
+ * recipient. The permit is skipped when the relayer already holds enough
+ * allowance (e.g. a previous sweep failed after the permit was mined).
+ * An amount of 0 sweeps the full balance.
+ *
+ * @param params - Permit sweep parameters
+ * @throws {ValidationError} If the token does not support permit
+ * @throws {InsufficientBalanceError} If the balance is zero or too low
+ */
+async function handlePermitSweep(params: PermitSweepParams): Promise<void> {
+  const {
+    web3,
+    relayerWeb3,
+    contractAddress,
+    recipientAddress,
+    amount,
+    feePolicy = defaultFeePolicy,
+  } = params;
+
+  // Validate recipient address
+  validateEthereumAddress(recipientAddress, "recipientAddress");
+
+  const owner: string = web3.eth.defaultAccount;
+  const relayer: string = relayerWeb3.eth.defaultAccount;
+
+  const domain = await getPermitDomain(web3, contractAddress, owner);
+  if (!domain) {
+    throw new ValidationError(
+      "erc20ContractAddress",
+      contractAddress,
+      "Token does not support ERC-2612 permit"
+    );
+  }
+
+  const token = new relayerWeb3.eth.Contract(ERC20_PERMIT_ABI, contractAddress);
+  const balance = BigInt(await token.methods.balanceOf(owner).call());
+  const value =
+    isZeroAmount(amount)
+      ? balance
+      : convertToSmallestTokenUnit(amount, Number(await token.methods.decimals().call()));
+
+  if (value === 0n || value > balance) {
+    throw new InsufficientBalanceError(value.toString(), balance.toString(), {
+      operation: "handlePermitSweep",
+      contractAddress,
+    });
+  }
+
+  Logger.info(
+    `Permit sweep of ${value} (smallest unit) from ${owner} to ${recipientAddress}, ` +
+    `gas paid by ${relayer}`
+  );
+
+  // Get current network fees (EIP-1559 where supported) within the fee policy
+  const feeData = await getFeeDataWithinPolicy(relayerWeb3, feePolicy);
+  Logger.info(describeFeeData(feeData));
+
+  const allowance = BigInt(await token.methods.allowance(owner, relayer).call());
+
+  if (allowance < value) {
+    const permit = await signPermit(web3, contractAddress, domain, relayer, value);
+    const permitCall = token.methods.permit(
+      permit.owner,
+      permit.spender,
+      permit.value,
+      permit.deadline,
+      permit.v,
+      permit.r,
+      permit.s
+    );
+
+    const permitGas = await estimateGasWithBuffer(relayerWeb3, () =>
+      permitCall.estimateGas({ from: relayer })
+    );
+    const permitReceipt = await sendContractTransaction(
+      relayerWeb3,
+      contractAddress,
+      permitCall.encodeABI(),
+      permitGas,
+      feeData
+    );
+
+    Logger.success(`Permit submitted. Transaction hash: ${permitReceipt.transactionHash}`);
+  } else {
+    Logger.info(`Relayer already has allowance ${allowance}, skipping permit`);
+  }
+
+  const transferCall = token.methods.transferFrom(owner, recipientAddress, value.toString());
+  const transferGas = await estimateGasWithBuffer(relayerWeb3, () =>
+    transferCall.estimateGas({ from: relayer })
+  );
+  const transferReceipt = await sendContractTransaction(
+    relayerWeb3,
+    contractAddress,
+    transferCall.encodeABI(),
+    transferGas,
+    feeData
+  );
+
+  Logger.success(
+    `Permit sweep completed. Transaction hash: ${transferReceipt.transactionHash}`
+  );
+}
+
+/**
+ * Transfers ERC-721 or ERC-1155 tokens
+ *
+ * ERC-721 tokens are sent one by one with safeTransferFrom; without
+ * explicit IDs every token is enumerated via ERC721Enumerable. ERC-1155
+ * balances are read with balanceOfBatch over the given IDs and sent in a
+ * single safeBatchTransferFrom.
+ *
+ * @param params - NFT transfer parameters
+ * @throws {ValidationError} If token IDs are needed but missing
+ * @throws {InsufficientBalanceError} If the vault holds none of the tokens
+ */
+async function handleNftTransfer(params: NftTransferParams): Promise<void> {
+  const {
+    web3,
+    contractAddress,
+    recipientAddress,
+    signOnly,
+    feePolicy = defaultFeePolicy,
+  } = params;
+
+  // Validate recipient address
+  validateEthereumAddress(recipientAddress, "recipientAddress");
+
+  const owner: string = web3.eth.defaultAccount;
+  const standard = params.standard ?? (await detectNftStandard(web3, contractAddress));
+
+  if (standard === "erc1155" && (!params.tokenIds || params.tokenIds.length === 0)) {
+    throw new ValidationError(
+      "nftTokenIds",
+      params.tokenIds,
+      "ERC-1155 tokens cannot be enumerated on-chain; pass the token IDs"
+    );
+  }
+
+  const holdings =
+    standard === "erc721"
+      ? await getErc721Holdings(
+          web3,
+          contractAddress,
+          owner,
+          params.tokenIds ?? (await enumerateErc721Tokens(web3, contractAddress, owner))
+        )
+      : await getErc1155Holdings(web3, contractAddress, owner, params.tokenIds!);
+
+  if (holdings.length === 0) {
+    throw new InsufficientBalanceError("1", "0", {
+      operation: "handleNftTransfer",
+      contractAddress,
+      standard,
+    });
+  }
+
+  Logger.info(
+    `Transferring ${holdings.length} ${standard.toUpperCase()} token(s) to ${recipientAddress}: ` +
+    holdings.map((holding) => `${holding.tokenId} x${holding.amount}`).join(", ")
+  );
+
+  // Get current network fees (EIP-1559 where supported) within the fee policy
+  const feeData = await getFeeDataWithinPolicy(web3, feePolicy);
+  Logger.info(describeFeeData(feeData));
+
+  const calls =
+    standard === "erc721"
+      ? holdings.map((holding) =>
+          new web3.eth.Contract(ERC721_ABI, contractAddress).methods.safeTransferFrom(
+            owner,
+            recipientAddress,
+            holding.tokenId
+          )
+        )
+      : [
+          new web3.eth.Contract(ERC1155_ABI, contractAddress).methods.safeBatchTransferFrom(
+            owner,
+            recipientAddress,
+            holdings.map((holding) => holding.tokenId),
+            holdings.map((holding) => holding.amount),
+            "0x"
+          ),
+        ];
+
+  // Sequential: each transfer takes the next nonce from the nonce manager
+  for (const call of calls) {
+    const gasLimit = await estimateGasWithBuffer(web3, () =>
+      call.estimateGas({ from: owner })
+    );
+    const receipt = await sendContractTransaction(
+      web3,
+      contractAddress,
+      call.encodeABI(),
+      gasLimit,
+      feeData,
+      signOnly
+    );
+
+    if (receipt) {
+      Logger.success(`NFT transfer completed. Transaction hash: ${receipt.transactionHash}`);
+    } else {
+      Logger.success("NFT transfer signed and exported (not broadcast)");
+    }
+  }
 }
 
 /**
  * Converts an amount to smallest token unit based on decimals
  *
+ * Digits beyond the token's decimals are rounded down, so the amount
+ * sent never exceeds the amount requested.
+ *
  * @param amount - Amount in token units
  * @param decimals - Token decimals
- * @param web3 - Web3 instance
  * @returns Amount in smallest unit (as BigInt)
  */
-function convertToSmallestTokenUnit(
-  amount: number,
-  decimals: number,
-  web3: any
-): bigint {
-  // Convert using web3's toWei (assumes 18 decimals)
-  const amountInWeiEquivalent = web3.utils.toWei(amount.toString(), "ether");
-
-  // Adjust for actual token decimals
-  const decimalsDifference = 18 - decimals;
-  const amountInSmallestUnit =
-    BigInt(amountInWeiEquivalent) / 10n ** BigInt(decimalsDifference);
+function convertToSmallestTokenUnit(amount: DecimalAmount, decimals: number): bigint {
+  const amountInSmallestUnit = parseUnits(amount, decimals, "down");
+
+  if (amountInSmallestUnit !== parseUnits(amount, decimals, "up")) {
+    Logger.warn(
+      `Amount ${amount} has more than ${decimals} decimals; ` +
+      `rounded down to ${formatUnits(amountInSmallestUnit, decimals)}`
+    );
+  }
 
   return amountInSmallestUnit;
 }
@@ -357,6 +845,8 @@ function convertToSmallestTokenUnit(
  *
  * Automatically routes to the appropriate handler based on parameters:
  * - Internal transfer: if destinationVault > 0
+ * - Permit sweep: if erc20ContractAddress and permitRelayerVaultId provided
+ * - NFT transfer: if nftContractAddress provided
  * - ERC20 transfer: if erc20ContractAddress provided
  * - Native transfer: otherwise
  *
@@ -382,11 +872,39 @@ function convertToSmallestTokenUnit(
  *   erc20ContractAddress: "0x..."
  * });
  *
+ * // ERC20 sweep of the whole balance (fee-on-transfer / rebasing tokens)
+ * await transfer({
+ *   ...params,
+ *   erc20ContractAddress: "0x...",
+ *   sweepEntireBalance: true
+ * });
+ *
  * // Internal vault transfer
  * await transfer({
  *   ...params,
  *   destinationVault: 5
  * });
+ *
+ * // ERC-2612 permit sweep: vault 12 pays the gas
+ * await transfer({
+ *   ...params,
+ *   erc20ContractAddress: "0x...",
+ *   permitRelayerVaultId: 12
+ * });
+ *
+ * // NFT transfer (all enumerable ERC-721 tokens, or the given IDs)
+ * await transfer({
+ *   ...params,
+ *   nftContractAddress: "0x...",
+ *   nftTokenIds: ["1", "42"]
+ * });
+ *
+ * // Sign only: export the signed transaction for broadcast_signed_transaction.ts
+ * await transfer({
+ *   ...params,
+ *   signOnly: true,
+ *   exportDirectory: "./signed"
+ * });
  * ```
  */
 export async function transfer(params: TransferParams): Promise<any>;
@@ -419,7 +937,7 @@ export async function transfer(
   recipientAddress?: string,
   assetIdentifier?: string,
   assetSymbol?: string,
-  transferAmount: number = 0,
+  transferAmount: DecimalAmount = 0,
   erc20ContractAddress?: string,
   transactionFilename?: string,
   existingTransactionId?: string,
@@ -457,6 +975,50 @@ export async function transfer(
   validateAssetId(params.assetIdentifier, "assetIdentifier");
   validateAmount(amount, "transferAmount");
 
+  if (params.signOnly && destVault > 0) {
+    throw new ValidationError(
+      "signOnly",
+      params.signOnly,
+      "Internal vault transfers are executed by Fireblocks and cannot be sign-only"
+    );
+  }
+
+  if (params.nftContractAddress) {
+    validateEthereumAddress(params.nftContractAddress, "nftContractAddress");
+
+    if (params.erc20ContractAddress || destVault > 0) {
+      throw new ValidationError(
+        "nftContractAddress",
+        params.nftContractAddress,
+        "NFT transfers cannot be combined with ERC20 or internal vault transfers"
+      );
+    }
+  }
+
+  if (
+    params.sweepEntireBalance &&
+    (!params.erc20ContractAddress || destVault > 0 || params.permitRelayerVaultId !== undefined)
+  ) {
+    throw new ValidationError(
+      "sweepEntireBalance",
+      params.sweepEntireBalance,
+      "Entire-balance sweeps apply to direct ERC20 transfers only"
+    );
+  }
+
+  const usePermit = params.permitRelayerVaultId !== undefined;
+  if (usePermit) {
+    validateVaultId(params.permitRelayerVaultId!, "permitRelayerVaultId");
+
+    if (!params.erc20ContractAddress || destVault > 0 || params.signOnly) {
+      throw new ValidationError(
+        "permitRelayerVaultId",
+        params.permitRelayerVaultId,
+        "Permit sweeps require an ERC20 contract and cannot be internal or sign-only transfers"
+      );
+    }
+  }
+
   // Initialize Web3 instance with Fireblocks
   const web3 = await initWeb3Instance({
     fireblocksApiClient: params.fireblocksApiClient,
@@ -468,6 +1030,13 @@ export async function transfer(
     destAddress: params.recipientAddress,
     filename: params.transactionFilename,
     existingTransactionId: params.existingTransactionId,
+    nonceManager: params.nonceManager,
+    signOnly: params.signOnly,
+    exportDirectory: params.exportDirectory,
+    broadcaster: params.broadcaster,
+    fallbackProviderUrls: params.fallbackProviderUrls,
+    expectedChainIds: params.expectedChainIds,
+    feePolicy: params.feePolicy,
   });
 
   // Route to appropriate transfer handler
@@ -480,24 +1049,79 @@ export async function transfer(
       amount,
       sourceVaultId: params.sourceVaultAccountId,
       destinationVaultId: destVault,
+      sweepSafetyMarginPercent: params.sweepSafetyMarginPercent,
+    });
+  } else if (usePermit) {
+    // Permit sweep: the relayer vault signs and pays for the transactions
+    Logger.info("Performing ERC-2612 permit sweep");
+    const relayerWeb3 = await initWeb3Instance({
+      fireblocksApiClient: params.fireblocksApiClient,
+      httpProviderUrl: params.ethereumProviderUrl,
+      vaultAccountId: params.permitRelayerVaultId!,
+      assetId: params.assetIdentifier,
+      tokenName: params.assetSymbol,
+      amount,
+      destAddress: params.recipientAddress,
+      filename: params.transactionFilename,
+      nonceManager: params.nonceManager,
+      broadcaster: params.broadcaster,
+      fallbackProviderUrls: params.fallbackProviderUrls,
+      expectedChainIds: params.expectedChainIds,
+      feePolicy: params.feePolicy,
+    });
+
+    await handlePermitSweep({
+      web3,
+      relayerWeb3,
+      contractAddress: params.erc20ContractAddress!,
+      recipientAddress: params.recipientAddress,
+      amount,
+      feePolicy: params.feePolicy,
+    });
+  } else if (params.nftContractAddress) {
+    // ERC-721 / ERC-1155 transfer
+    Logger.info("Performing NFT transfer");
+    await handleNftTransfer({
+      web3,
+      contractAddress: params.nftContractAddress,
+      recipientAddress: params.recipientAddress,
+      tokenIds: params.nftTokenIds,
+      standard: params.nftStandard,
+      signOnly: params.signOnly,
+      feePolicy: params.feePolicy,
     });
   } else if (params.erc20ContractAddress) {
     // ERC20 token transfer
     Logger.info("Performing ERC20 token transfer");
-    await handleErc20Transfer({
+    const result = await handleErc20Transfer({
       web3,
       contractAddress: params.erc20ContractAddress,
       recipientAddress: params.recipientAddress,
       amount,
+      useAccessList: params.useAccessList,
+      signOnly: params.signOnly,
+      skipSimulation: params.skipSimulation,
+      sweepEntireBalance: params.sweepEntireBalance,
+      feePolicy: params.feePolicy,
     });
+
+    Logger.success("Transfer process completed");
+    return result;
   } else {
     // Native token transfer
     Logger.info("Performing native token transfer");
-    await handleNativeTokenTransfer({
+    const result = await handleNativeTokenTransfer({
       web3,
       recipientAddress: params.recipientAddress,
       amount,
+      signOnly: params.signOnly,
+      skipSimulation: params.skipSimulation,
+      feePolicy: params.feePolicy,
+      sweepSafetyMarginPercent: params.sweepSafetyMarginPercent,
     });
+
+    Logger.success("Transfer process completed");
+    return result;
   }
 
   Logger.success("Transfer process completed");
@@ -1,10 +1,10 @@
 const { apiSecret, apiKey } = require('./config');
 import { FireblocksSDK, TransactionStatus } from "fireblocks-sdk";
-const { transfer } = require("./src/transfer");
-const { colorLog } = require("./src/web3_instance");
+import { getChainRegistry, getRpcUrl } from "../shared/chain-registry";
+import { transfer } from "./transfer.refactored";
+import { colorLog } from "./web3_instance.refactored";
 
 const fireblocksApiClient = new FireblocksSDK(apiSecret, apiKey);
-const httpProviderURL = 'https://rpc.flashbots.net';
 const vaultAccountID = 123;
 const contractAddress = '';
 const destinationVault = 456;
@@ -12,10 +12,21 @@ const destinationVault = 456;
 const amount = 0; //Decimal Number
 const tokenName = 'ETH';
 const assetType = 'ETH';
+const httpProviderURL = getRpcUrl(getChainRegistry().get(assetType));
 
 async function main() {
   //Do Not Touch!
-  var result = await transfer(fireblocksApiClient, httpProviderURL, vaultAccountID, null, assetType, tokenName, amount, contractAddress, 0, null, destinationVault);
+  var result = await transfer({
+    fireblocksApiClient,
+    ethereumProviderUrl: httpProviderURL,
+    sourceVaultAccountId: vaultAccountID,
+    recipientAddress: `vault ${destinationVault}`,
+    assetIdentifier: assetType,
+    assetSymbol: tokenName,
+    transferAmount: amount,
+    erc20ContractAddress: contractAddress || undefined,
+    destinationVault,
+  });
   console.log(result);
   var txid = result.id;
 
@@ -2,7 +2,8 @@
  * Web3 instance management with Fireblocks integration (Refactored)
  *
  * Provides Web3 initialization with a custom RPC proxy that routes
- * transaction signing through Fireblocks SDK instead of local keys.
+ * transaction and message signing through Fireblocks SDK instead of
+ * local keys.
  *
  * Key improvements:
  * - Strong typing throughout
@@ -13,7 +14,14 @@
  * - Clear abstractions
  */
 
-import { Transaction } from "@ethereumjs/tx";
+import {
+  Transaction,
+  AccessList,
+  AccessListEIP2930Transaction,
+  FeeMarketEIP1559Transaction,
+  TransactionFactory,
+  TypedTransaction,
+} from "@ethereumjs/tx";
 import Common from "@ethereumjs/common";
 import {
   PeerType,
@@ -21,36 +29,86 @@ import {
   FireblocksSDK,
   TransactionStatus,
 } from "fireblocks-sdk";
-import { Web3InitParams } from "../shared/types";
+import { TypedData, Web3InitParams } from "../shared/types";
 import { Logger } from "../shared/logger";
 import { GAS } from "../shared/constants";
 import {
   NoAddressesError,
+  SignatureVerificationError,
   TransactionError,
   ValidationError,
 } from "../shared/errors";
 import { pollTransactionUntilSuccess } from "../shared/transaction-poller";
+import { nonceManager as defaultNonceManager } from "../shared/nonce-manager";
+import { feePolicy as defaultFeePolicy } from "../shared/fee-policy";
+import { isZeroAmount } from "../shared/amounts";
+import { assertChainMatchesAsset, getChainRegistry } from "../shared/chain-registry";
 import {
   validateVaultId,
   validateAssetId,
   validateRpcUrl,
   validateRequired,
 } from "../shared/validators";
+import {
+  getFeeData,
+  getMaxPricePerGas,
+  getMaxPriorityFeePerGas,
+  supportsEip1559,
+} from "./fee_data";
+import { toHexQuantity } from "./json_rpc";
+import { RpcBroadcaster } from "./broadcasters";
+import { FailoverProvider } from "./failover_provider";
+import {
+  hashPersonalMessage,
+  hashTypedDataV4,
+  recoverDigestSigner,
+  toRpcSignature,
+} from "./message_hashing";
+import {
+  buildExportFilename,
+  writeSignedTransactionExport,
+} from "./signed_transaction_export";
 
-const Web3 = require("web3");
+const { Web3 } = require("web3");
 
 /**
  * Transaction data from Web3
  */
 interface Web3TransactionData {
-  to?: string;
+  from?: string;
+  /** Omitted (or null / "0x") for contract creation */
+  to?: string | null;
   data?: string;
   value?: string;
+  gas?: string | number;
   gasPrice?: string;
   gasLimit?: number;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  accessList?: AccessList;
   nonce?: number;
 }
 
+/**
+ * Result of signing a transaction through Fireblocks
+ */
+interface SignedTransactionResult {
+  readonly rawTransaction: string;
+  readonly chainId: number;
+  readonly from: string;
+  readonly nonce: number;
+  /** Whether the nonce came from the nonce manager (vs. set by the caller) */
+  readonly nonceManaged: boolean;
+  /** Worst-case fee reserved against the fee policy budget, in wei */
+  readonly reservedFee: bigint;
+  /** Address recovered from the signed transaction */
+  readonly signer: string;
+  readonly fireblocksTxId: string;
+  readonly transactionHash: string;
+  /** Decoded signed transaction fields */
+  readonly decoded: Record<string, any>;
+}
+
 /**
  * Creates a Fireblocks RAW transaction for signing
  *
@@ -106,7 +164,11 @@ async function createRawTransaction(
  * @returns Transaction note string
  */
 function buildTransactionNote(params: Web3InitParams): string {
-  const amountStr = params.amount === 0 ? "full balance" : String(params.amount);
+  if (params.note) {
+    return params.note;
+  }
+
+  const amountStr = isZeroAmount(params.amount) ? "full balance" : String(params.amount);
   const tokenName = params.tokenName || "ETH";
   const filename = params.filename || "transaction";
 
@@ -116,9 +178,129 @@ function buildTransactionNote(params: Web3InitParams): string {
   );
 }
 
+/**
+ * Creates an EthereumJS Common instance for the connected chain
+ *
+ * @param chainId - Chain ID reported by the RPC
+ * @param useEip1559 - Whether the chain has activated the London fee market
+ * @param useAccessList - Whether the transaction carries an EIP-2930 access list
+ * @returns Common configured with the matching hardfork
+ */
+function createCommon(
+  chainId: number,
+  useEip1559: boolean,
+  useAccessList: boolean = false
+): Common {
+  const customChainParams = { name: "custom", chainId, networkId: chainId };
+  const hardfork = useEip1559 ? "london" : useAccessList ? "berlin" : "byzantium";
+
+  return Common.forCustomChain("mainnet", customChainParams, hardfork);
+}
+
+/**
+ * Resolves type-2 fee fields for a transaction
+ *
+ * Explicit maxFeePerGas wins; a legacy gasPrice is treated as the fee cap;
+ * otherwise fees are derived from the current base fee.
+ *
+ * @param web3 - Web3 instance
+ * @param txData - Transaction data
+ * @returns maxFeePerGas and maxPriorityFeePerGas
+ */
+async function resolveEip1559Fees(
+  web3: any,
+  txData: Web3TransactionData
+): Promise<{ maxFeePerGas: string; maxPriorityFeePerGas: string }> {
+  const explicitMaxFee = txData.maxFeePerGas ?? txData.gasPrice;
+  let maxFeePerGas: bigint;
+  let maxPriorityFeePerGas: bigint;
+
+  if (explicitMaxFee === undefined) {
+    const feeData = await getFeeData(web3);
+    maxFeePerGas = getMaxPricePerGas(feeData);
+    maxPriorityFeePerGas = feeData.maxPriorityFeePerGas ?? maxFeePerGas;
+  } else if (txData.maxPriorityFeePerGas !== undefined) {
+    maxFeePerGas = BigInt(explicitMaxFee);
+    maxPriorityFeePerGas = BigInt(txData.maxPriorityFeePerGas);
+  } else {
+    maxFeePerGas = BigInt(explicitMaxFee);
+    const suggested = await getMaxPriorityFeePerGas(web3);
+    maxPriorityFeePerGas = suggested < maxFeePerGas ? suggested : maxFeePerGas;
+  }
+
+  return {
+    maxFeePerGas: toHexQuantity(maxFeePerGas),
+    maxPriorityFeePerGas: toHexQuantity(maxPriorityFeePerGas),
+  };
+}
+
+/**
+ * Checks whether transaction data describes a contract creation (no `to`)
+ */
+function isContractCreation(txData: Web3TransactionData): boolean {
+  return !txData.to || txData.to === "0x";
+}
+
+/**
+ * Builds the unsigned transaction to be signed by Fireblocks
+ *
+ * Type-2 when the chain supports EIP-1559, type-1 when an access list is
+ * supplied on a pre-London chain, legacy otherwise.
+ *
+ * @param web3 - Web3 instance
+ * @param txData - Transaction data
+ * @param nonce - Account nonce
+ * @param common - EthereumJS Common instance
+ * @param useEip1559 - Build a type-2 transaction instead of a legacy one
+ * @returns Unsigned transaction
+ */
+async function buildUnsignedTransaction(
+  web3: any,
+  txData: Web3TransactionData,
+  nonce: number,
+  common: Common,
+  useEip1559: boolean
+): Promise<TypedTransaction> {
+  const baseFields = {
+    nonce,
+    gasLimit: txData.gasLimit ?? txData.gas,
+    to: isContractCreation(txData) ? undefined : txData.to!,
+    value: txData.value,
+    data: txData.data,
+  };
+
+  const accessList = txData.accessList;
+
+  if (useEip1559) {
+    const fees = await resolveEip1559Fees(web3, txData);
+    return FeeMarketEIP1559Transaction.fromTxData(
+      { ...baseFields, ...fees, accessList },
+      { common }
+    );
+  }
+
+  const gasPrice =
+    txData.gasPrice ??
+    txData.maxFeePerGas ??
+    toHexQuantity(await web3.eth.getGasPrice());
+
+  if (accessList && accessList.length > 0) {
+    return AccessListEIP2930Transaction.fromTxData(
+      { ...baseFields, gasPrice, accessList },
+      { common }
+    );
+  }
+
+  return Transaction.fromTxData({ ...baseFields, gasPrice }, { common });
+}
+
 /**
  * Creates a signed transaction from Fireblocks signature
  *
+ * Legacy transactions use EIP-155 `v = chainId * 2 + 35 + recoveryId`;
+ * typed transactions (EIP-2930, EIP-1559) carry the recovery id
+ * (y-parity) directly.
+ *
  * @param originalTx - Original unsigned transaction
  * @param signature - Fireblocks signature
  * @param chainId - Chain ID
@@ -126,25 +308,40 @@ function buildTransactionNote(params: Web3InitParams): string {
  * @returns Serialized signed transaction
  */
 function createSignedTransaction(
-  originalTx: Transaction,
+  originalTx: TypedTransaction,
   signature: any,
   chainId: number,
   common: Common
 ): string {
-  const Web3 = require("web3");
-  const web3 = new Web3();
+  const r = "0x" + signature.r;
+  const s = "0x" + signature.s;
 
-  const signedTransaction = new Transaction(
+  if (originalTx instanceof Transaction) {
+    const signedTransaction = new Transaction(
+      {
+        nonce: originalTx.nonce,
+        gasPrice: originalTx.gasPrice,
+        gasLimit: originalTx.gasLimit,
+        to: originalTx.to,
+        value: originalTx.value,
+        data: originalTx.data,
+        s,
+        r,
+        v: chainId * 2 + (signature.v + 35),
+      },
+      { common }
+    );
+
+    return `0x${signedTransaction.serialize().toString("hex")}`;
+  }
+
+  const signedTransaction = TransactionFactory.fromTxData(
     {
-      nonce: originalTx.nonce,
-      gasPrice: originalTx.gasPrice,
-      gasLimit: originalTx.gasLimit,
-      to: originalTx.to,
-      value: originalTx.value,
-      data: originalTx.data,
-      s: web3.utils.toBN("0x" + signature.s),
-      r: web3.utils.toBN("0x" + signature.r),
-      v: chainId * 2 + (signature.v + 35),
+      ...originalTx.toJSON(),
+      type: originalTx.type,
+      v: signature.v,
+      r,
+      s,
     },
     { common }
   );
@@ -152,56 +349,360 @@ function createSignedTransaction(
   return `0x${signedTransaction.serialize().toString("hex")}`;
 }
 
+/**
+ * Normalizes a hex string for comparison (lowercase, no 0x prefix)
+ */
+function normalizeHex(value: string): string {
+  return value.toLowerCase().replace(/^0x/, "");
+}
+
+/**
+ * Finds the Fireblocks signed message for the content we requested
+ *
+ * @param txInfo - Completed Fireblocks transaction
+ * @param requestedContent - Hash sent for signing
+ * @returns Signature of the matching message
+ * @throws {TransactionError} If no messages were signed
+ * @throws {SignatureVerificationError} If no message matches the request
+ */
+function getSignatureForContent(txInfo: any, requestedContent: string): any {
+  if (!txInfo.signedMessages || txInfo.signedMessages.length === 0) {
+    throw new TransactionError(
+      "Transaction completed but no signed messages found",
+      txInfo.id,
+      TransactionStatus.COMPLETED
+    );
+  }
+
+  const message = txInfo.signedMessages.find(
+    (signed: any) => normalizeHex(signed.content) === normalizeHex(requestedContent)
+  );
+
+  if (!message) {
+    throw new SignatureVerificationError(
+      "signed content does not match the requested hash",
+      requestedContent,
+      txInfo.signedMessages.map((signed: any) => signed.content).join(","),
+      txInfo.id,
+      { operation: "getSignatureForContent" }
+    );
+  }
+
+  return message.signature;
+}
+
+/**
+ * Recovers the signer of a serialized transaction and checks it
+ *
+ * The signer must be both the sender we built the transaction for and
+ * one of the vault's deposit addresses; a wrong `v` or a mismatched
+ * derivation path fails here instead of on the network.
+ *
+ * @param fireblocksClient - Fireblocks SDK client
+ * @param params - Web3 initialization parameters
+ * @param txId - Fireblocks transaction ID
+ * @param rawTransaction - Serialized signed transaction
+ * @param common - EthereumJS Common instance
+ * @param expectedSender - Address the transaction was built for
+ * @returns Decoded signed transaction
+ * @throws {SignatureVerificationError} If the signer does not match
+ */
+async function verifyTransactionSigner(
+  fireblocksClient: FireblocksSDK,
+  params: Web3InitParams,
+  txId: string,
+  rawTransaction: string,
+  common: Common,
+  expectedSender: string
+): Promise<TypedTransaction> {
+  let signedTx: TypedTransaction;
+  let signer: string;
+
+  try {
+    signedTx = TransactionFactory.fromSerializedData(
+      Buffer.from(normalizeHex(rawTransaction), "hex"),
+      { common }
+    );
+    signer = signedTx.getSenderAddress().toString();
+  } catch (error) {
+    throw new SignatureVerificationError(
+      `cannot recover signer (${error instanceof Error ? error.message : String(error)})`,
+      expectedSender,
+      "unrecoverable",
+      txId,
+      { operation: "verifyTransactionSigner" }
+    );
+  }
+
+  if (signer.toLowerCase() !== expectedSender.toLowerCase()) {
+    throw new SignatureVerificationError(
+      "recovered signer is not the sender",
+      expectedSender,
+      signer,
+      txId,
+      { operation: "verifyTransactionSigner" }
+    );
+  }
+
+  const depositAddresses = await fireblocksClient.getDepositAddresses(
+    String(params.vaultAccountId),
+    params.assetId
+  );
+  const isVaultAddress = depositAddresses.some(
+    (deposit) => deposit.address.toLowerCase() === signer.toLowerCase()
+  );
+
+  if (!isVaultAddress) {
+    throw new SignatureVerificationError(
+      `recovered signer is not a deposit address of vault ${params.vaultAccountId}`,
+      depositAddresses.map((deposit) => deposit.address).join(","),
+      signer,
+      txId,
+      { operation: "verifyTransactionSigner", assetId: params.assetId }
+    );
+  }
+
+  Logger.success(`Signature verified: signer ${signer}`);
+
+  return signedTx;
+}
+
 /**
  * Handles the transaction signing flow through Fireblocks
  *
+ * Builds an EIP-1559 (type-2) transaction when the chain reports a base
+ * fee, and a legacy transaction otherwise. Unless the caller sets an
+ * explicit nonce, one is reserved from the nonce manager and released
+ * again if signing fails. The signature is verified before it is returned.
+ * Nothing is signed if the RPC's chain is not the asset's chain, or if the
+ * worst-case fee breaks the fee policy; the fee is reserved against the
+ * policy's budget and given back if signing fails.
+ *
  * @param fireblocksClient - Fireblocks SDK client
  * @param params - Web3 initialization parameters
  * @param txData - Transaction data
  * @param web3 - Web3 instance
- * @returns Serialized signed transaction
+ * @returns Serialized signed transaction with its nonce bookkeeping
+ * @throws {ChainMismatchError} If the RPC is on another chain than the asset
+ * @throws {FeeLimitExceededError} If the gas price or fee is over a limit
  */
 async function signTransactionViaFireblocks(
   fireblocksClient: FireblocksSDK,
   params: Web3InitParams,
   txData: Web3TransactionData,
   web3: any
+): Promise<SignedTransactionResult> {
+  // Get chain ID and fee market support, then create common instance
+  const chainId = Number(await web3.eth.getChainId());
+
+  // Never sign for a chain other than the asset's, whatever the RPC says
+  assertChainMatchesAsset(params.assetId, chainId, params.expectedChainIds);
+
+  const useEip1559 = await supportsEip1559(web3, chainId);
+  const useAccessList = !!txData.accessList && txData.accessList.length > 0;
+  const common = createCommon(chainId, useEip1559, useAccessList);
+
+  // Reserve nonce (explicit nonces, e.g. replacements, bypass the manager)
+  const from = txData.from ?? web3.eth.defaultAccount;
+  const nonceManager = params.nonceManager ?? defaultNonceManager;
+  const nonceManaged = txData.nonce === undefined || txData.nonce === null;
+  const nonce = nonceManaged
+    ? await nonceManager.reserve(web3, chainId, from)
+    : Number(txData.nonce);
+
+  const feePolicy = params.feePolicy ?? defaultFeePolicy;
+  let reservedFee = 0n;
+
+  try {
+    // Create transaction and get message to sign
+    const tx = await buildUnsignedTransaction(
+      web3,
+      txData,
+      nonce,
+      common,
+      useEip1559
+    );
+    const content = tx.getMessageToSign().toString("hex");
+
+    // Enforce the fee policy on the worst case this transaction allows
+    const pricePerGas =
+      tx instanceof FeeMarketEIP1559Transaction ? tx.maxFeePerGas : tx.gasPrice;
+    reservedFee = feePolicy.authorize(
+      chainId,
+      BigInt(tx.gasLimit.toString()),
+      BigInt(pricePerGas.toString())
+    );
+
+    Logger.info(
+      useEip1559
+        ? `Signing EIP-1559 (type-2) transaction with nonce ${nonce}`
+        : useAccessList
+          ? `Chain does not support EIP-1559, signing EIP-2930 (type-1) transaction with nonce ${nonce}`
+          : `Chain does not support EIP-1559, signing legacy transaction with nonce ${nonce}`
+    );
+
+    if (isContractCreation(txData)) {
+      Logger.info("Transaction has no recipient: signing a contract creation");
+    }
+
+    // Create or resume Fireblocks transaction
+    const { id: txId, status } = await createRawTransaction(
+      fireblocksClient,
+      params,
+      content,
+      params.existingTransactionId
+    );
+
+    // Poll until transaction is signed
+    const txInfo = await pollTransactionUntilSuccess(fireblocksClient, txId);
+
+    // Create the signed transaction from the signature over our hash
+    const signature = getSignatureForContent(txInfo, content);
+    const rawTransaction = createSignedTransaction(tx, signature, chainId, common);
+
+    // Never broadcast anything not signed by the expected vault address
+    const signedTx = await verifyTransactionSigner(
+      fireblocksClient,
+      params,
+      txId,
+      rawTransaction,
+      common,
+      from
+    );
+
+    return {
+      rawTransaction,
+      chainId,
+      from,
+      nonce,
+      nonceManaged,
+      reservedFee,
+      signer: signedTx.getSenderAddress().toString(),
+      fireblocksTxId: txId,
+      transactionHash: `0x${signedTx.hash().toString("hex")}`,
+      decoded: { type: signedTx.type, ...signedTx.toJSON() },
+    };
+  } catch (error) {
+    if (nonceManaged) {
+      nonceManager.release(chainId, from, nonce);
+    }
+    feePolicy.release(chainId, reservedFee);
+    throw error;
+  }
+}
+
+/**
+ * Signs a message digest through Fireblocks RAW signing
+ *
+ * Used for personal_sign / eth_sign (EIP-191) and eth_signTypedData_v4
+ * (EIP-712); the caller hashes the message, Fireblocks signs the bare
+ * digest. The requested address must be the vault address, and the
+ * recovered signer is checked before the signature is returned.
+ *
+ * @param fireblocksClient - Fireblocks SDK client
+ * @param params - Web3 initialization parameters
+ * @param address - Address the dapp asked to sign with
+ * @param digest - 0x-prefixed 32-byte digest
+ * @param kind - Message kind, used in the transaction note
+ * @param web3 - Web3 instance
+ * @returns 65-byte signature with v = 27/28
+ * @throws {ValidationError} If the address is not the vault address
+ * @throws {SignatureVerificationError} If the recovered signer does not match
+ */
+async function signMessageViaFireblocks(
+  fireblocksClient: FireblocksSDK,
+  params: Web3InitParams,
+  address: string,
+  digest: string,
+  kind: string,
+  web3: any
 ): Promise<string> {
-  // Get chain ID and create common instance
-  const chainId = await web3.eth.getChainId();
-  const customChainParams = { name: "custom", chainId, networkId: chainId };
-  const common = Common.forCustomChain("mainnet", customChainParams, "byzantium");
+  const signerAddress: string = web3.eth.defaultAccount;
+
+  if (!address || address.toLowerCase() !== signerAddress.toLowerCase()) {
+    throw new ValidationError(
+      "address",
+      address,
+      `Vault ${params.vaultAccountId} can only sign as ${signerAddress}`
+    );
+  }
 
-  // Get nonce
-  const nonce = await web3.eth.getTransactionCount(web3.eth.defaultAccount);
+  const content = normalizeHex(digest);
 
-  // Create transaction and get message to sign
-  const tx = new Transaction({ ...txData, nonce }, { common });
-  const content = tx.getMessageToSign().toString("hex");
+  Logger.info(`Signing ${kind} message digest ${digest}`);
 
-  // Create or resume Fireblocks transaction
-  const { id: txId, status } = await createRawTransaction(
+  const note = params.note ?? `Sign ${kind} message from vault ${params.vaultAccountId}`;
+  const { id: txId } = await createRawTransaction(
     fireblocksClient,
-    params,
-    content,
-    params.existingTransactionId
+    { ...params, note },
+    content
   );
 
-  // Poll until transaction is signed
   const txInfo = await pollTransactionUntilSuccess(fireblocksClient, txId);
+  const signature = toRpcSignature(getSignatureForContent(txInfo, content));
+  const signer = recoverDigestSigner(digest, signature);
 
-  // Validate signature exists
-  if (!txInfo.signedMessages || txInfo.signedMessages.length === 0) {
-    throw new TransactionError(
-      "Transaction completed but no signed messages found",
+  if (signer.toLowerCase() !== signerAddress.toLowerCase()) {
+    throw new SignatureVerificationError(
+      "recovered message signer is not the vault address",
+      signerAddress,
+      signer,
       txId,
-      TransactionStatus.COMPLETED
+      { operation: "signMessageViaFireblocks", kind }
     );
   }
 
-  // Create and return signed transaction
-  const signature = txInfo.signedMessages[0].signature;
-  return createSignedTransaction(tx, signature, chainId, common);
+  Logger.success(`Message signature verified: signer ${signer}`);
+
+  return signature;
+}
+
+/**
+ * Writes a signed transaction to an export file instead of broadcasting it
+ *
+ * @param params - Web3 initialization parameters
+ * @param signed - Signed transaction
+ * @returns Path of the export file
+ */
+function exportSignedTransaction(
+  params: Web3InitParams,
+  signed: SignedTransactionResult
+): string {
+  const fileName = buildExportFilename(
+    params.filename || "transaction",
+    signed.chainId,
+    signed.signer,
+    signed.nonce
+  );
+
+  return writeSignedTransactionExport(
+    {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      chainId: signed.chainId,
+      assetId: params.assetId,
+      vaultAccountId: String(params.vaultAccountId),
+      fireblocksTxId: signed.fireblocksTxId,
+      signer: signed.signer,
+      transactionHash: signed.transactionHash,
+      rawTransaction: signed.rawTransaction,
+      transaction: signed.decoded,
+      note: buildTransactionNote(params),
+    },
+    params.exportDirectory || ".",
+    fileName
+  );
+}
+
+/**
+ * Checks whether a broadcast error means the node already has the transaction
+ *
+ * @param error - Error returned by eth_sendRawTransaction
+ * @returns True for "already known" style errors
+ */
+function isAlreadyKnownError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /already known|known transaction|already imported/i.test(message);
 }
 
 /**
@@ -219,43 +720,141 @@ function createFireblocksProvider(
   httpProvider: any,
   web3: any
 ): any {
-  // RPC proxy that intercepts eth_signTransaction
+  const nonceManager = params.nonceManager ?? defaultNonceManager;
+  const feePolicy = params.feePolicy ?? defaultFeePolicy;
+
+  // Reads stay on the HTTP provider; only broadcasts go through the backend
+  const broadcaster = params.broadcaster ?? new RpcBroadcaster(httpProvider);
+
+  // Signed transactions awaiting broadcast, keyed by serialized tx
+  const awaitingBroadcast = new Map<string, SignedTransactionResult>();
+
+  // RPC proxy that intercepts signing methods and tracks broadcasts
   const rpcProxy: Record<string, Function> = {
     eth_signTransaction: async ([txData]: [Web3TransactionData]) => {
       try {
-        return await signTransactionViaFireblocks(
+        const signed = await signTransactionViaFireblocks(
           fireblocksClient,
           params,
           txData,
           web3
         );
+
+        if (params.signOnly) {
+          try {
+            exportSignedTransaction(params, signed);
+          } catch (error) {
+            // Never written out, so it can never be broadcast
+            if (signed.nonceManaged) {
+              nonceManager.release(signed.chainId, signed.from, signed.nonce);
+            }
+            feePolicy.release(signed.chainId, signed.reservedFee);
+            throw error;
+          }
+
+          // Handed off for later broadcast; the nonce is spent either way
+          if (signed.nonceManaged) {
+            nonceManager.markSubmitted(signed.chainId, signed.from, signed.nonce);
+          }
+        } else {
+          awaitingBroadcast.set(signed.rawTransaction, signed);
+        }
+
+        return signed.rawTransaction;
       } catch (error) {
         Logger.error("Transaction signing error", error);
         throw error;
       }
     },
+
+    // EIP-191: personal_sign takes [message, address], eth_sign [address, message]
+    personal_sign: async ([message, address]: [string, string]) =>
+      signMessageViaFireblocks(
+        fireblocksClient,
+        params,
+        address,
+        hashPersonalMessage(message),
+        "personal_sign",
+        web3
+      ),
+
+    eth_sign: async ([address, message]: [string, string]) =>
+      signMessageViaFireblocks(
+        fireblocksClient,
+        params,
+        address,
+        hashPersonalMessage(message),
+        "eth_sign",
+        web3
+      ),
+
+    eth_signTypedData_v4: async ([address, typedData]: [string, string | TypedData]) =>
+      signMessageViaFireblocks(
+        fireblocksClient,
+        params,
+        address,
+        hashTypedDataV4(typedData),
+        "EIP-712",
+        web3
+      ),
+
+    eth_sendRawTransaction: async ([rawTransaction]: [string]) => {
+      const signed = awaitingBroadcast.get(rawTransaction);
+      awaitingBroadcast.delete(rawTransaction);
+
+      try {
+        const txHash = await broadcaster.broadcast(rawTransaction);
+
+        if (signed?.nonceManaged) {
+          nonceManager.markSubmitted(signed.chainId, signed.from, signed.nonce);
+        }
+
+        return txHash;
+      } catch (error) {
+        if (signed && !isAlreadyKnownError(error)) {
+          // Never reached the network: the fee was not spent
+          feePolicy.release(signed.chainId, signed.reservedFee);
+        }
+
+        if (signed?.nonceManaged) {
+          if (isAlreadyKnownError(error)) {
+            nonceManager.markSubmitted(signed.chainId, signed.from, signed.nonce);
+          } else {
+            nonceManager.release(signed.chainId, signed.from, signed.nonce);
+          }
+        }
+        throw error;
+      }
+    },
   };
 
   // Custom provider that routes to proxy or base provider
+  const request = async (input: any): Promise<any> => {
+    const method = rpcProxy[input.method];
+
+    if (!method) {
+      // Route to base HTTP provider
+      return httpProvider.request(input);
+    }
+
+    // Route to our custom handler
+    return {
+      id: input.id,
+      jsonrpc: "2.0",
+      result: await method(input.params),
+    };
+  };
+
+  // web3 4.x uses request(); a JSON-RPC error (e.g. a revert) through the
+  // legacy send() callback would be thrown inside the callback instead of
+  // rejecting the call
   return {
+    request,
     send: (input: any, callback: Function) => {
-      const method = rpcProxy[input.method];
-
-      if (method) {
-        // Route to our custom handler
-        method(input.params)
-          .then((result: any) =>
-            callback(null, {
-              id: input.id,
-              jsonrpc: "2.0",
-              result,
-            })
-          )
-          .catch((err: any) => callback(err));
-      } else {
-        // Route to base HTTP provider
-        httpProvider.send(input, callback);
-      }
+      request(input).then(
+        (response) => callback(null, response),
+        (error) => callback(error)
+      );
     },
   };
 }
@@ -388,22 +987,33 @@ export async function initWeb3Instance(
   validateAssetId(params.assetId);
   validateRpcUrl(params.httpProviderUrl);
 
-  // Create base HTTP provider
-  const httpProvider = new Web3.providers.HttpProvider(params.httpProviderUrl);
+  // Create base HTTP provider, failing over across endpoints when several are given.
+  // Endpoints are pinned to the chain signing is allowed on when that is a single
+  // chain; with several, the first endpoint to answer sets it and the signing
+  // check below still applies.
+  const expectedChainIds = params.expectedChainIds?.length
+    ? params.expectedChainIds
+    : [getChainRegistry().find(params.assetId)?.chainId];
+  const httpProvider = params.fallbackProviderUrls?.length
+    ? new FailoverProvider([params.httpProviderUrl, ...params.fallbackProviderUrls], {
+        expectedChainId: expectedChainIds.length === 1 ? expectedChainIds[0] : undefined,
+        ...params.rpcFailover,
+      })
+    : new Web3.providers.HttpProvider(params.httpProviderUrl);
 
-  // Create Web3 instance (will be updated with custom provider)
-  let web3 = new Web3(httpProvider);
+  // Create read-only Web3 instance used by the signing flow
+  const baseWeb3 = new Web3(httpProvider);
 
   // Create custom provider with Fireblocks integration
   const customProvider = createFireblocksProvider(
     params.fireblocksApiClient,
     params,
     httpProvider,
-    web3
+    baseWeb3
   );
 
-  // Update Web3 with custom provider
-  web3 = new Web3(customProvider);
+  // Create Web3 with custom provider
+  const web3 = new Web3(customProvider);
 
   // Setup default account from vault
   await setupDefaultAccount(
@@ -413,6 +1023,9 @@ export async function initWeb3Instance(
     web3
   );
 
+  // The signing flow reads the sender (and its nonce) from the base instance
+  baseWeb3.eth.defaultAccount = web3.eth.defaultAccount;
+
   return web3;
 }
 
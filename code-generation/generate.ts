@@ -1,4 +1,5 @@
 import * as fs from "fs";
+import { getChainRegistry, getRpcUrl } from "../shared/chain-registry";
 
 type ParsedLine = string[];
 
@@ -15,14 +16,9 @@ const parseCsvLine = (line: string): ParsedLine => {
   );
 };
 
-const loadMapFromCsv = (filePath: string): Map<string, string> => {
-  const lines = readCsv(filePath);
-  const map = new Map<string, string>();
-  lines.forEach((line) => {
-    const [key, value] = parseCsvLine(line);
-    map.set(key, value);
-  });
-  return map;
+const resolveRpcUrl = (chainName: string): string => {
+  const chain = getChainRegistry().find(chainName.trim());
+  return chain ? getRpcUrl(chain) : "";
 };
 
 const loadContractAndTokenMaps = (
@@ -45,8 +41,7 @@ const generateCode = (
   row: ParsedLine,
   template: string,
   contractMap: Map<string, string>,
-  tokenMap: Map<string, string>,
-  chainMap: Map<string, string>
+  tokenMap: Map<string, string>
 ): string | null => {
   const [coin, vault, amount, address, rownum, chain] = row;
 
@@ -62,7 +57,7 @@ const generateCode = (
     .replace("{address}", address.trim())
     .replace("{contract}", contractMap.get(coin)?.trim() || "")
     .replace("{token}", tokenMap.get(coin)?.trim() || "")
-    .replace("{rpcurl}", chainMap.get(chain)?.trim() || "")
+    .replace("{rpcurl}", resolveRpcUrl(chain))
     .replace("{chain}", chain)
     .replace("{rownum}", rownum);
 };
@@ -72,7 +67,6 @@ const processRows = (
   template: string,
   contractMap: Map<string, string>,
   tokenMap: Map<string, string>,
-  chainMap: Map<string, string>,
   lineNumber: number | null
 ): void => {
   rows.forEach((row, index) => {
@@ -85,8 +79,7 @@ const processRows = (
       parsedRow,
       template,
       contractMap,
-      tokenMap,
-      chainMap
+      tokenMap
     );
     if (code) {
       const filename = `${rownum.toString().trim().replace(/\W+/g, "")}.ts`;
@@ -103,12 +96,11 @@ const processRows = (
 // Main execution
 try {
   const [contractMap, tokenMap] = loadContractAndTokenMaps("contracts.csv");
-  const chainMap = loadMapFromCsv("chains.csv");
   const template = fs.readFileSync("template.ts", "utf8");
   const rows = readCsv("rows.csv");
 
   const lineNumber = process.argv[2] ? parseInt(process.argv[2]) : null;
-  processRows(rows, template, contractMap, tokenMap, chainMap, lineNumber);
+  processRows(rows, template, contractMap, tokenMap, lineNumber);
 
   console.log("Code generation completed.");
 } catch (error) {
@@ -0,0 +1,190 @@
+/**
+ * Exact amount handling
+ *
+ * Amounts travel as decimal strings in whole units ("1.5") or as bigint
+ * in smallest units, never through floating point. Plain numbers are
+ * still accepted at the edges and converted via their exact decimal form.
+ *
+ * Rounding rules:
+ * - parseUnits rounds down by default, so an amount to send never
+ *   exceeds what was requested
+ * - "up" is for required amounts (fees, top-ups), which must never be
+ *   under-estimated
+ * - "exact" rejects amounts with more fractional digits than the token has
+ * - formatUnits never rounds
+ */
+
+import { DecimalAmount } from "./types";
+import { ValidationError } from "./errors";
+
+/**
+ * Rounding applied when an amount has more decimals than the token
+ */
+export type Rounding = "down" | "up" | "exact";
+
+/**
+ * Non-negative decimal without exponent
+ */
+const DECIMAL_PATTERN = /^(\d+)(?:\.(\d*))?$/;
+
+/**
+ * Expands exponent notation ("1e-7", "1.5e+21") into a plain decimal
+ */
+function expandExponent(value: string): string {
+  const match = /^(\d+)(?:\.(\d*))?e([+-]?\d+)$/i.exec(value);
+  if (!match) {
+    return value;
+  }
+
+  const digits = `${match[1]}${match[2] ?? ""}`;
+  const point = match[1].length + Number(match[3]);
+
+  if (point <= 0) {
+    return `0.${"0".repeat(-point)}${digits}`;
+  }
+
+  return point >= digits.length
+    ? digits + "0".repeat(point - digits.length)
+    : `${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
+/**
+ * Normalizes an amount to a plain decimal string
+ *
+ * @param amount - Decimal string or number, in whole units
+ * @param fieldName - Field name for the error
+ * @returns Decimal string without exponent, sign or redundant zeros
+ * @throws {ValidationError} If the amount is not a non-negative decimal
+ */
+export function toDecimalString(amount: DecimalAmount, fieldName: string = "amount"): string {
+  if (typeof amount === "number" && !Number.isFinite(amount)) {
+    throw new ValidationError(fieldName, amount, "Must be a finite number");
+  }
+
+  const match = DECIMAL_PATTERN.exec(expandExponent(String(amount).trim()));
+
+  if (!match) {
+    throw new ValidationError(fieldName, amount, "Must be a non-negative decimal amount");
+  }
+
+  const whole = match[1].replace(/^0+(?=\d)/, "");
+  const fraction = (match[2] ?? "").replace(/0+$/, "");
+
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/**
+ * Converts a whole-unit amount to smallest units
+ *
+ * @param amount - Decimal string or number, in whole units
+ * @param decimals - Token decimals
+ * @param rounding - What to do with digits beyond `decimals`
+ * @returns Amount in smallest units
+ * @throws {ValidationError} If the amount is invalid, or not exact with "exact"
+ *
+ * @example
+ * ```typescript
+ * parseUnits("1.5", 6);            // 1500000n
+ * parseUnits("0.1234567", 6);      // 123456n (rounded down)
+ * parseUnits("0.1234567", 6, "up"); // 123457n
+ * ```
+ */
+export function parseUnits(
+  amount: DecimalAmount,
+  decimals: number,
+  rounding: Rounding = "down"
+): bigint {
+  const [whole, fraction = ""] = toDecimalString(amount).split(".");
+  const kept = fraction.slice(0, decimals).padEnd(decimals, "0");
+  const dropped = fraction.slice(decimals);
+
+  const value = BigInt(`${whole}${kept}`);
+
+  if (!/[1-9]/.test(dropped)) {
+    return value;
+  }
+
+  if (rounding === "exact") {
+    throw new ValidationError(
+      "amount",
+      amount,
+      `Has more than ${decimals} decimal places`
+    );
+  }
+
+  return rounding === "up" ? value + 1n : value;
+}
+
+/**
+ * Formats an amount in smallest units as a whole-unit decimal string
+ *
+ * @param value - Amount in smallest units
+ * @param decimals - Token decimals
+ * @returns Decimal string, e.g. "1.5"
+ */
+export function formatUnits(value: bigint | string, decimals: number): string {
+  const amount = BigInt(value);
+  const negative = amount < 0n;
+  const digits = (negative ? -amount : amount).toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Compares two whole-unit amounts exactly
+ *
+ * @returns -1, 0 or 1
+ */
+export function compareAmounts(a: DecimalAmount, b: DecimalAmount): number {
+  const [aWhole, aFraction = ""] = toDecimalString(a).split(".");
+  const [bWhole, bFraction = ""] = toDecimalString(b).split(".");
+  const width = Math.max(aFraction.length, bFraction.length);
+
+  const left = BigInt(`${aWhole}${aFraction.padEnd(width, "0")}`);
+  const right = BigInt(`${bWhole}${bFraction.padEnd(width, "0")}`);
+
+  return left === right ? 0 : left > right ? 1 : -1;
+}
+
+/**
+ * Checks whether an amount is zero ("full balance" in transfer APIs)
+ */
+export function isZeroAmount(amount: DecimalAmount): boolean {
+  return toDecimalString(amount) === "0";
+}
+
+/**
+ * Adds a percentage to an amount in smallest units, rounding up
+ *
+ * @param amount - Amount in smallest units
+ * @param percent - Percentage to add, e.g. 10 or 2.5
+ * @returns Amount with the percentage added
+ */
+export function addPercent(amount: bigint, percent: number): bigint {
+  const basisPoints = 10_000n + BigInt(Math.round(percent * 100));
+  return (amount * basisPoints + 9_999n) / 10_000n;
+}
+
+/**
+ * Multiplies two whole-unit amounts exactly (e.g. a fee by a USD price)
+ *
+ * @param a - Decimal string or number
+ * @param b - Decimal string or number
+ * @param decimals - Decimal places kept in the product
+ * @param rounding - What to do with digits beyond `decimals`
+ * @returns Product as a decimal string
+ */
+export function multiplyAmounts(
+  a: DecimalAmount,
+  b: DecimalAmount,
+  decimals: number,
+  rounding: Rounding = "down"
+): string {
+  const [x, y] = [toDecimalString(a), toDecimalString(b)];
+  const scale = (value: string) => (value.split(".")[1] ?? "").length;
+  const product = parseUnits(x, scale(x)) * parseUnits(y, scale(y));
+
+  return formatUnits(parseUnits(formatUnits(product, scale(x) + scale(y)), decimals, rounding), decimals);
+}
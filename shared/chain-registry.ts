@@ -0,0 +1,268 @@
+/**
+ * Chain registry
+ *
+ * Single source of per-chain information (RPC endpoints, native asset,
+ * fee market, explorer, gas thresholds), loaded from chains.json at the
+ * repository root or from the file named by CHAIN_REGISTRY_PATH. Chains
+ * are looked up by chain ID, Fireblocks asset ID, name or alias.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ChainInfo } from "./types";
+import { ChainMismatchError, ConfigurationError } from "./errors";
+import { Logger } from "./logger";
+
+/**
+ * Default registry file
+ */
+const DEFAULT_REGISTRY_PATH = path.resolve(__dirname, "..", "chains.json");
+
+/**
+ * Matches `${ENV_VAR}` placeholders in RPC URLs
+ */
+const ENV_PLACEHOLDER = /\$\{(\w+)\}/g;
+
+/**
+ * Checks a registry entry, naming the offending field
+ *
+ * @throws {ConfigurationError} If a required field is missing or malformed
+ */
+function validateChain(chain: ChainInfo, index: number): void {
+  const checks: [boolean, string, string][] = [
+    [Number.isInteger(chain.chainId) && chain.chainId > 0, "chainId", "must be a positive integer"],
+    [!!chain.name, "name", "is required"],
+    [!!chain.nativeAssetId, "nativeAssetId", "is required"],
+    [!!chain.nativeSymbol, "nativeSymbol", "is required"],
+    [Array.isArray(chain.rpcUrls) && chain.rpcUrls.length > 0, "rpcUrls", "must list at least one URL"],
+    [typeof chain.eip1559 === "boolean", "eip1559", "must be true or false"],
+    [
+      chain.l1DataFee === undefined || ["op-stack", "arbitrum"].includes(chain.l1DataFee),
+      "l1DataFee",
+      'must be "op-stack" or "arbitrum"',
+    ],
+    [Number.isInteger(chain.gasDecimals), "gasDecimals", "must be an integer"],
+    [!!chain.explorerTxUrl?.includes("{hash}"), "explorerTxUrl", "must contain {hash}"],
+    [/^\d+(\.\d+)?$/.test(String(chain.minGasBalance)), "minGasBalance", "must be a decimal string"],
+  ];
+
+  for (const [valid, field, reason] of checks) {
+    if (!valid) {
+      throw new ConfigurationError(
+        `Chain #${index} (${chain.name ?? "unnamed"}): ${field} ${reason}`,
+        { operation: "validateChain" }
+      );
+    }
+  }
+}
+
+/**
+ * Lookup table over the configured chains
+ */
+export class ChainRegistry {
+  private readonly chainsById = new Map<number, ChainInfo>();
+  private readonly chainsByKey = new Map<string, ChainInfo>();
+
+  /**
+   * @param chains - Chain entries
+   * @throws {ConfigurationError} On malformed entries or duplicate keys
+   */
+  constructor(chains: readonly ChainInfo[]) {
+    chains.forEach((chain, index) => {
+      validateChain(chain, index);
+
+      if (this.chainsById.has(chain.chainId)) {
+        throw new ConfigurationError(`Duplicate chainId ${chain.chainId}`, {
+          operation: "ChainRegistry",
+        });
+      }
+      this.chainsById.set(chain.chainId, chain);
+
+      const keys = [
+        chain.name,
+        chain.nativeAssetId,
+        ...(chain.aliases ?? []),
+        ...(chain.assetIds ?? []),
+      ];
+
+      for (const key of keys) {
+        const existing = this.chainsByKey.get(key.toLowerCase());
+        if (existing && existing !== chain) {
+          throw new ConfigurationError(
+            `"${key}" maps to both ${existing.name} and ${chain.name}`,
+            { operation: "ChainRegistry" }
+          );
+        }
+        this.chainsByKey.set(key.toLowerCase(), chain);
+      }
+    });
+  }
+
+  /**
+   * Loads a registry from a JSON file (`{ "chains": [...] }`)
+   *
+   * @param filePath - Registry file
+   * @throws {ConfigurationError} If the file is missing or invalid
+   */
+  static fromFile(filePath: string): ChainRegistry {
+    if (!fs.existsSync(filePath)) {
+      throw new ConfigurationError(`Chain registry not found: ${filePath}`, {
+        operation: "ChainRegistry.fromFile",
+      });
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    const chains = Array.isArray(parsed) ? parsed : parsed.chains;
+
+    if (!Array.isArray(chains)) {
+      throw new ConfigurationError(`${filePath} must contain a "chains" array`, {
+        operation: "ChainRegistry.fromFile",
+      });
+    }
+
+    return new ChainRegistry(chains);
+  }
+
+  /**
+   * Lists every configured chain
+   */
+  all(): ChainInfo[] {
+    return [...this.chainsById.values()];
+  }
+
+  /**
+   * Finds a chain by chain ID, Fireblocks asset ID, name or alias
+   *
+   * @param key - Chain ID (number or numeric string) or name
+   * @returns Chain, or undefined if not configured
+   */
+  find(key: string | number): ChainInfo | undefined {
+    if (typeof key === "number" || /^\d+$/.test(key.trim())) {
+      const byId = this.chainsById.get(Number(key));
+      if (byId || typeof key === "number") {
+        return byId;
+      }
+    }
+
+    return this.chainsByKey.get(String(key).trim().toLowerCase());
+  }
+
+  /**
+   * Gets a chain by chain ID, Fireblocks asset ID, name or alias
+   *
+   * @param key - Chain ID or name
+   * @returns Chain
+   * @throws {ConfigurationError} If the chain is not configured
+   */
+  get(key: string | number): ChainInfo {
+    const chain = this.find(key);
+
+    if (!chain) {
+      throw new ConfigurationError(`Chain "${key}" is not in the chain registry`, {
+        operation: "ChainRegistry.get",
+      });
+    }
+
+    return chain;
+  }
+}
+
+/**
+ * Lists a chain's RPC URLs with `${ENV_VAR}` placeholders filled in
+ *
+ * URLs whose variables are not set are left out.
+ *
+ * @param chain - Chain
+ * @returns Usable RPC URLs in order of preference
+ */
+export function getRpcUrls(chain: ChainInfo): string[] {
+  return chain.rpcUrls
+    .filter((url) => [...url.matchAll(ENV_PLACEHOLDER)].every(([, name]) => process.env[name]))
+    .map((url) => url.replace(ENV_PLACEHOLDER, (_match, name) => process.env[name]!));
+}
+
+/**
+ * Gets a chain's preferred RPC URL
+ *
+ * @param chain - Chain
+ * @returns First usable RPC URL
+ * @throws {ConfigurationError} If no URL is usable (e.g. API key not set)
+ */
+export function getRpcUrl(chain: ChainInfo): string {
+  const [url] = getRpcUrls(chain);
+
+  if (!url) {
+    throw new ConfigurationError(
+      `No usable RPC URL for ${chain.name}; set the variables its rpcUrls reference`,
+      { operation: "getRpcUrl", chainId: chain.chainId }
+    );
+  }
+
+  return url;
+}
+
+/**
+ * Builds the explorer link for a transaction
+ *
+ * @param chain - Chain
+ * @param transactionHash - Transaction hash
+ * @returns Explorer URL
+ */
+export function getExplorerTxUrl(chain: ChainInfo, transactionHash: string): string {
+  return chain.explorerTxUrl.replace("{hash}", transactionHash);
+}
+
+/**
+ * Checks that an RPC's chain ID is a chain the Fireblocks asset lives on
+ *
+ * The expected chains come from `expectedChainIds` when given, otherwise
+ * from the registry entry for the asset. Assets the registry does not
+ * know are let through with a warning.
+ *
+ * @param assetId - Fireblocks asset ID being signed for
+ * @param chainId - Chain ID reported by the RPC
+ * @param expectedChainIds - Overrides the registry mapping
+ * @param registry - Registry to resolve the asset and chain names in
+ * @throws {ChainMismatchError} If the chain ID is not an expected one
+ */
+export function assertChainMatchesAsset(
+  assetId: string,
+  chainId: number,
+  expectedChainIds?: readonly number[],
+  registry: ChainRegistry = getChainRegistry()
+): void {
+  const expected = expectedChainIds?.length
+    ? expectedChainIds
+    : [registry.find(assetId)?.chainId].filter((id): id is number => id !== undefined);
+
+  if (expected.length === 0) {
+    Logger.warn(`Asset ${assetId} is not in the chain registry; chain ID ${chainId} not verified`);
+    return;
+  }
+
+  if (!expected.includes(chainId)) {
+    throw new ChainMismatchError(
+      assetId,
+      expected.map((id) => ({ chainId: id, name: registry.find(id)?.name })),
+      { chainId, name: registry.find(chainId)?.name },
+      { operation: "assertChainMatchesAsset", assetId }
+    );
+  }
+}
+
+let defaultRegistry: ChainRegistry | undefined;
+
+/**
+ * Gets the process-wide registry, loading it on first use
+ *
+ * @returns Registry from CHAIN_REGISTRY_PATH or the repository's chains.json
+ */
+export function getChainRegistry(): ChainRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = ChainRegistry.fromFile(
+      process.env.CHAIN_REGISTRY_PATH || DEFAULT_REGISTRY_PATH
+    );
+  }
+
+  return defaultRegistry;
+}
@@ -0,0 +1,35 @@
+/**
+ * Command-line option helpers for the EVM scripts
+ */
+
+/**
+ * Removes a `--flag [value]` option from an argument list
+ *
+ * @param args - Arguments (mutated: the option is removed)
+ * @param flag - Option name, e.g. "--value"
+ * @param hasValue - Whether the option takes a value
+ * @returns The value, `true` for a flag given without value, or undefined if absent
+ *
+ * @example
+ * ```typescript
+ * const args = process.argv.slice(2);
+ * const dryRun = takeOption(args, "--dry-run", false) === true;
+ * const value = takeOption(args, "--value", true);
+ * ```
+ */
+export function takeOption(
+  args: string[],
+  flag: string,
+  hasValue: boolean
+): string | boolean | undefined {
+  const index = args.indexOf(flag);
+  if (index < 0) {
+    return undefined;
+  }
+
+  const next = args[index + 1];
+  const takesValue = hasValue && next !== undefined && !next.startsWith("--");
+  args.splice(index, takesValue ? 2 : 1);
+
+  return takesValue ? next : true;
+}
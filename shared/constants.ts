@@ -12,11 +12,59 @@ export const GAS = {
   /** Standard gas limit for simple ETH transfers */
   SIMPLE_TRANSFER_LIMIT: 21000,
 
+  /** Typical gas used by an ERC20 transfer to a new holder, for fee estimates */
+  ERC20_TRANSFER_LIMIT: 65000,
+
   /** Gas estimation buffer multiplier (20% safety margin) */
   ESTIMATION_BUFFER: 1.2,
 
   /** Maximum gas price in gwei to prevent excessive fees */
   MAX_GAS_PRICE_GWEI: 500,
+
+  /** Fallback priority fee (tip) in gwei when the node cannot suggest one */
+  DEFAULT_PRIORITY_FEE_GWEI: 1.5,
+
+  /** Base fee multiplier for maxFeePerGas (survives ~6 full blocks of base fee growth) */
+  BASE_FEE_MULTIPLIER: 2,
+
+  /** Minimum fee bump (percent) nodes accept for a same-nonce replacement */
+  REPLACEMENT_MIN_BUMP_PERCENT: 10,
+
+  /** Default fee bump (percent) applied when speeding up or cancelling */
+  REPLACEMENT_DEFAULT_BUMP_PERCENT: 15,
+} as const;
+
+/**
+ * Native full-balance sweep settings
+ */
+export const SWEEP = {
+  /** Extra fee held back on top of the worst-case estimate (percent) */
+  SAFETY_MARGIN_PERCENT: 10,
+
+  /** OP Stack GasPriceOracle predeploy (L1 data fee) */
+  OP_GAS_PRICE_ORACLE: "0x420000000000000000000000000000000000000F",
+
+  /** Arbitrum NodeInterface (L1 gas estimate), reachable through eth_call only */
+  ARBITRUM_NODE_INTERFACE: "0x00000000000000000000000000000000000000C8",
+} as const;
+
+/**
+ * Gas top-up planning settings
+ */
+export const GAS_TOP_UP = {
+  /** Extra gas funded on top of the estimated sweep fees (percent) */
+  SAFETY_MARGIN_PERCENT: 10,
+} as const;
+
+/**
+ * Fee policy deferral settings
+ */
+export const FEE_POLICY = {
+  /** How often deferred fees are re-checked */
+  DEFER_POLL_INTERVAL_MS: 30000,
+
+  /** Longest a transaction waits for fees to come down */
+  MAX_DEFER_MS: 600000,
 } as const;
 
 /**
@@ -104,25 +152,89 @@ export const CSV = {
 } as const;
 
 /**
- * Network RPC endpoints (examples - should be configured per environment)
+ * Relay endpoints (chain RPCs live in the chain registry, chains.json)
  */
 export const RPC_ENDPOINTS = {
-  ETHEREUM_MAINNET: "https://eth-mainnet.g.alchemy.com/v2/",
-  ETHEREUM_SEPOLIA: "https://eth-sepolia.g.alchemy.com/v2/",
-  POLYGON_MAINNET: "https://polygon-rpc.com",
-  BSC_MAINNET: "https://bsc-dataseed.binance.org",
+  /** Flashbots Protect (private transactions, broadcast only) */
+  FLASHBOTS_PROTECT: "https://rpc.flashbots.net",
+
+  /** Flashbots relay (bundles and eth_sendPrivateTransaction) */
+  FLASHBOTS_RELAY: "https://relay.flashbots.net",
+} as const;
+
+/**
+ * ERC-2612 permit settings
+ */
+export const PERMIT = {
+  /** Seconds a signed permit stays valid */
+  DEADLINE_SECONDS: 3600,
+
+  /** Domain version assumed when the token has no version() getter */
+  DEFAULT_DOMAIN_VERSION: "1",
 } as const;
 
 /**
- * Common asset identifiers used by Fireblocks
+ * Token transfer behaviour classification
  */
-export const ASSETS = {
-  ETH: "ETH",
-  ETH_TEST3: "ETH_TEST3",
-  MATIC: "MATIC_POLYGON",
-  BTC: "BTC",
-  USDC: "USDC",
-  USDT: "USDT",
+export const TRANSFER_BEHAVIOUR = {
+  /** Smallest units share-based (rebasing) accounting may round a transfer by */
+  REBASING_ROUNDING_UNITS: 2n,
+} as const;
+
+/**
+ * Read-only balance scanning settings
+ */
+export const MULTICALL = {
+  /** Multicall3, deployed at the same address on most EVM chains */
+  ADDRESS: "0xcA11bde05977b3631167028862bE2a173976CA11",
+
+  /** Calls per aggregate3 request */
+  BATCH_SIZE: 500,
+
+  /** Requests per JSON-RPC batch when Multicall3 is not deployed */
+  RPC_BATCH_SIZE: 100,
+} as const;
+
+/**
+ * Token approval audit settings
+ */
+export const APPROVAL_AUDIT = {
+  /** Blocks per eth_getLogs request */
+  LOG_BLOCK_RANGE: 50_000,
+
+  /** Smallest range to split down to when a provider rejects a request */
+  MIN_LOG_BLOCK_RANGE: 500,
+
+  /** Allowances at or above this are reported as unlimited */
+  UNLIMITED_ALLOWANCE: 2n ** 255n,
+} as const;
+
+/**
+ * Private relay and bundle broadcast settings
+ */
+export const BROADCAST = {
+  /** Blocks a private transaction stays eligible for inclusion */
+  PRIVATE_TX_MAX_BLOCKS: 25,
+
+  /** Consecutive blocks a bundle is submitted for */
+  BUNDLE_TARGET_BLOCKS: 3,
+} as const;
+
+/**
+ * Multi-endpoint RPC failover settings
+ */
+export const RPC_FAILOVER = {
+  /** Blocks an endpoint may trail the best endpoint before it is skipped */
+  MAX_BLOCK_LAG: 5,
+
+  /** Minimum time between health checks */
+  HEALTH_CHECK_INTERVAL_MS: 30000,
+
+  /** How long a failing endpoint is skipped */
+  UNHEALTHY_COOLDOWN_MS: 60000,
+
+  /** Default per-endpoint request rate */
+  REQUESTS_PER_SECOND: 10,
 } as const;
 
 /**
@@ -229,4 +341,3 @@ export const SUCCESS_MESSAGES = {
 export type GasConstants = typeof GAS;
 export type PollingConstants = typeof POLLING;
 export type BalanceThresholds = typeof BALANCE_THRESHOLDS;
-export type AssetIds = typeof ASSETS;
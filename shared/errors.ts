@@ -5,7 +5,7 @@
  * for better debugging and error reporting.
  */
 
-import { ErrorContext } from "./types";
+import { ErrorContext, FeeLimitKind } from "./types";
 
 /**
  * Base error class for all Fireblocks-related errors
@@ -59,6 +59,95 @@ export class TransactionError extends FireblocksError {
   }
 }
 
+/**
+ * Error thrown when a Fireblocks signature does not match what was requested
+ */
+export class SignatureVerificationError extends TransactionError {
+  public readonly expected: string;
+  public readonly actual: string;
+
+  constructor(
+    message: string,
+    expected: string,
+    actual: string,
+    transactionId?: string,
+    context?: ErrorContext
+  ) {
+    super(
+      `Signature verification failed: ${message} (expected ${expected}, got ${actual})`,
+      transactionId,
+      "SIGNATURE_MISMATCH",
+      context
+    );
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/**
+ * Error thrown when the RPC's chain is not the chain of the Fireblocks asset
+ */
+export class ChainMismatchError extends TransactionError {
+  public readonly assetId: string;
+  public readonly expectedChainIds: readonly number[];
+  public readonly actualChainId: number;
+
+  constructor(
+    assetId: string,
+    expectedChains: readonly { chainId: number; name?: string }[],
+    actualChain: { chainId: number; name?: string },
+    context?: ErrorContext
+  ) {
+    const describe = (chain: { chainId: number; name?: string }) =>
+      chain.name ? `${chain.name} (${chain.chainId})` : `chain ${chain.chainId}`;
+
+    super(
+      `Asset ${assetId} belongs to ${expectedChains.map(describe).join(" or ")}, ` +
+        `but the RPC is on ${describe(actualChain)}; refusing to sign`,
+      undefined,
+      "CHAIN_MISMATCH",
+      context
+    );
+    this.assetId = assetId;
+    this.expectedChainIds = expectedChains.map((chain) => chain.chainId);
+    this.actualChainId = actualChain.chainId;
+  }
+}
+
+/**
+ * Error thrown when a transaction would exceed a fee policy limit
+ */
+export class FeeLimitExceededError extends TransactionError {
+  public readonly limit: FeeLimitKind;
+  public readonly actualValue: string;
+  public readonly limitValue: string;
+
+  constructor(limit: FeeLimitKind, actual: string, allowed: string, context?: ErrorContext) {
+    const subject = {
+      gasPrice: "Gas price",
+      transactionFee: "Transaction fee",
+      batchBudget: "Batch fee spend",
+    }[limit];
+
+    super(
+      `${subject} ${actual} exceeds the limit of ${allowed}`,
+      undefined,
+      "FEE_LIMIT_EXCEEDED",
+      context
+    );
+    this.limit = limit;
+    this.actualValue = actual;
+    this.limitValue = allowed;
+  }
+
+  /**
+   * Whether waiting for lower network fees can clear the error
+   */
+  get deferrable(): boolean {
+    return this.limit !== "batchBudget";
+  }
+}
+
 /**
  * Error thrown when balance is insufficient
  */
@@ -0,0 +1,223 @@
+/**
+ * Gas price ceilings and fee budgets for EVM transactions
+ *
+ * Checked right before a transaction is sent to Fireblocks for signing,
+ * against the worst case the signed transaction allows (gas limit times
+ * maxFeePerGas or gasPrice):
+ * - a per-chain gas price ceiling (GAS.MAX_GAS_PRICE_GWEI by default)
+ * - a per-chain maximum fee per transaction
+ * - a per-chain fee budget for the whole run, so a gas spike cannot
+ *   spend more on a batch than intended
+ *
+ * Budget spend is reserved at signing and given back if signing or the
+ * broadcast fails. Worst-case fees are counted, so the real spend is
+ * lower than reported.
+ */
+
+import { FeeLimits, FeePolicyOptions } from "./types";
+import { FeeLimitExceededError } from "./errors";
+import { GAS, FEE_POLICY } from "./constants";
+import { formatUnits, parseUnits } from "./amounts";
+import { getChainRegistry } from "./chain-registry";
+
+/**
+ * Gas price unit used in limits and messages
+ */
+const GWEI_DECIMALS = 9;
+
+/**
+ * Per-chain fee policy
+ *
+ * @example
+ * ```typescript
+ * const policy = new FeePolicy({
+ *   defaults: { maxGasPriceGwei: 80 },
+ *   chains: { 1: { maxTransactionFee: "0.01", batchBudget: "0.5" } },
+ *   onExceeded: "defer",
+ * });
+ *
+ * const fee = policy.authorize(chainId, gasLimit, maxFeePerGas);
+ * try {
+ *   await signSomehow();
+ * } catch (error) {
+ *   policy.release(chainId, fee);
+ *   throw error;
+ * }
+ * ```
+ */
+export class FeePolicy {
+  private readonly spentByChain = new Map<number, bigint>();
+  private readonly options: FeePolicyOptions;
+
+  constructor(options: FeePolicyOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Whether exceeded gas price / transaction fee limits should be waited out
+   */
+  get defers(): boolean {
+    return this.options.onExceeded === "defer";
+  }
+
+  /**
+   * Longest a transaction may be deferred
+   */
+  get maxDeferMs(): number {
+    return this.options.maxDeferMs ?? FEE_POLICY.MAX_DEFER_MS;
+  }
+
+  /**
+   * Time between re-checks while deferred
+   */
+  get deferPollIntervalMs(): number {
+    return this.options.deferPollIntervalMs ?? FEE_POLICY.DEFER_POLL_INTERVAL_MS;
+  }
+
+  /**
+   * Gets the limits that apply on a chain
+   *
+   * @param chainId - Chain ID
+   * @returns Defaults merged with the chain's overrides
+   */
+  limitsFor(chainId: number): FeeLimits {
+    return {
+      maxGasPriceGwei: GAS.MAX_GAS_PRICE_GWEI,
+      ...this.options.defaults,
+      ...this.options.chains?.[chainId],
+    };
+  }
+
+  /**
+   * Checks a transaction against the chain's limits without reserving
+   *
+   * @param chainId - Chain ID
+   * @param gasLimit - Gas limit, or undefined to check the gas price only
+   * @param pricePerGas - Worst-case price per gas in wei
+   * @returns The first limit exceeded, or undefined
+   */
+  check(
+    chainId: number,
+    gasLimit: bigint | undefined,
+    pricePerGas: bigint
+  ): FeeLimitExceededError | undefined {
+    const limits = this.limitsFor(chainId);
+    const context = { operation: "FeePolicy.check", chainId };
+
+    if (limits.maxGasPriceGwei !== undefined) {
+      const ceiling = parseUnits(limits.maxGasPriceGwei, GWEI_DECIMALS);
+
+      if (pricePerGas > ceiling) {
+        return new FeeLimitExceededError(
+          "gasPrice",
+          `${formatUnits(pricePerGas, GWEI_DECIMALS)} gwei`,
+          `${limits.maxGasPriceGwei} gwei`,
+          context
+        );
+      }
+    }
+
+    if (gasLimit === undefined) {
+      return undefined;
+    }
+
+    const fee = gasLimit * pricePerGas;
+    const { decimals, symbol } = this.nativeUnit(chainId);
+
+    if (limits.maxTransactionFee !== undefined) {
+      const maxFee = parseUnits(limits.maxTransactionFee, decimals);
+
+      if (fee > maxFee) {
+        return new FeeLimitExceededError(
+          "transactionFee",
+          `${formatUnits(fee, decimals)} ${symbol}`,
+          `${formatUnits(maxFee, decimals)} ${symbol}`,
+          context
+        );
+      }
+    }
+
+    if (limits.batchBudget !== undefined) {
+      const budget = parseUnits(limits.batchBudget, decimals);
+      const total = this.getSpent(chainId) + fee;
+
+      if (total > budget) {
+        return new FeeLimitExceededError(
+          "batchBudget",
+          `${formatUnits(total, decimals)} ${symbol}`,
+          `${formatUnits(budget, decimals)} ${symbol}`,
+          context
+        );
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Checks a transaction and reserves its worst-case fee against the budget
+   *
+   * @param chainId - Chain ID
+   * @param gasLimit - Gas limit
+   * @param pricePerGas - Worst-case price per gas in wei
+   * @returns Reserved fee in wei, to pass to {@link release} on failure
+   * @throws {FeeLimitExceededError} If any limit is exceeded
+   */
+  authorize(chainId: number, gasLimit: bigint, pricePerGas: bigint): bigint {
+    const violation = this.check(chainId, gasLimit, pricePerGas);
+
+    if (violation) {
+      throw violation;
+    }
+
+    const fee = gasLimit * pricePerGas;
+    this.spentByChain.set(chainId, this.getSpent(chainId) + fee);
+    return fee;
+  }
+
+  /**
+   * Gives back a fee reserved for a transaction that was never sent
+   *
+   * @param chainId - Chain ID
+   * @param fee - Fee returned by {@link authorize}
+   */
+  release(chainId: number, fee: bigint): void {
+    const spent = this.getSpent(chainId) - fee;
+    this.spentByChain.set(chainId, spent > 0n ? spent : 0n);
+  }
+
+  /**
+   * Gets the worst-case fees reserved on a chain so far
+   *
+   * @param chainId - Chain ID
+   * @returns Fees in wei
+   */
+  getSpent(chainId: number): bigint {
+    return this.spentByChain.get(chainId) ?? 0n;
+  }
+
+  /**
+   * Clears all reserved fees, e.g. between batch runs
+   */
+  reset(): void {
+    this.spentByChain.clear();
+  }
+
+  /**
+   * Native unit of a chain for fee amounts
+   */
+  private nativeUnit(chainId: number): { decimals: number; symbol: string } {
+    const chain = getChainRegistry().find(chainId);
+    return chain
+      ? { decimals: chain.gasDecimals, symbol: chain.nativeSymbol }
+      : { decimals: 18, symbol: "native" };
+  }
+}
+
+/**
+ * Process-wide fee policy used by every Web3 instance by default
+ *
+ * Only enforces GAS.MAX_GAS_PRICE_GWEI; pass a configured FeePolicy
+ * for per-transaction limits and batch budgets.
+ */
+export const feePolicy = new FeePolicy();
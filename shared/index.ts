@@ -25,9 +25,20 @@ export * from "./errors";
 
 // Transaction utilities
 export * from "./transaction-poller";
+export * from "./nonce-manager";
+export * from "./fee-policy";
 
 // Validation
 export * from "./validators";
 
+// Exact amount conversion
+export * from "./amounts";
+
+// Chain registry
+export * from "./chain-registry";
+
+// Command-line helpers
+export * from "./cli-options";
+
 // Configuration
 export * from "./config";
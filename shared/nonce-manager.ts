@@ -0,0 +1,294 @@
+/**
+ * Local nonce management for raw-signed EVM transactions
+ *
+ * Fireblocks RAW signing can take minutes per transaction, so asking the
+ * node for `getTransactionCount` at signing time hands the same nonce to
+ * every concurrent transfer from one address. This manager reserves nonces
+ * per (chain, address), tracks which are in flight, lets failed signatures
+ * give their nonce back and reports gaps that would block later transactions.
+ */
+
+import { Logger } from "./logger";
+
+/**
+ * Nonce bookkeeping for a single (chain, address) pair
+ */
+interface AccountNonceState {
+  /** Next never-used nonce */
+  nextNonce: number;
+  /** Nonces handed out and currently being signed */
+  readonly reserved: Set<number>;
+  /** Nonces signed and broadcast but not yet mined */
+  readonly submitted: Set<number>;
+  /** Nonces given back by failed signatures, reused first */
+  released: number[];
+  /** Tail of the per-account lock chain */
+  lock: Promise<void>;
+}
+
+/**
+ * Nonce usage snapshot for an account
+ */
+export interface NonceStatus {
+  readonly chainId: number;
+  readonly address: string;
+  readonly nextNonce: number;
+  readonly reserved: number[];
+  readonly submitted: number[];
+  readonly released: number[];
+  readonly pendingCount: number;
+}
+
+/**
+ * Per-(chain, address) nonce manager
+ *
+ * @example
+ * ```typescript
+ * const nonce = await nonceManager.reserve(web3, chainId, address);
+ * try {
+ *   const raw = await signSomehow(nonce);
+ *   nonceManager.markSubmitted(chainId, address, nonce);
+ * } catch (error) {
+ *   nonceManager.release(chainId, address, nonce);
+ *   throw error;
+ * }
+ * ```
+ */
+export class NonceManager {
+  private readonly accounts = new Map<string, AccountNonceState>();
+
+  /**
+   * Reserves the next nonce for an address
+   *
+   * Re-syncs with the node's pending transaction count on every call, so
+   * transactions sent outside this process are never collided with.
+   *
+   * @param web3 - Web3 instance connected to the chain
+   * @param chainId - Chain ID
+   * @param address - Sender address
+   * @returns Reserved nonce
+   */
+  async reserve(web3: any, chainId: number, address: string): Promise<number> {
+    return this.withLock(chainId, address, async (state) => {
+      const chainNonce = Number(
+        await web3.eth.getTransactionCount(address, "pending")
+      );
+
+      this.sync(state, chainNonce);
+
+      // Released nonces are refilled below; anything else was dropped
+      const gaps = this.findGaps(state, chainNonce).filter(
+        (nonce) => !state.released.includes(nonce)
+      );
+      if (gaps.length > 0) {
+        Logger.warn(
+          `Nonce gap detected for ${address} on chain ${chainId}: ${gaps.join(", ")}`
+        );
+      }
+
+      const nonce =
+        state.released.length > 0 ? state.released.shift()! : state.nextNonce++;
+
+      state.reserved.add(nonce);
+      Logger.debug(`Reserved nonce ${nonce} for ${address} on chain ${chainId}`);
+
+      return nonce;
+    });
+  }
+
+  /**
+   * Marks a reserved nonce as broadcast
+   *
+   * @param chainId - Chain ID
+   * @param address - Sender address
+   * @param nonce - Nonce that was broadcast
+   */
+  markSubmitted(chainId: number, address: string, nonce: number): void {
+    const state = this.getState(chainId, address);
+    state.reserved.delete(nonce);
+    state.submitted.add(nonce);
+  }
+
+  /**
+   * Gives a nonce back after a failed signature or broadcast
+   *
+   * The nonce is handed out again by the next {@link reserve} call so
+   * that no gap is left behind.
+   *
+   * @param chainId - Chain ID
+   * @param address - Sender address
+   * @param nonce - Nonce to release
+   */
+  release(chainId: number, address: string, nonce: number): void {
+    const state = this.getState(chainId, address);
+
+    if (!state.reserved.delete(nonce) && !state.submitted.delete(nonce)) {
+      return;
+    }
+
+    if (nonce === state.nextNonce - 1 && state.reserved.size === 0) {
+      state.nextNonce = nonce;
+    } else {
+      state.released = [...state.released, nonce].sort((a, b) => a - b);
+    }
+
+    Logger.warn(`Released nonce ${nonce} for ${address} on chain ${chainId}`);
+  }
+
+  /**
+   * Counts transactions that are being signed or waiting to be mined
+   *
+   * @param chainId - Chain ID
+   * @param address - Sender address
+   * @returns Number of in-flight nonces
+   */
+  getPendingCount(chainId: number, address: string): number {
+    const state = this.accounts.get(NonceManager.key(chainId, address));
+    return state ? state.reserved.size + state.submitted.size : 0;
+  }
+
+  /**
+   * Detects nonces that would block later transactions from being mined
+   *
+   * A gap is any nonce between the node's pending count and our next
+   * nonce that is not currently being signed, e.g. a released nonce or a
+   * submitted transaction the node no longer knows about (dropped from
+   * the mempool).
+   *
+   * @param web3 - Web3 instance connected to the chain
+   * @param chainId - Chain ID
+   * @param address - Sender address
+   * @returns Sorted list of missing nonces
+   */
+  async detectGaps(web3: any, chainId: number, address: string): Promise<number[]> {
+    const state = this.accounts.get(NonceManager.key(chainId, address));
+
+    if (!state) {
+      return [];
+    }
+
+    const pendingNonce = Number(
+      await web3.eth.getTransactionCount(address, "pending")
+    );
+
+    return this.findGaps(state, pendingNonce);
+  }
+
+  /**
+   * Returns a snapshot of the nonce state for an address
+   *
+   * @param chainId - Chain ID
+   * @param address - Sender address
+   * @returns Nonce status
+   */
+  getStatus(chainId: number, address: string): NonceStatus {
+    const state = this.getState(chainId, address);
+
+    return {
+      chainId,
+      address,
+      nextNonce: state.nextNonce,
+      reserved: [...state.reserved].sort((a, b) => a - b),
+      submitted: [...state.submitted].sort((a, b) => a - b),
+      released: [...state.released],
+      pendingCount: state.reserved.size + state.submitted.size,
+    };
+  }
+
+  /**
+   * Forgets all state for an address
+   *
+   * @param chainId - Chain ID
+   * @param address - Sender address
+   */
+  reset(chainId: number, address: string): void {
+    this.accounts.delete(NonceManager.key(chainId, address));
+  }
+
+  /**
+   * Builds the map key for a (chain, address) pair
+   */
+  private static key(chainId: number, address: string): string {
+    return `${chainId}:${address.toLowerCase()}`;
+  }
+
+  /**
+   * Gets or creates the state for a (chain, address) pair
+   */
+  private getState(chainId: number, address: string): AccountNonceState {
+    const key = NonceManager.key(chainId, address);
+    let state = this.accounts.get(key);
+
+    if (!state) {
+      state = {
+        nextNonce: -1,
+        reserved: new Set(),
+        submitted: new Set(),
+        released: [],
+        lock: Promise.resolve(),
+      };
+      this.accounts.set(key, state);
+    }
+
+    return state;
+  }
+
+  /**
+   * Runs a function while holding the per-account lock
+   */
+  private async withLock<T>(
+    chainId: number,
+    address: string,
+    fn: (state: AccountNonceState) => Promise<T>
+  ): Promise<T> {
+    const state = this.getState(chainId, address);
+    const previous = state.lock;
+    let unlock!: () => void;
+    state.lock = new Promise<void>((resolve) => (unlock = resolve));
+
+    await previous;
+
+    try {
+      return await fn(state);
+    } finally {
+      unlock();
+    }
+  }
+
+  /**
+   * Aligns local state with the node's pending nonce
+   */
+  private sync(state: AccountNonceState, chainNonce: number): void {
+    // Mined or externally sent nonces are no longer ours to track
+    for (const nonce of state.submitted) {
+      if (nonce < chainNonce) {
+        state.submitted.delete(nonce);
+      }
+    }
+    state.released = state.released.filter((nonce) => nonce >= chainNonce);
+
+    if (chainNonce > state.nextNonce) {
+      state.nextNonce = chainNonce;
+    }
+  }
+
+  /**
+   * Lists nonces in [fromNonce, nextNonce) that are not being signed
+   */
+  private findGaps(state: AccountNonceState, fromNonce: number): number[] {
+    const gaps: number[] = [];
+
+    for (let nonce = fromNonce; nonce < state.nextNonce; nonce++) {
+      if (!state.reserved.has(nonce)) {
+        gaps.push(nonce);
+      }
+    }
+
+    return gaps;
+  }
+}
+
+/**
+ * Process-wide nonce manager shared by every Web3 instance by default
+ */
+export const nonceManager = new NonceManager();
@@ -7,6 +7,15 @@
 
 import { FireblocksSDK, TransactionStatus } from "fireblocks-sdk";
 import { Contract } from "web3-eth-contract";
+import { NonceManager } from "./nonce-manager";
+import { FeePolicy } from "./fee-policy";
+
+/**
+ * Amount in whole units: a decimal string ("1.5"), or a number for
+ * backward compatibility. Converted to bigint smallest units via
+ * parseUnits (shared/amounts) without floating point.
+ */
+export type DecimalAmount = string | number;
 
 /**
  * Fireblocks API credentials configuration
@@ -25,10 +34,91 @@ export interface Web3InitParams {
   readonly vaultAccountId: string | number;
   readonly assetId: string;
   readonly tokenName?: string;
-  readonly amount: number;
+  readonly amount: DecimalAmount;
   readonly destAddress: string;
   readonly filename?: string;
   readonly existingTransactionId?: string;
+  /** Nonce manager shared across concurrent signers (defaults to the process-wide one) */
+  readonly nonceManager?: NonceManager;
+  /** Overrides the generated Fireblocks transaction note */
+  readonly note?: string;
+  /** Sign through Fireblocks and export to a JSON file instead of broadcasting */
+  readonly signOnly?: boolean;
+  /** Directory for sign-only export files (defaults to the working directory) */
+  readonly exportDirectory?: string;
+  /** Where signed transactions are sent (defaults to eth_sendRawTransaction on httpProviderUrl) */
+  readonly broadcaster?: TransactionBroadcaster;
+  /** Extra RPC endpoints to fail over to for reads when httpProviderUrl is unhealthy */
+  readonly fallbackProviderUrls?: readonly string[];
+  /** Failover behaviour when fallbackProviderUrls are given */
+  readonly rpcFailover?: FailoverProviderOptions;
+  /** Chain IDs signing is allowed on (defaults to the asset's chain in the chain registry) */
+  readonly expectedChainIds?: readonly number[];
+  /** Gas price and fee limits checked before signing (defaults to the process-wide one) */
+  readonly feePolicy?: FeePolicy;
+}
+
+/**
+ * How a failover provider picks among healthy endpoints
+ * - "priority": always the first healthy endpoint in configured order
+ * - "round-robin": rotate through healthy endpoints
+ */
+export type FailoverStrategy = "priority" | "round-robin";
+
+/**
+ * RPC endpoint of a failover provider
+ */
+export interface RpcEndpointConfig {
+  readonly url: string;
+  /** Overrides the provider-wide request rate for this endpoint */
+  readonly requestsPerSecond?: number;
+}
+
+/**
+ * Options for a multi-endpoint failover provider
+ */
+export interface FailoverProviderOptions {
+  /** Endpoints reporting another chain ID are never used */
+  readonly expectedChainId?: number;
+  readonly strategy?: FailoverStrategy;
+  /** Blocks an endpoint may trail the best one before it is skipped */
+  readonly maxBlockLag?: number;
+  readonly healthCheckIntervalMs?: number;
+  /** Default per-endpoint request rate */
+  readonly requestsPerSecond?: number;
+  /** Attempts per idempotent read, across endpoints */
+  readonly maxAttempts?: number;
+  readonly requestTimeoutMs?: number;
+}
+
+/**
+ * Outcome of a failover provider health check for one endpoint
+ */
+export interface RpcEndpointHealth {
+  /** Endpoint host (URLs may embed API keys) */
+  readonly endpoint: string;
+  readonly healthy: boolean;
+  readonly chainId?: number;
+  readonly blockNumber?: number;
+  readonly reason?: string;
+}
+
+/**
+ * Submits signed raw transactions to the network
+ *
+ * Implementations decide where the transaction goes (public mempool,
+ * private relay, bundle) independently of the RPC used for reads.
+ */
+export interface TransactionBroadcaster {
+  readonly name: string;
+
+  /**
+   * Broadcasts a signed transaction
+   *
+   * @param rawTransaction - 0x-prefixed serialized signed transaction
+   * @returns Transaction hash
+   */
+  broadcast(rawTransaction: string): Promise<string>;
 }
 
 /**
@@ -41,11 +131,37 @@ export interface TransferParams {
   readonly recipientAddress: string;
   readonly assetIdentifier: string;
   readonly assetSymbol: string;
-  readonly transferAmount?: number;
+  readonly transferAmount?: DecimalAmount;
   readonly erc20ContractAddress?: string;
   readonly transactionFilename?: string;
   readonly existingTransactionId?: string;
   readonly destinationVault?: number;
+  /** Pre-compute an EIP-2930 access list for ERC20 transfers (eth_createAccessList) */
+  readonly useAccessList?: boolean;
+  readonly nonceManager?: NonceManager;
+  /** Sign only and export the signed transaction instead of broadcasting */
+  readonly signOnly?: boolean;
+  readonly exportDirectory?: string;
+  readonly broadcaster?: TransactionBroadcaster;
+  /** Gas-funded vault that submits permit + transferFrom for ERC-2612 tokens */
+  readonly permitRelayerVaultId?: string | number;
+  /** ERC-721 / ERC-1155 contract to transfer tokens from */
+  readonly nftContractAddress?: string;
+  /** Token IDs (all enumerable ERC-721 tokens if omitted; required for ERC-1155) */
+  readonly nftTokenIds?: readonly string[];
+  /** NFT standard, detected via ERC-165 if omitted */
+  readonly nftStandard?: NftStandard;
+  /** Skip the pre-flight eth_call simulation of native and ERC20 transfers */
+  readonly skipSimulation?: boolean;
+  /** ERC20 only: send the whole token balance, whatever the token's transfer fee */
+  readonly sweepEntireBalance?: boolean;
+  /** Extra RPC endpoints to fail over to when ethereumProviderUrl is unhealthy */
+  readonly fallbackProviderUrls?: readonly string[];
+  /** Chain IDs signing is allowed on, e.g. when signing with the ETH key on another chain */
+  readonly expectedChainIds?: readonly number[];
+  readonly feePolicy?: FeePolicy;
+  /** Native full-balance sweeps: extra fee held back, in percent */
+  readonly sweepSafetyMarginPercent?: number;
 }
 
 /**
@@ -54,9 +170,11 @@ export interface TransferParams {
 export interface InternalTransferParams {
   readonly fireblocksApiClient: FireblocksSDK;
   readonly assetId: string;
-  readonly amount: number;
+  readonly amount: DecimalAmount;
   readonly sourceVaultId: string | number;
   readonly destinationVaultId: string | number;
+  /** Full-balance transfers (amount 0) of native assets: extra fee held back, in percent */
+  readonly sweepSafetyMarginPercent?: number;
 }
 
 /**
@@ -66,7 +184,294 @@ export interface ERC20TransferParams {
   readonly web3: any; // Web3 instance
   readonly contractAddress: string;
   readonly recipientAddress: string;
-  readonly amount: number;
+  readonly amount: DecimalAmount;
+  readonly useAccessList?: boolean;
+  readonly signOnly?: boolean;
+  readonly skipSimulation?: boolean;
+  /** Ignore `amount` and send the balance read right before encoding */
+  readonly sweepEntireBalance?: boolean;
+  readonly feePolicy?: FeePolicy;
+}
+
+/**
+ * How a token's transfers move balances
+ *
+ * - standard: recipient receives exactly the amount sent
+ * - fee-on-transfer: one side moves exactly the amount and the other
+ *   pays for a fee (recipient credited less, or sender debited more)
+ * - rebasing: both deltas are within a few units of the amount
+ *   (share-based accounting rounding)
+ * - unknown: the node could not replay the transfer with balance reads,
+ *   or the deltas match none of the above
+ */
+export type TokenTransferBehaviour = "standard" | "fee-on-transfer" | "rebasing" | "unknown";
+
+/**
+ * Outcome of an ERC20 transfer
+ */
+export interface Erc20TransferResult {
+  readonly transactionHash?: string;
+  /** Amount in the transfer call, in smallest units */
+  readonly sentAmount: string;
+  /**
+   * Amount credited to the recipient, in smallest units: from the
+   * receipt's Transfer logs once mined, from simulation otherwise
+   */
+  readonly receivedAmount?: string;
+  readonly behaviour: TokenTransferBehaviour;
+}
+
+/**
+ * Outcome of a native token transfer
+ */
+export interface NativeTransferResult {
+  readonly transactionHash?: string;
+  /** Amount sent, in smallest units (the computed amount for sweeps) */
+  readonly sentAmount: string;
+  /** Transaction receipt (undefined in sign-only mode) */
+  readonly receipt?: any;
+}
+
+/**
+ * Supported NFT standards
+ */
+export type NftStandard = "erc721" | "erc1155";
+
+/**
+ * Token held in an NFT contract
+ */
+export interface NftHolding {
+  readonly tokenId: string;
+  /** Always "1" for ERC-721 */
+  readonly amount: string;
+}
+
+/**
+ * Parameters for NFT transfers
+ */
+export interface NftTransferParams {
+  readonly web3: any; // Web3 instance
+  readonly contractAddress: string;
+  readonly recipientAddress: string;
+  readonly tokenIds?: readonly string[];
+  readonly standard?: NftStandard;
+  readonly signOnly?: boolean;
+  readonly feePolicy?: FeePolicy;
+}
+
+/**
+ * Parameters for ERC-2612 permit sweeps
+ */
+export interface PermitSweepParams {
+  readonly web3: any; // Token-holding vault, signs the permit
+  readonly relayerWeb3: any; // Gas-funded vault, submits permit + transferFrom
+  readonly contractAddress: string;
+  readonly recipientAddress: string;
+  readonly amount: DecimalAmount;
+  readonly feePolicy?: FeePolicy;
+}
+
+/**
+ * Signed ERC-2612 permit
+ */
+export interface PermitSignature {
+  readonly owner: string;
+  readonly spender: string;
+  readonly value: string;
+  readonly nonce: string;
+  readonly deadline: number;
+  readonly v: number;
+  readonly r: string;
+  readonly s: string;
+}
+
+/**
+ * Parameters for an arbitrary contract call
+ *
+ * The function is identified either by `functionSignature`
+ * (e.g. "claim(uint256,address)") or by `abiPath` plus `functionName`
+ * (a name, or a full signature to pick an overload).
+ */
+export interface ContractCallParams {
+  readonly fireblocksApiClient: FireblocksSDK;
+  readonly httpProviderUrl: string;
+  readonly vaultAccountId: string | number;
+  readonly assetId: string;
+  readonly contractAddress: string;
+  readonly functionSignature?: string;
+  readonly abiPath?: string;
+  readonly functionName?: string;
+  readonly args?: readonly any[];
+  /** Native value to send, in ether units */
+  readonly value?: string | number;
+  /** Encode, estimate and preview only; nothing is signed */
+  readonly dryRun?: boolean;
+  readonly signOnly?: boolean;
+  readonly exportDirectory?: string;
+  readonly nonceManager?: NonceManager;
+  readonly broadcaster?: TransactionBroadcaster;
+}
+
+/**
+ * Decoded preview of a contract call
+ */
+export interface ContractCallPreview {
+  readonly from: string;
+  readonly to: string;
+  readonly signature: string;
+  readonly selector: string;
+  readonly args: Record<string, string>;
+  readonly valueWei: string;
+  readonly data: string;
+  readonly gasLimit?: number;
+  readonly readOnly: boolean;
+}
+
+/**
+ * Result of a contract call
+ */
+export interface ContractCallResult {
+  readonly preview: ContractCallPreview;
+  /** Decoded return values of a view/pure call */
+  readonly returnValues?: Record<string, string>;
+  readonly transactionHash?: string;
+}
+
+/**
+ * Parameters for deploying a contract from a vault
+ *
+ * Bytecode comes from `bytecode` or a compiler artifact (`artifactPath`,
+ * JSON with `bytecode` and `abi`). Constructor arguments are encoded with
+ * the artifact ABI or with `constructorSignature`, e.g.
+ * "constructor(address,uint256)".
+ */
+export interface DeployContractParams {
+  readonly fireblocksApiClient: FireblocksSDK;
+  readonly httpProviderUrl: string;
+  readonly vaultAccountId: string | number;
+  readonly assetId: string;
+  readonly bytecode?: string;
+  readonly artifactPath?: string;
+  readonly constructorSignature?: string;
+  readonly args?: readonly any[];
+  /** Native value to send to the constructor, in ether units */
+  readonly value?: string | number;
+  /** Encode, estimate and preview only; nothing is signed */
+  readonly dryRun?: boolean;
+  readonly signOnly?: boolean;
+  readonly exportDirectory?: string;
+  readonly nonceManager?: NonceManager;
+  readonly broadcaster?: TransactionBroadcaster;
+}
+
+/**
+ * Result of a contract deployment
+ */
+export interface DeploymentResult {
+  readonly deployer: string;
+  readonly nonce: number;
+  /** Address derived from deployer and nonce */
+  readonly contractAddress: string;
+  readonly gasLimit: number;
+  readonly transactionHash?: string;
+  /** Whether the receipt and on-chain code confirmed the address */
+  readonly confirmed: boolean;
+}
+
+/**
+ * Chain scanned by the approval audit
+ */
+export interface AuditChain {
+  readonly assetId: string;
+  readonly rpcUrl: string;
+  /** Local JSON file of eth_getLogs-style logs, used instead of the RPC */
+  readonly logFile?: string;
+  /** First block to scan (defaults to 0) */
+  readonly fromBlock?: number;
+}
+
+/**
+ * Parameters for a token approval audit
+ */
+export interface ApprovalAuditParams {
+  readonly fireblocksApiClient: FireblocksSDK;
+  readonly vaultAccountId: string | number;
+  readonly chains: readonly AuditChain[];
+  readonly nonceManager?: NonceManager;
+}
+
+/**
+ * Kind of approval
+ * - erc20: ERC20 allowance (Approval event, approve)
+ * - operator: ERC-721/ERC-1155 operator (ApprovalForAll, setApprovalForAll)
+ */
+export type ApprovalKind = "erc20" | "operator";
+
+/**
+ * Live approval granted by a vault address
+ */
+export interface ApprovalRecord {
+  readonly assetId: string;
+  readonly owner: string;
+  readonly token: string;
+  readonly spender: string;
+  readonly kind: ApprovalKind;
+  /** Current allowance in smallest units ("1" for operator approvals) */
+  readonly allowance: string;
+  readonly unlimited: boolean;
+  readonly lastApprovalBlock: number;
+}
+
+/**
+ * Result of revoking an approval
+ */
+export interface RevokeResult {
+  readonly record: ApprovalRecord;
+  readonly transactionHash?: string;
+  readonly error?: string;
+}
+
+/**
+ * How a stuck transaction is replaced
+ * - speedup: same payload, higher fees
+ * - cancel: 0-value self-transfer with the same nonce
+ */
+export type ReplacementMode = "speedup" | "cancel";
+
+/**
+ * Parameters for replacing a stuck raw-signed transaction
+ */
+export interface ReplaceTransactionParams {
+  readonly fireblocksApiClient: FireblocksSDK;
+  readonly httpProviderUrl: string;
+  readonly mode: ReplacementMode;
+  /** Hash of the stuck transaction (or use fireblocksTxId) */
+  readonly txHash?: string;
+  /**
+   * Fireblocks RAW transaction that signed the stuck transaction. Fireblocks
+   * never records the hash of what this client broadcasts, so the ID is
+   * resolved through the transaction's sign-only export.
+   */
+  readonly fireblocksTxId?: string;
+  /** Directory searched for the export of fireblocksTxId (default ".") */
+  readonly exportDirectory?: string;
+  /** Required with txHash; read from the Fireblocks transaction otherwise */
+  readonly vaultAccountId?: string | number;
+  readonly assetId?: string;
+  /** Fee bump in percent (defaults to GAS.REPLACEMENT_DEFAULT_BUMP_PERCENT) */
+  readonly bumpPercent?: number;
+}
+
+/**
+ * Outcome of a transaction replacement
+ */
+export interface ReplacementResult {
+  readonly mode: ReplacementMode;
+  readonly nonce: number;
+  readonly originalTxHash: string;
+  readonly replacementTxHash: string;
+  readonly maxFeePerGas: string;
+  readonly maxPriorityFeePerGas: string;
 }
 
 /**
@@ -75,7 +480,38 @@ export interface ERC20TransferParams {
 export interface NativeTransferParams {
   readonly web3: any; // Web3 instance
   readonly recipientAddress: string;
-  readonly amount: number;
+  readonly amount: DecimalAmount;
+  readonly signOnly?: boolean;
+  readonly skipSimulation?: boolean;
+  readonly feePolicy?: FeePolicy;
+  /** Full-balance sweeps (amount 0): extra fee held back, in percent */
+  readonly sweepSafetyMarginPercent?: number;
+}
+
+/**
+ * Call to simulate before signing
+ */
+export interface SimulationRequest {
+  readonly from: string;
+  readonly to: string;
+  readonly data?: string;
+  readonly value?: bigint | number | string;
+}
+
+/**
+ * Outcome of a pre-flight simulation
+ *
+ * Deltas are in smallest units and only present when the node could
+ * replay the call together with balanceOf reads (eth_simulateV1).
+ */
+export interface SimulationResult {
+  readonly success: boolean;
+  readonly revertReason?: string;
+  readonly returnData?: string;
+  readonly senderDelta?: bigint;
+  readonly recipientDelta?: bigint;
+  /** Fee-on-transfer, blacklist or similar behaviour that was detected */
+  readonly warnings: string[];
 }
 
 /**
@@ -151,13 +587,317 @@ export interface GasEstimate {
   readonly estimatedCost: string;
 }
 
+/**
+ * Current network fee data
+ *
+ * `maxFeePerGas` and `maxPriorityFeePerGas` are only set on chains
+ * that have activated the EIP-1559 fee market.
+ */
+export interface FeeData {
+  readonly supportsEip1559: boolean;
+  readonly gasPrice: bigint;
+  readonly baseFeePerGas?: bigint;
+  readonly maxFeePerGas?: bigint;
+  readonly maxPriorityFeePerGas?: bigint;
+}
+
+/**
+ * Options for calculating the largest native amount a vault can send
+ */
+export interface MaxSweepOptions {
+  /** Recipient, for the L1 data fee estimate (defaults to the sender) */
+  readonly recipient?: string;
+  /** Fee data to reserve against (fetched if omitted) */
+  readonly feeData?: FeeData;
+  /** Extra fee reserved on top of the worst case, in percent */
+  readonly safetyMarginPercent?: number;
+}
+
+/**
+ * Largest native amount a vault can send, and the fees held back for it
+ *
+ * All values are in wei.
+ */
+export interface MaxSweepResult {
+  readonly balance: bigint;
+  readonly amount: bigint;
+  /** Gas limit the sweep must be sent with (includes Arbitrum L1 gas) */
+  readonly gasLimit: bigint;
+  /** Gas limit times maxFeePerGas (or gasPrice) */
+  readonly executionFee: bigint;
+  /** OP Stack L1 data fee (0 elsewhere) */
+  readonly l1DataFee: bigint;
+  /** Fees held back, safety margin included */
+  readonly reservedFee: bigint;
+  readonly feeData: FeeData;
+}
+
+/**
+ * Pending token sweep that needs native gas in its vault
+ */
+export interface GasTopUpRequest {
+  readonly vaultId: string;
+  /** Chain as native asset ID, chain ID or name in the chain registry */
+  readonly chain: string;
+  /** Vault address on the chain */
+  readonly address: string;
+  /** Token to sweep; a typical ERC20 transfer is assumed when omitted */
+  readonly tokenAddress?: string;
+  readonly tokenName?: string;
+}
+
+/**
+ * Options for planning gas top-ups
+ */
+export interface GasTopUpOptions {
+  /** Address the tokens will be swept to, for the gas estimates */
+  readonly recipientAddress: string;
+  /** Extra gas funded on top of the estimate, in percent */
+  readonly safetyMarginPercent?: number;
+}
+
+/**
+ * Native gas to send one vault on one chain
+ *
+ * Amounts are in whole units of the native asset.
+ */
+export interface GasTopUpPlanEntry {
+  readonly vaultId: string;
+  readonly nativeAssetId: string;
+  readonly chainId: number;
+  readonly address: string;
+  /** Tokens whose sweeps are funded */
+  readonly tokens: readonly string[];
+  /** Tokens left out because their transfer would revert */
+  readonly skippedTokens: readonly string[];
+  /** Total gas limit of the sweeps */
+  readonly gasLimit: string;
+  /** Worst-case fees of the sweeps, safety margin included */
+  readonly required: string;
+  readonly balance: string;
+  /** Shortfall to send ("0" when the balance already covers the sweeps) */
+  readonly topUp: string;
+}
+
+/**
+ * Swept vault whose leftover native gas goes back to the funding vault
+ */
+export interface GasReturnRequest {
+  readonly vaultId: string;
+  /** Chain as native asset ID, chain ID or name in the chain registry */
+  readonly chain: string;
+  /** Vault address on the chain */
+  readonly address: string;
+}
+
+/**
+ * Options for returning leftover gas
+ */
+export interface GasReturnOptions {
+  /** Vault the gas goes back to */
+  readonly fundingVaultId: string | number;
+  /** Extra fee held back on top of the worst case, in percent */
+  readonly safetyMarginPercent?: number;
+  readonly feePolicy?: FeePolicy;
+}
+
+/**
+ * Outcome of one top-up or gas return transfer
+ */
+export interface GasTransferResult {
+  readonly vaultId: string;
+  readonly nativeAssetId: string;
+  readonly amount: string;
+  readonly transactionId?: string;
+  readonly status?: string;
+  readonly error?: string;
+}
+
+/**
+ * Fee limit a transaction can exceed
+ * - "gasPrice": worst-case price per gas (maxFeePerGas or gasPrice)
+ * - "transactionFee": gas limit times worst-case price
+ * - "batchBudget": worst-case fees of everything signed in this run
+ */
+export type FeeLimitKind = "gasPrice" | "transactionFee" | "batchBudget";
+
+/**
+ * Fee limits for one chain; fees are in the chain's native unit
+ */
+export interface FeeLimits {
+  readonly maxGasPriceGwei?: number;
+  readonly maxTransactionFee?: DecimalAmount;
+  readonly batchBudget?: DecimalAmount;
+}
+
+/**
+ * Options for a fee policy
+ */
+export interface FeePolicyOptions {
+  /** Limits for every chain (maxGasPriceGwei defaults to GAS.MAX_GAS_PRICE_GWEI) */
+  readonly defaults?: FeeLimits;
+  /** Per-chain overrides, keyed by chain ID */
+  readonly chains?: Readonly<Record<number, FeeLimits>>;
+  /** Wait for fees to come down ("defer") or fail right away ("reject", default) */
+  readonly onExceeded?: "defer" | "reject";
+  /** Longest a transaction is deferred before it is rejected */
+  readonly maxDeferMs?: number;
+  /** How often deferred fees are re-checked */
+  readonly deferPollIntervalMs?: number;
+}
+
+/**
+ * Fireblocks fee estimate tier
+ */
+export type FeeTier = "low" | "medium" | "high";
+
+/**
+ * Source of USD prices, keyed by Fireblocks asset ID or symbol
+ */
+export interface PriceSource {
+  /** Price of one whole unit in USD, or undefined if unknown */
+  getUsdPrice(asset: string): Promise<DecimalAmount | undefined>;
+}
+
+/**
+ * ERC20 transfer each token's gas is estimated for
+ */
+export interface Erc20EstimateTransfer {
+  /** Holder whose full token balance is sent (e.g. a vault's ETH-key address) */
+  readonly from: string;
+  readonly to: string;
+}
+
+/**
+ * Options for a fee estimator
+ */
+export interface FeeEstimatorOptions {
+  /** USD prices for fee conversion (fees are left unconverted without one) */
+  readonly priceSource?: PriceSource;
+  /**
+   * Gas limit assumed for an ERC20 transfer that is not estimated
+   * (GAS.ERC20_TRANSFER_LIMIT by default)
+   */
+  readonly erc20TransferGasLimit?: number;
+  /** Estimates each token's transfer with eth_estimateGas on its chain's registry RPCs */
+  readonly erc20Transfer?: Erc20EstimateTransfer;
+}
+
+/**
+ * Fees for one tier, in whole units of the native asset (USD as decimal strings)
+ *
+ * Transfer costs are only set for assets with a gas price (EVM chains)
+ * and exclude rollup L1 data fees.
+ */
+export interface TierFeeEstimate {
+  /** Fee Fireblocks reports for transferring the asset */
+  readonly networkFee?: string;
+  readonly gasPriceGwei?: string;
+  readonly nativeTransferFee?: string;
+  readonly erc20TransferFee?: string;
+  readonly networkFeeUsd?: string;
+  readonly nativeTransferFeeUsd?: string;
+  readonly erc20TransferFeeUsd?: string;
+}
+
+/**
+ * Fee estimate for one asset; `error` is set instead of `tiers` when it failed
+ */
+export interface FeeEstimate {
+  readonly assetId: string;
+  /** Asset fees are paid in */
+  readonly nativeAssetId?: string;
+  readonly chainId?: number;
+  readonly nativePriceUsd?: string;
+  /** Gas limit the ERC20 transfer fees are priced at */
+  readonly erc20GasLimit?: string;
+  /** Whether erc20GasLimit was estimated for this token, or assumed */
+  readonly erc20GasEstimated?: boolean;
+  readonly tiers?: Readonly<Record<FeeTier, TierFeeEstimate>>;
+  readonly error?: string;
+}
+
+/**
+ * Field of an EIP-712 struct type
+ */
+export interface TypedDataField {
+  readonly name: string;
+  readonly type: string;
+}
+
+/**
+ * EIP-712 typed data, as passed to eth_signTypedData_v4
+ */
+export interface TypedData {
+  readonly types: Record<string, readonly TypedDataField[]>;
+  readonly primaryType: string;
+  readonly domain: Record<string, any>;
+  readonly message: Record<string, any>;
+}
+
+/**
+ * How an L2 charges for the L1 data its transactions post
+ * - "op-stack": separate L1 fee from the GasPriceOracle predeploy (Optimism, Base)
+ * - "arbitrum": L1 cost added to the gas used (NodeInterface)
+ */
+export type L1DataFeeModel = "op-stack" | "arbitrum";
+
+/**
+ * EVM chain entry of the chain registry (chains.json)
+ */
+export interface ChainInfo {
+  readonly chainId: number;
+  readonly name: string;
+  /** Other names the chain goes by in CSVs and reports */
+  readonly aliases?: readonly string[];
+  /** Fireblocks asset ID of the native (gas) asset */
+  readonly nativeAssetId: string;
+  readonly nativeSymbol: string;
+  /** Other Fireblocks asset IDs that live on this chain */
+  readonly assetIds?: readonly string[];
+  /**
+   * Full read/write RPC endpoints in order of preference; `${ENV_VAR}`
+   * placeholders allowed. Broadcast-only relays (Flashbots) belong in
+   * RPC_ENDPOINTS, not here.
+   */
+  readonly rpcUrls: readonly string[];
+  readonly eip1559: boolean;
+  /** How the chain charges for L1 data, for L2s that do */
+  readonly l1DataFee?: L1DataFeeModel;
+  /** Decimals of the gas token */
+  readonly gasDecimals: number;
+  /** Explorer transaction URL with a `{hash}` placeholder */
+  readonly explorerTxUrl: string;
+  /** Explorer address URL with an `{address}` placeholder */
+  readonly explorerAddressUrl?: string;
+  /** Native balance below which a vault needs gas, in whole units */
+  readonly minGasBalance: string;
+}
+
 /**
  * Balance information
+ *
+ * `balance` and `balanceInEther` are formatted with the asset's decimals
+ * (ether for native balances); `balanceInWei` is in smallest units.
  */
 export interface BalanceInfo {
   readonly balance: string;
   readonly balanceInEther: string;
   readonly balanceInWei: string;
+  readonly address?: string;
+  /** Token contract, undefined for the native balance */
+  readonly token?: string;
+  readonly decimals?: number;
+  /** Set when the balance could not be read */
+  readonly error?: string;
+}
+
+/**
+ * Balance to read: native when `token` is omitted, ERC20 otherwise
+ */
+export interface BalanceQuery {
+  readonly address: string;
+  readonly token?: string;
 }
 
 /**
@@ -232,7 +972,7 @@ export interface ErrorContext {
   readonly operation: string;
   readonly vaultId?: string | number;
   readonly assetId?: string;
-  readonly amount?: number;
+  readonly amount?: DecimalAmount;
   readonly txId?: string;
   readonly [key: string]: any;
 }
@@ -7,6 +7,8 @@
 
 import { REGEX, VALIDATION } from "./constants";
 import { ValidationError } from "./errors";
+import { DecimalAmount } from "./types";
+import { compareAmounts, isZeroAmount, toDecimalString } from "./amounts";
 
 /**
  * Validates an Ethereum address format
@@ -39,29 +41,36 @@ export function validateEthereumAddress(
 /**
  * Validates a transaction amount
  *
- * @param amount - Amount to validate
+ * Compared exactly, without converting decimal strings to floating point.
+ *
+ * @param amount - Amount to validate (decimal string or number, whole units)
  * @param fieldName - Field name for error messages
  * @param allowZero - Whether to allow zero (for full balance transfers)
  * @throws {ValidationError} If amount is invalid
  */
 export function validateAmount(
-  amount: number,
+  amount: DecimalAmount,
   fieldName: string = "amount",
   allowZero: boolean = true
 ): void {
-  if (typeof amount !== "number" || isNaN(amount)) {
-    throw new ValidationError(fieldName, amount, "Must be a valid number");
+  if (typeof amount !== "number" && typeof amount !== "string") {
+    throw new ValidationError(fieldName, amount, "Must be a decimal string or number");
   }
 
-  if (amount < 0) {
+  if (String(amount).trim().startsWith("-")) {
     throw new ValidationError(fieldName, amount, "Cannot be negative");
   }
 
-  if (!allowZero && amount === 0) {
+  toDecimalString(amount, fieldName);
+
+  if (!allowZero && isZeroAmount(amount)) {
     throw new ValidationError(fieldName, amount, "Cannot be zero");
   }
 
-  if (amount > 0 && amount < VALIDATION.MIN_TRANSACTION_AMOUNT) {
+  if (
+    !isZeroAmount(amount) &&
+    compareAmounts(amount, VALIDATION.MIN_TRANSACTION_AMOUNT) < 0
+  ) {
     throw new ValidationError(
       fieldName,
       amount,
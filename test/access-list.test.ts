@@ -0,0 +1,142 @@
+/**
+ * Tests for EIP-2930 access lists on ERC20 transfers
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { transfer } from "../EVM/transfer.refactored";
+import { readSignedTransactionExport } from "../EVM/signed_transaction_export";
+import { NonceManager } from "../shared/nonce-manager";
+import { fakeFireblocks } from "./support/fake-fireblocks";
+import { RpcStub, startRpcStub, stubBlock, useChainRegistry } from "./support/rpc-stub";
+
+const { Web3 } = require("web3");
+
+const abi = new Web3().eth.abi;
+
+const GWEI = 1_000_000_000n;
+const PROXY_TOKEN = "0x3333333333333333333333333333333333333333";
+const IMPLEMENTATION = "0x6666666666666666666666666666666666666666";
+const RECIPIENT = "0x5555555555555555555555555555555555555555";
+const ACCESS_LIST = [
+  { address: PROXY_TOKEN, storageKeys: [`0x${"0".repeat(63)}1`, `0x${"0".repeat(63)}2`] },
+  { address: IMPLEMENTATION, storageKeys: [] },
+];
+
+const client = fakeFireblocks();
+
+let rpc: RpcStub;
+let accessListGasUsed = 40000;
+
+/**
+ * Answers the token's view calls and transfer() by selector
+ */
+function callToken(data: string): string {
+  switch (data.slice(0, 10)) {
+    case abi.encodeFunctionSignature("decimals()"):
+      return abi.encodeParameter("uint8", 6);
+    case abi.encodeFunctionSignature("balanceOf(address)"):
+      return abi.encodeParameter("uint256", 5_000_000);
+    default:
+      // transfer()
+      return abi.encodeParameter("bool", true);
+  }
+}
+
+before(async () => {
+  rpc = await startRpcStub((method, params) => {
+    switch (method) {
+      case "eth_chainId":
+        return "0x38";
+      case "eth_getBlockByNumber":
+        return stubBlock();
+      case "eth_gasPrice":
+        return `0x${(3n * GWEI).toString(16)}`;
+      case "eth_getBalance":
+        return `0x${(10n ** 18n).toString(16)}`;
+      case "eth_getTransactionCount":
+        return "0x0";
+      case "eth_call":
+        return callToken(params[0].data ?? params[0].input);
+      case "eth_estimateGas":
+        return `0x${(50000).toString(16)}`;
+      case "eth_createAccessList":
+        return { accessList: ACCESS_LIST, gasUsed: `0x${accessListGasUsed.toString(16)}` };
+      default:
+        return null;
+    }
+  });
+
+  // A pre-London chain: transfers with an access list are signed as type 1
+  useChainRegistry([
+    {
+      chainId: 56,
+      name: "BNB Chain",
+      nativeAssetId: "BNB_BSC",
+      nativeSymbol: "BNB",
+      rpcUrls: [rpc.url],
+      eip1559: false,
+      gasDecimals: 18,
+      explorerTxUrl: "https://bscscan.com/tx/{hash}",
+      explorerAddressUrl: "https://bscscan.com/address/{address}",
+      minGasBalance: "0.005",
+    },
+  ]);
+});
+
+after(async () => {
+  await rpc.close();
+});
+
+/**
+ * Signs (without broadcasting) a token transfer with access lists enabled
+ *
+ * @returns Exported transaction
+ */
+async function signTransfer() {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "export-"));
+
+  await transfer({
+    fireblocksApiClient: client,
+    ethereumProviderUrl: rpc.url,
+    sourceVaultAccountId: "1",
+    recipientAddress: RECIPIENT,
+    assetIdentifier: "BNB_BSC",
+    assetSymbol: "PRX",
+    transferAmount: "1",
+    erc20ContractAddress: PROXY_TOKEN,
+    useAccessList: true,
+    signOnly: true,
+    exportDirectory: directory,
+    nonceManager: new NonceManager(),
+  });
+
+  return readSignedTransactionExport(path.join(directory, fs.readdirSync(directory)[0]));
+}
+
+test("an access list that cuts gas is signed into a type-1 transfer", async () => {
+  accessListGasUsed = 40000;
+  const exported = await signTransfer();
+
+  assert.equal(exported.signer, client.address);
+  assert.equal(Number(exported.transaction.type), 1);
+  assert.deepEqual(exported.transaction.accessList, ACCESS_LIST);
+  // 40000 gas used with the list, plus the estimation buffer
+  assert.equal(Number(exported.transaction.gasLimit), 48000);
+
+  const [call] = rpc.calls.filter((item) => item.method === "eth_createAccessList");
+  assert.equal(call.params[0].to, PROXY_TOKEN);
+  assert.equal(call.params[1], "pending");
+});
+
+test("an access list that saves nothing is left out", async () => {
+  accessListGasUsed = 55000;
+  const exported = await signTransfer();
+
+  assert.equal(Number(exported.transaction.type), 0);
+  assert.equal(exported.transaction.accessList, undefined);
+  assert.equal(Number(exported.transaction.gasLimit), 60000);
+});
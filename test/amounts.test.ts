@@ -0,0 +1,52 @@
+/**
+ * Tests for decimal amount helpers
+ */
+
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { addPercent, formatUnits, multiplyAmounts, parseUnits } from "../shared/amounts";
+import { ValidationError } from "../shared/errors";
+
+test("addPercent adds whole and fractional percentages, rounding up", () => {
+  assert.equal(addPercent(1000n, 10), 1100n);
+  assert.equal(addPercent(1000n, 2.5), 1025n);
+  assert.equal(addPercent(1n, 10), 2n);
+  assert.equal(addPercent(0n, 10), 0n);
+  assert.equal(addPercent(123n, 0), 123n);
+});
+
+test("addPercent matches the 10% replacement bump nodes require", () => {
+  const gwei = 1_000_000_000n;
+  assert.equal(addPercent(30n * gwei, 10), 33n * gwei);
+  assert.equal(addPercent(30n * gwei + 1n, 10), 33n * gwei + 2n);
+});
+
+test("formatUnits drops trailing zeros and keeps leading ones", () => {
+  assert.equal(formatUnits(1_500_000n, 6), "1.5");
+  assert.equal(formatUnits(1n, 18), "0.000000000000000001");
+  assert.equal(formatUnits(10n ** 18n, 18), "1");
+  assert.equal(formatUnits("0", 18), "0");
+  assert.equal(formatUnits(-25n, 1), "-2.5");
+});
+
+test("parseUnits rounds extra digits as asked", () => {
+  assert.equal(parseUnits("1.5", 6), 1_500_000n);
+  assert.equal(parseUnits("0.1234567", 6), 123_456n);
+  assert.equal(parseUnits("0.1234567", 6, "up"), 123_457n);
+  assert.equal(parseUnits("0.1234560", 6, "exact"), 123_456n);
+  assert.throws(() => parseUnits("0.1234567", 6, "exact"), ValidationError);
+});
+
+test("parseUnits and formatUnits round-trip", () => {
+  for (const amount of ["0.000198", "1", "123.456789012345678"]) {
+    assert.equal(formatUnits(parseUnits(amount, 18), 18), amount);
+  }
+});
+
+test("multiplyAmounts multiplies exactly and rounds the product as asked", () => {
+  assert.equal(multiplyAmounts("0.1", "0.2", 6), "0.02");
+  assert.equal(multiplyAmounts("0.000000000000000001", 3, 18), "0.000000000000000003");
+  assert.equal(multiplyAmounts("0.00042", "2450.12", 6), "1.02905");
+  assert.equal(multiplyAmounts("0.00042", "2450.12", 6, "up"), "1.029051");
+  assert.equal(multiplyAmounts(1e-7, "1000", 6), "0.0001");
+});
@@ -0,0 +1,247 @@
+/**
+ * Tests for the token approval audit and bulk revoke
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TransactionFactory } from "@ethereumjs/tx";
+import { auditApprovals, revokeApprovals } from "../EVM/approval_audit";
+import { NonceManager } from "../shared/nonce-manager";
+import { fakeFireblocks } from "./support/fake-fireblocks";
+import { RpcStub, RpcStubError, startRpcStub, stubBlock, stubReceipt, useChainRegistry } from "./support/rpc-stub";
+
+const { Web3 } = require("web3");
+
+const web3 = new Web3();
+const abi = web3.eth.abi;
+
+const GWEI = 1_000_000_000n;
+const TOKEN = "0x3333333333333333333333333333333333333333";
+const NFT = "0x7217217217217217217217217217217217217217";
+const SPENDER = "0x1111111111111111111111111111111111111111";
+const REVOKED_SPENDER = "0x2222222222222222222222222222222222222222";
+const OPERATOR = "0x4444444444444444444444444444444444444444";
+const STRANGER = "0x5555555555555555555555555555555555555555";
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+// Larger ranges are rejected, as providers cap eth_getLogs (below APPROVAL_AUDIT.LOG_BLOCK_RANGE)
+const MAX_LOG_RANGE = 30_000;
+const LATEST_BLOCK = 100_000;
+
+const client = fakeFireblocks();
+const owner: string = client.address;
+
+const APPROVAL = web3.utils.keccak256("Approval(address,address,uint256)");
+const APPROVAL_FOR_ALL = web3.utils.keccak256("ApprovalForAll(address,address,bool)");
+const topic = (address: string) => abi.encodeParameter("address", address);
+
+/**
+ * Builds an eth_getLogs-style log
+ */
+function log(address: string, topics: string[], data: string, blockNumber: number) {
+  return { address, topics, data, blockNumber: `0x${blockNumber.toString(16)}` };
+}
+
+const LOGS = [
+  // Approved, later re-approved to unlimited
+  log(TOKEN, [APPROVAL, topic(owner), topic(SPENDER)], abi.encodeParameter("uint256", 5n), 10),
+  log(TOKEN, [APPROVAL, topic(owner), topic(SPENDER)], abi.encodeParameter("uint256", MAX_UINT256), 60_000),
+  // Since reset to zero
+  log(TOKEN, [APPROVAL, topic(owner), topic(REVOKED_SPENDER)], abi.encodeParameter("uint256", 1n), 20),
+  // ERC-721 single-token approval (tokenId indexed)
+  log(NFT, [APPROVAL, topic(owner), topic(STRANGER), abi.encodeParameter("uint256", 1n)], "0x", 30),
+  log(NFT, [APPROVAL_FOR_ALL, topic(owner), topic(OPERATOR)], abi.encodeParameter("bool", true), LATEST_BLOCK),
+  // Granted by someone else
+  log(TOKEN, [APPROVAL, topic(STRANGER), topic(SPENDER)], abi.encodeParameter("uint256", 1n), 40),
+];
+
+let rpc: RpcStub;
+let revertOperatorRevoke = false;
+const sentRaw: string[] = [];
+
+/**
+ * Answers allowance() and isApprovedForAll() from the current state
+ */
+function callToken(data: string): string {
+  const selector = data.slice(0, 10);
+
+  switch (selector) {
+    case abi.encodeFunctionSignature("allowance(address,address)"): {
+      const spender = abi.decodeParameters(["address", "address"], `0x${data.slice(10)}`)[1];
+      return abi.encodeParameter("uint256", spender.toLowerCase() === SPENDER ? MAX_UINT256 : 0n);
+    }
+    case abi.encodeFunctionSignature("isApprovedForAll(address,address)"):
+      return abi.encodeParameter("bool", true);
+    default:
+      // approve() / setApprovalForAll()
+      return "0x";
+  }
+}
+
+before(async () => {
+  rpc = await startRpcStub((method, params) => {
+    switch (method) {
+      case "eth_chainId":
+        return "0x1";
+      case "eth_blockNumber":
+        return `0x${LATEST_BLOCK.toString(16)}`;
+      case "eth_getLogs": {
+        const fromBlock = Number(params[0].fromBlock);
+        const toBlock = Number(params[0].toBlock);
+        if (toBlock - fromBlock + 1 > MAX_LOG_RANGE) {
+          throw new RpcStubError("block range too large", -32005);
+        }
+        return LOGS.filter((log) => Number(log.blockNumber) >= fromBlock && Number(log.blockNumber) <= toBlock);
+      }
+      case "eth_getBlockByNumber":
+        return stubBlock(GWEI);
+      case "eth_gasPrice":
+        return `0x${(2n * GWEI).toString(16)}`;
+      case "eth_maxPriorityFeePerGas":
+        return `0x${GWEI.toString(16)}`;
+      case "eth_getBalance":
+        return `0x${(10n ** 18n).toString(16)}`;
+      case "eth_getTransactionCount":
+        return "0x0";
+      case "eth_call":
+        return callToken(params[0].data ?? params[0].input);
+      case "eth_estimateGas":
+        if (revertOperatorRevoke && params[0].to.toLowerCase() === NFT) {
+          throw new RpcStubError("execution reverted");
+        }
+        return `0x${(50000).toString(16)}`;
+      case "eth_sendRawTransaction":
+        sentRaw.push(params[0]);
+        return web3.utils.keccak256(params[0]);
+      case "eth_getTransactionReceipt":
+        return stubReceipt(params[0]);
+      default:
+        return null;
+    }
+  });
+
+  useChainRegistry([
+    {
+      chainId: 1,
+      name: "Ethereum",
+      nativeAssetId: "ETH",
+      nativeSymbol: "ETH",
+      rpcUrls: [rpc.url],
+      eip1559: true,
+      gasDecimals: 18,
+      explorerTxUrl: "https://etherscan.io/tx/{hash}",
+      explorerAddressUrl: "https://etherscan.io/address/{address}",
+      minGasBalance: "0.001",
+    },
+  ]);
+});
+
+after(async () => {
+  await rpc.close();
+});
+
+/**
+ * Audit parameters for vault 1 on one chain
+ */
+function auditParams(chain: { logFile?: string; fromBlock?: number } = {}) {
+  return {
+    fireblocksApiClient: client,
+    vaultAccountId: "1",
+    chains: [{ assetId: "ETH", rpcUrl: rpc.url, ...chain }],
+    nonceManager: new NonceManager(),
+  };
+}
+
+const EXPECTED_RECORDS = [
+  {
+    assetId: "ETH",
+    owner,
+    token: TOKEN,
+    spender: SPENDER,
+    kind: "erc20",
+    lastApprovalBlock: 60_000,
+    allowance: MAX_UINT256.toString(),
+    unlimited: true,
+  },
+  {
+    assetId: "ETH",
+    owner,
+    token: NFT,
+    spender: OPERATOR,
+    kind: "operator",
+    lastApprovalBlock: LATEST_BLOCK,
+    allowance: "1",
+    unlimited: true,
+  },
+];
+
+test("live approvals are rebuilt from the owner's logs and checked on-chain", async () => {
+  const before = rpc.calls.length;
+  const records = await auditApprovals(auditParams());
+
+  assert.deepEqual(records, EXPECTED_RECORDS);
+
+  // Rejected ranges were halved until the provider accepted them, covering every block
+  const ranges = rpc.calls
+    .slice(before)
+    .filter((call) => call.method === "eth_getLogs")
+    .map((call) => [Number(call.params[0].fromBlock), Number(call.params[0].toBlock)]);
+  const accepted = ranges.filter(([from, to]) => to - from + 1 <= MAX_LOG_RANGE);
+
+  assert.ok(ranges.length > accepted.length);
+  assert.equal(accepted[0][0], 0);
+  assert.equal(accepted[accepted.length - 1][1], LATEST_BLOCK);
+  for (let i = 1; i < accepted.length; i++) {
+    assert.equal(accepted[i][0], accepted[i - 1][1] + 1);
+  }
+});
+
+test("a local log file replaces eth_getLogs", async () => {
+  const logFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "logs-")), "logs.json");
+  fs.writeFileSync(logFile, JSON.stringify(LOGS));
+
+  const before = rpc.calls.length;
+  assert.deepEqual(await auditApprovals(auditParams({ logFile })), EXPECTED_RECORDS);
+  assert.equal(rpc.calls.slice(before).filter((call) => call.method === "eth_getLogs").length, 0);
+});
+
+test("revokes reset allowances and operators, and a failed revoke does not stop the rest", async () => {
+  revertOperatorRevoke = true;
+  try {
+    const results = await revokeApprovals(auditParams());
+
+    assert.equal(results.length, 2);
+    assert.ok(results[0].transactionHash);
+    assert.equal(results[1].record.kind, "operator");
+    assert.equal(results[1].transactionHash, undefined);
+    assert.ok(results[1].error);
+  } finally {
+    revertOperatorRevoke = false;
+  }
+
+  sentRaw.length = 0;
+  const results = await revokeApprovals(auditParams(), (record) => record.kind === "operator");
+  assert.deepEqual(results.map((result) => result.record.spender), [OPERATOR]);
+
+  const tx = TransactionFactory.fromSerializedData(Buffer.from(sentRaw[0].slice(2), "hex"));
+  assert.equal(sentRaw.length, 1);
+  assert.equal(tx.getSenderAddress().toString(), owner);
+  assert.equal(tx.to?.toString(), NFT);
+  assert.equal(
+    `0x${tx.data.toString("hex")}`,
+    abi.encodeFunctionCall(
+      {
+        name: "setApprovalForAll",
+        type: "function",
+        inputs: [
+          { name: "operator", type: "address" },
+          { name: "approved", type: "bool" },
+        ],
+      },
+      [OPERATOR, false]
+    )
+  );
+});
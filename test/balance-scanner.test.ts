@@ -0,0 +1,154 @@
+/**
+ * Tests for the read-only balance scanner
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { scanBalances } from "../EVM/balance_scanner";
+import { MULTICALL } from "../shared/constants";
+import { RpcHandler, RpcStub, RpcStubError, startRpcStub } from "./support/rpc-stub";
+
+const { Web3 } = require("web3");
+
+const abi = new Web3().eth.abi;
+
+const HOLDER = "0x1111111111111111111111111111111111111111";
+const EMPTY = "0x2222222222222222222222222222222222222222";
+const USDC = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+// decimals() reverts
+const BROKEN = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+
+const NATIVE_BALANCES: Record<string, bigint> = { [HOLDER]: 2n * 10n ** 18n + 1n, [EMPTY]: 0n };
+const TOKEN_BALANCES: Record<string, Record<string, bigint>> = {
+  [USDC]: { [HOLDER]: 1_500_000n, [EMPTY]: 0n },
+  [BROKEN]: { [HOLDER]: 1n },
+};
+
+let withMulticall: RpcStub;
+let withoutMulticall: RpcStub;
+
+/**
+ * Executes a read-only call against the fixture state
+ *
+ * @returns Return data, or undefined if the call reverts
+ */
+function execute(target: string, callData: string): string | undefined {
+  const selector = callData.slice(0, 10);
+  const account =
+    callData.length >= 74 ? abi.decodeParameter("address", `0x${callData.slice(10)}`).toLowerCase() : "";
+
+  switch (selector) {
+    case abi.encodeFunctionSignature("getEthBalance(address)"):
+      return abi.encodeParameter("uint256", NATIVE_BALANCES[account] ?? 0n);
+    case abi.encodeFunctionSignature("balanceOf(address)"):
+      return abi.encodeParameter("uint256", TOKEN_BALANCES[target]?.[account] ?? 0n);
+    case abi.encodeFunctionSignature("decimals()"):
+      return target === USDC ? abi.encodeParameter("uint8", 6) : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Node answering eth_call directly, and through Multicall3 when deployed
+ */
+function node(multicallDeployed: boolean): RpcHandler {
+  return (method, params) => {
+    switch (method) {
+      case "eth_getCode":
+        return multicallDeployed ? "0x6080" : "0x";
+      case "eth_getBalance":
+        return `0x${(NATIVE_BALANCES[params[0].toLowerCase()] ?? 0n).toString(16)}`;
+      case "eth_call": {
+        const { to, data } = params[0];
+
+        if (multicallDeployed && to.toLowerCase() === MULTICALL.ADDRESS.toLowerCase()) {
+          const calls: Record<number, string>[] = abi.decodeParameter(
+            "tuple(address,bool,bytes)[]",
+            `0x${data.slice(10)}`
+          );
+          return abi.encodeParameter(
+            "tuple(bool,bytes)[]",
+            calls.map((call) => {
+              const returnData = execute(call[0].toLowerCase(), call[2]);
+              return [returnData !== undefined, returnData ?? "0x"];
+            })
+          );
+        }
+
+        const returnData = execute(to.toLowerCase(), data);
+        if (returnData === undefined) {
+          throw new RpcStubError("execution reverted");
+        }
+        return returnData;
+      }
+      default:
+        throw new RpcStubError(`${method} not expected`, -32601);
+    }
+  };
+}
+
+before(async () => {
+  withMulticall = await startRpcStub(node(true));
+  withoutMulticall = await startRpcStub(node(false));
+});
+
+after(async () => {
+  await withMulticall.close();
+  await withoutMulticall.close();
+});
+
+const QUERIES = [
+  { address: HOLDER },
+  { address: HOLDER, token: USDC },
+  { address: EMPTY, token: USDC },
+  { address: EMPTY },
+  { address: HOLDER, token: BROKEN },
+];
+
+const EXPECTED = [
+  {
+    address: HOLDER,
+    token: undefined,
+    decimals: 18,
+    balance: "2.000000000000000001",
+    balanceInEther: "2.000000000000000001",
+    balanceInWei: "2000000000000000001",
+  },
+  { address: HOLDER, token: USDC, decimals: 6, balance: "1.5", balanceInEther: "1.5", balanceInWei: "1500000" },
+  { address: EMPTY, token: USDC, decimals: 6, balance: "0", balanceInEther: "0", balanceInWei: "0" },
+  { address: EMPTY, token: undefined, decimals: 18, balance: "0", balanceInEther: "0", balanceInWei: "0" },
+];
+
+test("Multicall3 reads every balance and decimals in one aggregate3 call", async () => {
+  const balances = await scanBalances(withMulticall.url, QUERIES);
+
+  assert.deepEqual(balances.slice(0, 4), EXPECTED);
+  assert.equal(balances[4].balanceInWei, "0");
+  assert.match(balances[4].error ?? "", /^decimals: /);
+
+  assert.deepEqual(
+    withMulticall.calls.map((call) => call.method),
+    ["eth_getCode", "eth_call"]
+  );
+});
+
+test("without Multicall3 the same balances come from JSON-RPC batches", async () => {
+  const balances = await scanBalances(withoutMulticall.url, QUERIES);
+
+  assert.deepEqual(balances.slice(0, 4), EXPECTED);
+  assert.match(balances[4].error ?? "", /^decimals: /);
+
+  // One decimals() per token, one read per query, and nothing but reads
+  const methods = withoutMulticall.calls.map((call) => call.method);
+  assert.equal(methods.filter((method) => method === "eth_call").length, 2 + 3);
+  assert.equal(methods.filter((method) => method === "eth_getBalance").length, 2);
+  assert.deepEqual([...new Set(methods)].sort(), ["eth_call", "eth_getBalance", "eth_getCode"]);
+});
+
+test("a reverted read is reported per query without failing the scan", async () => {
+  const [balance] = await scanBalances(withMulticall.url, [{ address: HOLDER, token: EMPTY }]);
+
+  assert.equal(balance.balanceInWei, "0");
+  assert.ok(balance.error);
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for the broadcast backends against local JSON-RPC stubs
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import {
+  BundleBroadcaster,
+  PrivateTransactionBroadcaster,
+  RpcBroadcaster,
+  computeTransactionHash,
+} from "../EVM/broadcasters";
+import { BROADCAST } from "../shared/constants";
+import { RpcStub, RpcStubCall, RpcStubError, startRpcStub } from "./support/rpc-stub";
+
+const { Web3 } = require("web3");
+
+const web3 = new Web3();
+const RAW_TRANSACTION = "0x02f86c0180843b9aca00850c92a69c0082520894";
+const AUTH_KEY = `0x${"7e".repeat(32)}`;
+
+let node: RpcStub;
+let relay: RpcStub;
+
+before(async () => {
+  node = await startRpcStub((method, params) => {
+    switch (method) {
+      case "eth_blockNumber":
+        return "0x10";
+      case "eth_sendRawTransaction":
+        return computeTransactionHash(params[0]);
+      default:
+        return null;
+    }
+  });
+
+  relay = await startRpcStub((method, params) => {
+    switch (method) {
+      case "eth_sendPrivateTransaction":
+        if (params[0].tx === "0x00") {
+          throw new RpcStubError("invalid transaction", -32000);
+        }
+        return computeTransactionHash(params[0].tx);
+      case "eth_sendBundle":
+        return { bundleHash: `0x${"b".repeat(64)}` };
+      default:
+        return null;
+    }
+  });
+});
+
+after(async () => {
+  await node.close();
+  await relay.close();
+});
+
+/**
+ * Recovers the reputation address from a call's X-Flashbots-Signature header
+ *
+ * The header is `address:signature`, an EIP-191 signature over the
+ * keccak256 hash of the request body.
+ */
+function recoverFlashbotsSigner(call: RpcStubCall): { claimed: string; recovered: string } {
+  const [claimed, signature] = String(call.headers["x-flashbots-signature"]).split(":");
+  const recovered = web3.eth.accounts.recover(web3.utils.utf8ToHex(web3.utils.keccak256(call.body)), signature);
+
+  return { claimed, recovered };
+}
+
+test("the RPC backend sends eth_sendRawTransaction to a URL or a provider", async () => {
+  const hash = computeTransactionHash(RAW_TRANSACTION);
+
+  assert.equal(await new RpcBroadcaster(node.url).broadcast(RAW_TRANSACTION), hash);
+  assert.equal(
+    await new RpcBroadcaster(new Web3.providers.HttpProvider(node.url)).broadcast(RAW_TRANSACTION),
+    hash
+  );
+
+  const sent = node.calls.filter((call) => call.method === "eth_sendRawTransaction");
+  assert.deepEqual(sent.map((call) => call.params), [[RAW_TRANSACTION], [RAW_TRANSACTION]]);
+});
+
+test("private transactions go to the relay with a block limit and a signed auth header", async () => {
+  const broadcaster = new PrivateTransactionBroadcaster({
+    relayUrl: relay.url,
+    readProvider: new Web3.providers.HttpProvider(node.url),
+    authPrivateKey: AUTH_KEY,
+    maxBlocks: 5,
+  });
+
+  assert.equal(await broadcaster.broadcast(RAW_TRANSACTION), computeTransactionHash(RAW_TRANSACTION));
+
+  const call = relay.calls[relay.calls.length - 1];
+  assert.equal(call.method, "eth_sendPrivateTransaction");
+  assert.deepEqual(call.params, [{ tx: RAW_TRANSACTION, maxBlockNumber: "0x15" }]);
+
+  const { claimed, recovered } = recoverFlashbotsSigner(call);
+  const authAddress = web3.eth.accounts.privateKeyToAccount(AUTH_KEY).address;
+  assert.equal(claimed, authAddress);
+  assert.equal(recovered, authAddress);
+});
+
+test("relay errors reject the broadcast", async () => {
+  const broadcaster = new PrivateTransactionBroadcaster({
+    relayUrl: relay.url,
+    readProvider: new Web3.providers.HttpProvider(node.url),
+  });
+
+  await assert.rejects(broadcaster.broadcast("0x00"), /invalid transaction/);
+});
+
+test("bundles are submitted for each target block with a random reputation key", async () => {
+  const broadcaster = new BundleBroadcaster({
+    relayUrl: relay.url,
+    readProvider: new Web3.providers.HttpProvider(node.url),
+  });
+
+  const before = relay.calls.length;
+  assert.equal(await broadcaster.broadcast(RAW_TRANSACTION), computeTransactionHash(RAW_TRANSACTION));
+
+  const bundles = relay.calls.slice(before);
+  assert.equal(bundles.length, BROADCAST.BUNDLE_TARGET_BLOCKS);
+  assert.deepEqual(
+    bundles.map((call) => call.params),
+    [0x11, 0x12, 0x13].map((block) => [{ txs: [RAW_TRANSACTION], blockNumber: `0x${block.toString(16)}` }])
+  );
+
+  // One key per broadcaster, and every request is signed with it
+  const signers = bundles.map(recoverFlashbotsSigner);
+  for (const { claimed, recovered } of signers) {
+    assert.equal(recovered, claimed);
+    assert.equal(claimed, signers[0].claimed);
+  }
+});
@@ -0,0 +1,172 @@
+/**
+ * Tests for encoding, previewing and signing arbitrary contract calls
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TransactionFactory } from "@ethereumjs/tx";
+import { callContract, loadFunctionFromAbi, parseFunctionSignature } from "../EVM/call_contract";
+import { NonceManager } from "../shared/nonce-manager";
+import { GasEstimationError, ValidationError } from "../shared/errors";
+import { fakeFireblocks } from "./support/fake-fireblocks";
+import { RpcStub, RpcStubError, startRpcStub, stubBlock, stubReceipt, useChainRegistry } from "./support/rpc-stub";
+
+const { Web3 } = require("web3");
+
+const web3 = new Web3();
+const abi = web3.eth.abi;
+
+const GWEI = 1_000_000_000n;
+const CONTRACT = "0x3333333333333333333333333333333333333333";
+const RECIPIENT = "0x5555555555555555555555555555555555555555";
+
+const client = fakeFireblocks();
+
+let rpc: RpcStub;
+const sentRaw: string[] = [];
+
+before(async () => {
+  rpc = await startRpcStub((method, params) => {
+    switch (method) {
+      case "eth_chainId":
+        return "0x1";
+      case "eth_getBlockByNumber":
+        return stubBlock(GWEI);
+      case "eth_gasPrice":
+        return `0x${(2n * GWEI).toString(16)}`;
+      case "eth_maxPriorityFeePerGas":
+        return `0x${GWEI.toString(16)}`;
+      case "eth_getBalance":
+        return `0x${(10n ** 18n).toString(16)}`;
+      case "eth_getTransactionCount":
+        return "0x0";
+      case "eth_call":
+        // earned(address) -> 42
+        return abi.encodeParameter("uint256", 42n);
+      case "eth_estimateGas":
+        if ((params[0].data ?? params[0].input).startsWith(abi.encodeFunctionSignature("withdraw(uint256)"))) {
+          throw new RpcStubError("execution reverted: locked");
+        }
+        return `0x${(100000).toString(16)}`;
+      case "eth_sendRawTransaction":
+        sentRaw.push(params[0]);
+        return web3.utils.keccak256(params[0]);
+      case "eth_getTransactionReceipt":
+        return stubReceipt(params[0]);
+      default:
+        return null;
+    }
+  });
+
+  useChainRegistry([
+    {
+      chainId: 1,
+      name: "Ethereum",
+      nativeAssetId: "ETH",
+      nativeSymbol: "ETH",
+      rpcUrls: [rpc.url],
+      eip1559: true,
+      gasDecimals: 18,
+      explorerTxUrl: "https://etherscan.io/tx/{hash}",
+      explorerAddressUrl: "https://etherscan.io/address/{address}",
+      minGasBalance: "0.001",
+    },
+  ]);
+});
+
+after(async () => {
+  await rpc.close();
+});
+
+/**
+ * Calls CONTRACT from vault 1 with a fresh nonce manager
+ */
+function call(functionSignature: string, args: any[], options: { value?: string; dryRun?: boolean } = {}) {
+  return callContract({
+    fireblocksApiClient: client,
+    httpProviderUrl: rpc.url,
+    vaultAccountId: "1",
+    assetId: "ETH",
+    contractAddress: CONTRACT,
+    functionSignature,
+    args,
+    nonceManager: new NonceManager(),
+    ...options,
+  });
+}
+
+test("Solidity-style signatures parse into ABI fragments, tuples included", () => {
+  const fragment = parseFunctionSignature(
+    "function claim((address token, uint256 amount)[] memory claims, bool wrap) external payable returns (uint256 total)"
+  );
+
+  assert.equal(fragment.name, "claim");
+  assert.equal(fragment.stateMutability, "payable");
+  assert.deepEqual(fragment.inputs, [
+    {
+      name: "claims",
+      type: "tuple[]",
+      components: [
+        { name: "token", type: "address" },
+        { name: "amount", type: "uint256" },
+      ],
+    },
+    { name: "wrap", type: "bool" },
+  ]);
+  assert.deepEqual(fragment.outputs, [{ name: "total", type: "uint256" }]);
+  assert.throws(() => parseFunctionSignature("claim uint256"), ValidationError);
+});
+
+test("ABI files resolve functions by argument count or full signature", () => {
+  const abiPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "abi-")), "Vesting.json");
+  const release = (inputs: string[]) => ({
+    type: "function",
+    name: "release",
+    inputs: inputs.map((type, index) => ({ name: `arg${index}`, type })),
+  });
+  fs.writeFileSync(abiPath, JSON.stringify({ abi: [release([]), release(["address"]), release(["uint256"])] }));
+
+  assert.deepEqual(loadFunctionFromAbi(abiPath, "release", 0).inputs, []);
+  assert.equal(loadFunctionFromAbi(abiPath, "release(uint256)", 1).inputs[0].type, "uint256");
+  assert.throws(() => loadFunctionFromAbi(abiPath, "release", 1), /Ambiguous overload/);
+  assert.throws(() => loadFunctionFromAbi(abiPath, "release", 2), /No function with 2 argument/);
+});
+
+test("view functions are executed with eth_call and never signed", async () => {
+  const result = await call("earned(address account) view returns (uint256 amount)", [RECIPIENT]);
+
+  assert.equal(result.preview.readOnly, true);
+  assert.deepEqual(result.returnValues, { amount: "42" });
+  assert.equal(client.created.length, 0);
+});
+
+test("state-changing calls are previewed from the calldata, then signed by the vault", async () => {
+  const signature = "stake(uint256 amount, bool lock) payable";
+  const dryRun = await call(signature, ["1000", "true"], { value: "0.5", dryRun: true });
+
+  assert.equal(client.created.length, 0);
+  assert.deepEqual(dryRun.preview.args, { amount: "1000", lock: "true" });
+  assert.equal(dryRun.preview.selector, abi.encodeFunctionSignature("stake(uint256,bool)"));
+  assert.equal(dryRun.preview.valueWei, (5n * 10n ** 17n).toString());
+  assert.equal(dryRun.preview.gasLimit, 120000);
+
+  const result = await call(signature, ["1000", "true"], { value: "0.5" });
+  const tx = TransactionFactory.fromSerializedData(Buffer.from(sentRaw[sentRaw.length - 1].slice(2), "hex"));
+
+  assert.equal(tx.getSenderAddress().toString(), client.address);
+  assert.equal(tx.to?.toString(), CONTRACT);
+  assert.equal(`0x${tx.data.toString("hex")}`, dryRun.preview.data);
+  assert.equal(BigInt(tx.value.toString()), 5n * 10n ** 17n);
+  assert.equal(Number(tx.gasLimit), 120000);
+  assert.equal(result.transactionHash, `0x${tx.hash().toString("hex")}`);
+});
+
+test("value sent to a non-payable function, wrong arity and reverts are rejected", async () => {
+  await assert.rejects(call("stake(uint256,bool) nonpayable", ["1", "false"], { value: "1" }), ValidationError);
+  await assert.rejects(call("stake(uint256,bool)", ["1"]), /takes 2 argument/);
+  await assert.rejects(call("stake(uint256,bool)", ["1", "yes"]), ValidationError);
+  await assert.rejects(call("withdraw(uint256)", ["1"]), GasEstimationError);
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for deploying contracts from a vault
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { TransactionFactory } from "@ethereumjs/tx";
+import { generateAddress } from "ethereumjs-util";
+import { computeContractAddress, deployContract } from "../EVM/deploy_contract";
+import { NonceManager } from "../shared/nonce-manager";
+import { TransactionError, ValidationError } from "../shared/errors";
+import { fakeFireblocks } from "./support/fake-fireblocks";
+import { RpcStub, startRpcStub, stubBlock, stubReceipt, useChainRegistry } from "./support/rpc-stub";
+
+const { Web3 } = require("web3");
+
+const web3 = new Web3();
+
+const GWEI = 1_000_000_000n;
+const BYTECODE = "0x6080604052348015600f57600080fd5b50";
+const OWNER = "0x5555555555555555555555555555555555555555";
+
+const client = fakeFireblocks();
+
+let rpc: RpcStub;
+let nonce = 5;
+let receiptAddress: (deployed: string) => string = (deployed) => deployed;
+const sentRaw: string[] = [];
+
+before(async () => {
+  rpc = await startRpcStub((method, params) => {
+    switch (method) {
+      case "eth_chainId":
+        return "0x1";
+      case "eth_getBlockByNumber":
+        return stubBlock(GWEI);
+      case "eth_gasPrice":
+        return `0x${(2n * GWEI).toString(16)}`;
+      case "eth_maxPriorityFeePerGas":
+        return `0x${GWEI.toString(16)}`;
+      case "eth_getBalance":
+        return `0x${(10n ** 18n).toString(16)}`;
+      case "eth_getTransactionCount":
+        return `0x${nonce.toString(16)}`;
+      case "eth_estimateGas":
+        return `0x${(200000).toString(16)}`;
+      case "eth_call":
+        return "0x";
+      case "eth_getCode":
+        return "0x6080";
+      case "eth_sendRawTransaction":
+        sentRaw.push(params[0]);
+        return web3.utils.keccak256(params[0]);
+      case "eth_getTransactionReceipt":
+        return stubReceipt(params[0], {
+          to: null,
+          contractAddress: receiptAddress(computeContractAddress(client.address, nonce)),
+        });
+      default:
+        return null;
+    }
+  });
+
+  useChainRegistry([
+    {
+      chainId: 1,
+      name: "Ethereum",
+      nativeAssetId: "ETH",
+      nativeSymbol: "ETH",
+      rpcUrls: [rpc.url],
+      eip1559: true,
+      gasDecimals: 18,
+      explorerTxUrl: "https://etherscan.io/tx/{hash}",
+      explorerAddressUrl: "https://etherscan.io/address/{address}",
+      minGasBalance: "0.001",
+    },
+  ]);
+});
+
+after(async () => {
+  await rpc.close();
+});
+
+/**
+ * Deploys BYTECODE with an (address, uint256) constructor from vault 1
+ */
+function deploy(options: { value?: string; constructorSignature?: string } = {}) {
+  return deployContract({
+    fireblocksApiClient: client,
+    httpProviderUrl: rpc.url,
+    vaultAccountId: "1",
+    assetId: "ETH",
+    bytecode: BYTECODE,
+    constructorSignature: "constructor(address owner, uint256 delay)",
+    args: [OWNER, "3600"],
+    nonceManager: new NonceManager(),
+    ...options,
+  });
+}
+
+test("contract addresses follow from the deployer and nonce", () => {
+  const deployer = "0x6ac7ea33f8831ea9dcc53393aaa88b25a785dbf0";
+
+  assert.equal(computeContractAddress(deployer, 0).toLowerCase(), "0xcd234a471b72ba2f1ccf0a70fcaba648a5eecd8d");
+  assert.equal(computeContractAddress(deployer, 1).toLowerCase(), "0x343c43a37d37dff08ae8c4a11544c718abb4fcf8");
+
+  for (const n of [0x7f, 0x80, 0x1234, 0x10000]) {
+    const expected = generateAddress(
+      Buffer.from(deployer.slice(2), "hex"),
+      Buffer.from(n.toString(16).padStart(8, "0"), "hex")
+    );
+    assert.equal(computeContractAddress(deployer, n).toLowerCase(), `0x${expected.toString("hex")}`);
+  }
+});
+
+test("the creation transaction has no recipient and the receipt confirms the derived address", async () => {
+  const result = await deploy();
+  const tx = TransactionFactory.fromSerializedData(Buffer.from(sentRaw[sentRaw.length - 1].slice(2), "hex"));
+
+  assert.equal(tx.to, undefined);
+  assert.equal(tx.getSenderAddress().toString(), client.address);
+  assert.equal(Number(tx.nonce), 5);
+  assert.equal(
+    `0x${tx.data.toString("hex")}`,
+    BYTECODE + web3.eth.abi.encodeParameters(["address", "uint256"], [OWNER, 3600]).slice(2)
+  );
+
+  assert.equal(result.nonce, 5);
+  assert.equal(result.contractAddress, computeContractAddress(client.address, 5));
+  assert.equal(result.gasLimit, 240000);
+  assert.equal(result.confirmed, true);
+});
+
+test("a receipt reporting another address fails the deployment", async () => {
+  nonce = 6;
+  receiptAddress = () => OWNER;
+
+  try {
+    await assert.rejects(deploy(), TransactionError);
+  } finally {
+    receiptAddress = (deployed) => deployed;
+  }
+});
+
+test("wrong constructor arity and value for a non-payable constructor are rejected", async () => {
+  await assert.rejects(deploy({ constructorSignature: "constructor(address owner)" }), /takes 1 argument/);
+  await assert.rejects(
+    deploy({ constructorSignature: "constructor(address owner, uint256 delay) nonpayable", value: "1" }),
+    ValidationError
+  );
+});
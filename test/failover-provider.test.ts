@@ -0,0 +1,112 @@
+/**
+ * Tests for signing through failover RPC endpoints
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { transfer } from "../EVM/transfer.refactored";
+import { readSignedTransactionExport } from "../EVM/signed_transaction_export";
+import { fakeFireblocks } from "./support/fake-fireblocks";
+import { RpcHandler, RpcStub, startRpcStub, stubBlock, useChainRegistry } from "./support/rpc-stub";
+
+const GWEI = 1_000_000_000n;
+const RECIPIENT = "0x5555555555555555555555555555555555555555";
+
+const client = fakeFireblocks();
+
+let primary: RpcStub;
+let fallback: RpcStub;
+
+/**
+ * BNB Chain node at a block height
+ */
+function bscNode(blockNumber: string): RpcHandler {
+  return (method) => {
+    switch (method) {
+      case "eth_chainId":
+        return "0x38";
+      case "eth_blockNumber":
+        return blockNumber;
+      case "eth_getBlockByNumber":
+        return stubBlock();
+      case "eth_gasPrice":
+        return `0x${(3n * GWEI).toString(16)}`;
+      case "eth_getBalance":
+        return `0x${(10n ** 18n).toString(16)}`;
+      case "eth_getTransactionCount":
+        return "0x0";
+      case "eth_call":
+        return "0x";
+      default:
+        return null;
+    }
+  };
+}
+
+before(async () => {
+  // The primary trails the fallback by 15 blocks
+  primary = await startRpcStub(bscNode("0x1"));
+  fallback = await startRpcStub(bscNode("0x10"));
+
+  useChainRegistry([
+    {
+      chainId: 1,
+      name: "Ethereum",
+      nativeAssetId: "ETH",
+      nativeSymbol: "ETH",
+      rpcUrls: ["https://eth.example.com"],
+      eip1559: true,
+      gasDecimals: 18,
+      explorerTxUrl: "https://etherscan.io/tx/{hash}",
+      explorerAddressUrl: "https://etherscan.io/address/{address}",
+      minGasBalance: "0.001",
+    },
+    {
+      chainId: 56,
+      name: "BNB Chain",
+      nativeAssetId: "BNB_BSC",
+      nativeSymbol: "BNB",
+      rpcUrls: [primary.url, fallback.url],
+      eip1559: false,
+      gasDecimals: 18,
+      explorerTxUrl: "https://bscscan.com/tx/{hash}",
+      explorerAddressUrl: "https://bscscan.com/address/{address}",
+      minGasBalance: "0.005",
+    },
+  ]);
+});
+
+after(async () => {
+  await primary.close();
+  await fallback.close();
+});
+
+test("the ETH key signs on another chain's endpoints when that chain is expected", async () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "export-"));
+
+  await transfer({
+    fireblocksApiClient: client,
+    ethereumProviderUrl: primary.url,
+    fallbackProviderUrls: [fallback.url],
+    sourceVaultAccountId: "1",
+    recipientAddress: RECIPIENT,
+    assetIdentifier: "ETH",
+    assetSymbol: "BNB",
+    transferAmount: "0.01",
+    expectedChainIds: [56],
+    signOnly: true,
+    exportDirectory: directory,
+  });
+
+  const exported = readSignedTransactionExport(path.join(directory, fs.readdirSync(directory)[0]));
+  assert.equal(exported.chainId, 56);
+  assert.equal(exported.signer, client.address);
+
+  // Reads skip the trailing primary instead of rejecting both endpoints as not on chain 1
+  const reads = (stub: RpcStub) => stub.calls.filter((call) => call.method === "eth_getTransactionCount").length;
+  assert.equal(reads(primary), 0);
+  assert.ok(reads(fallback) > 0);
+});
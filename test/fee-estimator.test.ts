@@ -0,0 +1,142 @@
+/**
+ * Tests for per-asset fee estimates and their USD conversion
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FeeEstimator, JsonFilePriceSource, toFeeEstimateCsv } from "../EVM/fee_estimator";
+import { ConfigurationError } from "../shared/errors";
+import { RpcStub, RpcStubError, startRpcStub, useChainRegistry } from "./support/rpc-stub";
+
+const { Web3 } = require("web3");
+
+const abi = new Web3().eth.abi;
+
+const HOLDER = "0x1111111111111111111111111111111111111111";
+const RECIPIENT = "0x5555555555555555555555555555555555555555";
+const TOKEN = "0x3333333333333333333333333333333333333333";
+const REVERTING_TOKEN = "0x4444444444444444444444444444444444444bad";
+
+/**
+ * Fireblocks client answering fee and supported-asset reads
+ */
+const client: any = {
+  getFeeForAsset: async () => ({
+    low: { networkFee: "0.00021", gasPrice: 10 },
+    medium: { networkFee: "0.00042", gasPrice: 20 },
+    high: { networkFee: "0.00063", baseFee: 25, priorityFee: 5 },
+  }),
+  getSupportedAssets: async () => [
+    { id: "USDC", name: "USD Coin", type: "ERC20", nativeAsset: "ETH", contractAddress: TOKEN },
+    { id: "BAD", name: "Bad Token", type: "ERC20", nativeAsset: "ETH", contractAddress: REVERTING_TOKEN },
+  ],
+};
+
+let rpc: RpcStub;
+let prices: string;
+
+before(async () => {
+  rpc = await startRpcStub((method, params) => {
+    switch (method) {
+      case "eth_chainId":
+        return "0x1";
+      case "eth_blockNumber":
+        return "0x10";
+      case "eth_call":
+        // balanceOf: 1000 units
+        return abi.encodeParameter("uint256", 1000);
+      case "eth_estimateGas":
+        if (params[0].to.toLowerCase() === REVERTING_TOKEN) {
+          throw new RpcStubError("execution reverted");
+        }
+        return `0x${(51234).toString(16)}`;
+      default:
+        return null;
+    }
+  });
+
+  useChainRegistry([
+    {
+      chainId: 1,
+      name: "Ethereum",
+      nativeAssetId: "ETH",
+      nativeSymbol: "ETH",
+      rpcUrls: [rpc.url],
+      eip1559: true,
+      gasDecimals: 18,
+      explorerTxUrl: "https://etherscan.io/tx/{hash}",
+      explorerAddressUrl: "https://etherscan.io/address/{address}",
+      minGasBalance: "0.001",
+    },
+  ]);
+
+  prices = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "prices-")), "prices.json");
+  fs.writeFileSync(prices, JSON.stringify({ eth: "2450.12" }));
+});
+
+after(async () => {
+  await rpc.close();
+});
+
+test("a token's transfer gas is estimated from the holder's full balance", async () => {
+  const estimator = new FeeEstimator(client, { erc20Transfer: { from: HOLDER, to: RECIPIENT } });
+  const estimate = await estimator.estimate("USDC");
+
+  assert.equal(estimate.nativeAssetId, "ETH");
+  assert.equal(estimate.erc20GasLimit, "51234");
+  assert.equal(estimate.erc20GasEstimated, true);
+
+  // 51234 gas at 20 gwei; the high tier prices gas at base fee plus tip
+  assert.equal(estimate.tiers!.medium.erc20TransferFee, "0.00102468");
+  assert.equal(estimate.tiers!.high.gasPriceGwei, "30");
+  assert.equal(estimate.tiers!.high.nativeTransferFee, "0.00063");
+
+  const [call] = rpc.calls.filter((item) => item.method === "eth_estimateGas");
+  const [to, amount] = Object.values(abi.decodeParameters(["address", "uint256"], `0x${call.params[0].data.slice(10)}`));
+  assert.equal(call.params[0].from, HOLDER);
+  assert.equal(String(to).toLowerCase(), RECIPIENT);
+  assert.equal(BigInt(amount as bigint), 1000n);
+});
+
+test("native assets, unestimated and reverting tokens fall back to the assumed gas", async () => {
+  const estimator = new FeeEstimator(client, { erc20Transfer: { from: HOLDER, to: RECIPIENT } });
+  const [eth, bad] = await estimator.estimateAll(["ETH", "BAD"]);
+
+  assert.equal(eth.erc20GasLimit, "65000");
+  assert.equal(eth.erc20GasEstimated, false);
+  assert.equal(bad.erc20GasLimit, "65000");
+  assert.equal(bad.erc20GasEstimated, false);
+
+  const assumed = await new FeeEstimator(client, { erc20TransferGasLimit: 70000 }).estimate("USDC");
+  assert.equal(assumed.erc20GasLimit, "70000");
+  assert.equal(assumed.erc20GasEstimated, false);
+});
+
+test("USD costs are exact decimal strings, rounded up to six decimals", async () => {
+  const estimator = new FeeEstimator(client, { priceSource: new JsonFilePriceSource(prices) });
+  const estimate = await estimator.estimate("ETH");
+  const medium = estimate.tiers!.medium;
+
+  assert.equal(estimate.nativePriceUsd, "2450.12");
+  // 0.00042 * 2450.12 = 1.0290504
+  assert.equal(medium.networkFeeUsd, "1.029051");
+  assert.equal(medium.nativeTransferFeeUsd, "1.029051");
+  // 65000 gas at 20 gwei = 0.0013 ETH
+  assert.equal(medium.erc20TransferFeeUsd, "3.185156");
+
+  const [header, row] = toFeeEstimateCsv([estimate]).split("\n");
+  const columns = header.split(",");
+  const values = row.split(",");
+  assert.equal(values[columns.indexOf("erc20GasLimit")], "65000");
+  assert.equal(values[columns.indexOf("networkFeeUsd")], "0.514526");
+});
+
+test("price files reject values that are not non-negative decimals", () => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "prices-")), "prices.json");
+  fs.writeFileSync(file, JSON.stringify({ ETH: "-1" }));
+
+  assert.throws(() => new JsonFilePriceSource(file), ConfigurationError);
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for the per-chain gas price ceilings and fee budgets
+ */
+
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { FeePolicy } from "../shared/fee-policy";
+import { FeeLimitExceededError } from "../shared/errors";
+import { parseUnits } from "../shared/amounts";
+
+const GWEI = 1_000_000_000n;
+
+test("rejects gas prices over the default ceiling", () => {
+  const policy = new FeePolicy();
+
+  assert.equal(policy.check(1, 21000n, 500n * GWEI), undefined);
+
+  const violation = policy.check(1, 21000n, 501n * GWEI);
+  assert.ok(violation instanceof FeeLimitExceededError);
+  assert.equal(violation.limit, "gasPrice");
+});
+
+test("chain overrides replace the defaults", () => {
+  const policy = new FeePolicy({
+    defaults: { maxGasPriceGwei: 50 },
+    chains: { 137: { maxGasPriceGwei: 1000 } },
+  });
+
+  assert.equal(policy.check(1, undefined, 51n * GWEI)?.limit, "gasPrice");
+  assert.equal(policy.check(137, undefined, 900n * GWEI), undefined);
+});
+
+test("rejects a transaction whose worst-case fee is over the maximum", () => {
+  const policy = new FeePolicy({ chains: { 1: { maxTransactionFee: "0.001" } } });
+
+  // 21000 gas * 40 gwei = 0.00084 ETH
+  assert.equal(policy.check(1, 21000n, 40n * GWEI), undefined);
+  // 21000 gas * 50 gwei = 0.00105 ETH
+  assert.equal(policy.check(1, 21000n, 50n * GWEI)?.limit, "transactionFee");
+});
+
+test("authorize reserves fees against the batch budget and release gives them back", () => {
+  const policy = new FeePolicy({ chains: { 1: { batchBudget: "0.002" } } });
+  const fee = 21000n * 40n * GWEI;
+
+  assert.equal(policy.authorize(1, 21000n, 40n * GWEI), fee);
+  assert.equal(policy.authorize(1, 21000n, 40n * GWEI), fee);
+  assert.equal(policy.getSpent(1), 2n * fee);
+
+  assert.throws(
+    () => policy.authorize(1, 21000n, 40n * GWEI),
+    (error) => error instanceof FeeLimitExceededError && error.limit === "batchBudget"
+  );
+  assert.equal(policy.getSpent(1), 2n * fee, "a rejected transaction reserves nothing");
+
+  policy.release(1, fee);
+  assert.equal(policy.getSpent(1), fee);
+  assert.equal(policy.authorize(1, 21000n, 40n * GWEI), fee);
+
+  assert.equal(policy.getSpent(137), 0n, "budgets are per chain");
+  assert.ok(policy.getSpent(1) <= parseUnits("0.002", 18));
+});
+
+test("release never drives the spend below zero", () => {
+  const policy = new FeePolicy();
+
+  policy.authorize(1, 21000n, GWEI);
+  policy.release(1, 10n ** 18n);
+
+  assert.equal(policy.getSpent(1), 0n);
+});
@@ -0,0 +1,168 @@
+/**
+ * Tests for returning leftover gas to the funding vault
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { TransactionStatus } from "fireblocks-sdk";
+import { TransactionFactory } from "@ethereumjs/tx";
+import { returnLeftoverGas } from "../EVM/gas_return";
+import { fakeFireblocks } from "./support/fake-fireblocks";
+import { RpcStub, startRpcStub, stubBlock, stubReceipt, useChainRegistry } from "./support/rpc-stub";
+
+const { Web3 } = require("web3");
+
+const GWEI = 1_000_000_000n;
+const FUNDED = "0x11111111111111111111111111111111111111aa";
+const DUST = "0x2222222222222222222222222222222222222222";
+const FUNDING_ADDRESS = "0x1010101010101010101010101010101010101010";
+
+let rpc: RpcStub;
+const sentRaw: string[] = [];
+
+before(async () => {
+  rpc = await startRpcStub((method, params) => {
+    switch (method) {
+      case "eth_chainId":
+        return "0x1";
+      case "eth_getBlockByNumber":
+        return stubBlock(GWEI);
+      case "eth_gasPrice":
+        return `0x${(2n * GWEI).toString(16)}`;
+      case "eth_maxPriorityFeePerGas":
+        return `0x${GWEI.toString(16)}`;
+      case "eth_getBalance":
+        // 0.01 ETH, or 2000 gwei: less than the fee it would take to send it
+        return params[0].toLowerCase() === DUST ? `0x${(2000n * GWEI).toString(16)}` : `0x${(10n ** 16n).toString(16)}`;
+      case "eth_getTransactionCount":
+        return "0x5";
+      case "eth_call":
+        return "0x";
+      case "eth_sendRawTransaction":
+        sentRaw.push(params[0]);
+        return new Web3().utils.keccak256(params[0]);
+      case "eth_getTransactionReceipt":
+        return stubReceipt(params[0]);
+      default:
+        return null;
+    }
+  });
+
+  useChainRegistry([
+    {
+      chainId: 1,
+      name: "Ethereum",
+      nativeAssetId: "ETH",
+      nativeSymbol: "ETH",
+      rpcUrls: [rpc.url],
+      eip1559: true,
+      gasDecimals: 18,
+      explorerTxUrl: "https://etherscan.io/tx/{hash}",
+      explorerAddressUrl: "https://etherscan.io/address/{address}",
+      minGasBalance: "0.001",
+    },
+  ]);
+});
+
+after(async () => {
+  await rpc.close();
+});
+
+/**
+ * Fireblocks client tracking ETH in vaults 1, 2 and 4, with vault 2 holding dust
+ */
+function fakeFireblocksClient() {
+  return fakeFireblocks({
+    wallets: {
+      "1:ETH": { available: "0.01", total: "0.02" },
+      "2:ETH": { available: "0.000002" },
+      "4:ETH": { available: "0.01" },
+    },
+    networkFee: "0.000063",
+    depositAddresses: { "10": FUNDING_ADDRESS },
+  });
+}
+
+test("returns the available balance less Fireblocks' fee estimate through an internal transfer", async () => {
+  const client = fakeFireblocksClient();
+
+  const results = await returnLeftoverGas(
+    client,
+    [{ vaultId: "1", chain: "ETH", address: FUNDED }],
+    { fundingVaultId: "10", safetyMarginPercent: 10 }
+  );
+
+  // Fireblocks' 63000 gwei fee estimate * 1.1 = 69300 gwei held back
+  assert.deepEqual(results, [
+    {
+      vaultId: "1",
+      nativeAssetId: "ETH",
+      amount: "0.0099307",
+      transactionId: "tx-1",
+      status: TransactionStatus.COMPLETED,
+      error: undefined,
+    },
+  ]);
+  assert.equal(client.created.length, 1);
+  assert.equal(client.created[0].amount, "0.0099307");
+  assert.equal(client.created[0].source.id, "1");
+  assert.equal(client.created[0].destination.id, "10");
+});
+
+test("signs and sends a raw sweep when the vault's gas is not in Fireblocks", async () => {
+  const client = fakeFireblocksClient();
+
+  const results = await returnLeftoverGas(
+    client,
+    [{ vaultId: "5", chain: "ETH", address: client.address }],
+    { fundingVaultId: "10", safetyMarginPercent: 10 }
+  );
+
+  // 0.01 ETH less 21000 gas * 3 gwei worst case * 1.1
+  const amount = 10n ** 16n - 69300n * GWEI;
+
+  assert.equal(sentRaw.length, 1);
+  const sent = TransactionFactory.fromSerializedData(Buffer.from(sentRaw[0].slice(2), "hex"));
+  assert.equal(sent.getSenderAddress().toString(), client.address);
+  assert.equal(sent.to?.toString(), FUNDING_ADDRESS);
+  assert.equal(BigInt(sent.value.toString()), amount);
+  assert.equal(Number(sent.nonce), 5);
+
+  assert.deepEqual(results, [
+    {
+      vaultId: "5",
+      nativeAssetId: "ETH",
+      amount: "0.0099307",
+      transactionId: new Web3().utils.keccak256(sentRaw[0]),
+      status: TransactionStatus.COMPLETED,
+      error: undefined,
+    },
+  ]);
+  assert.equal(client.created[0].operation, "RAW");
+});
+
+test("keeps dust, skips the funding vault and reports failures without stopping", async () => {
+  const client = fakeFireblocksClient();
+
+  const results = await returnLeftoverGas(
+    client,
+    [
+      { vaultId: "2", chain: "ETH", address: DUST },
+      { vaultId: "10", chain: "ETH", address: FUNDED },
+      { vaultId: "3", chain: "Nowhere", address: FUNDED },
+      { vaultId: "4", chain: "ETH", address: FUNDED },
+    ],
+    { fundingVaultId: "10", safetyMarginPercent: 10 }
+  );
+
+  assert.equal(results.length, 2);
+  assert.equal(results[0].vaultId, "3");
+  assert.equal(results[0].amount, "0");
+  assert.match(results[0].error!, /Nowhere/);
+  assert.equal(results[1].vaultId, "4");
+  assert.equal(results[1].status, TransactionStatus.COMPLETED);
+  assert.deepEqual(
+    client.created.map((payload: any) => payload.source.id),
+    ["4"]
+  );
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for per-vault gas top-up planning against a local RPC stub
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { planGasTopUps } from "../EVM/gas_topup_planner";
+import { parseUnits } from "../shared/amounts";
+import { RpcHandler, RpcStub, RpcStubError, startRpcStub, stubBlock, useChainRegistry } from "./support/rpc-stub";
+
+const GWEI = 1_000_000_000n;
+const FUNDED = "0x11111111111111111111111111111111111111aa";
+const EMPTY = "0x2222222222222222222222222222222222222222";
+const TOKEN = "0x3333333333333333333333333333333333333333";
+const REVERTING_TOKEN = "0x4444444444444444444444444444444444444bad";
+const RECIPIENT = "0x5555555555555555555555555555555555555555";
+
+let rpc: RpcStub;
+let stale: RpcStub;
+let live: RpcStub;
+
+/**
+ * Node answering the planner's reads for a chain at a block height
+ */
+function node(chainId: string, blockNumber: string): RpcHandler {
+  return (method, params) => {
+    switch (method) {
+      case "eth_chainId":
+        return chainId;
+      case "eth_blockNumber":
+        return blockNumber;
+      case "eth_getBlockByNumber":
+        return stubBlock(GWEI);
+      case "eth_gasPrice":
+        return `0x${(2n * GWEI).toString(16)}`;
+      case "eth_maxPriorityFeePerGas":
+        return `0x${GWEI.toString(16)}`;
+      case "eth_getCode":
+        return "0x";
+      case "eth_getBalance":
+        return params[0].toLowerCase() === FUNDED ? `0x${(10n ** 16n).toString(16)}` : "0x0";
+      case "eth_call":
+        // balanceOf: 1000 units
+        return `0x${(1000).toString(16).padStart(64, "0")}`;
+      case "eth_estimateGas":
+        if (params[0].to.toLowerCase() === REVERTING_TOKEN) {
+          throw new RpcStubError("execution reverted");
+        }
+        return `0x${(50000).toString(16)}`;
+      default:
+        return null;
+    }
+  };
+}
+
+before(async () => {
+  rpc = await startRpcStub(node("0x1", "0x10"));
+  // Polygon's first registry RPC trails the second by 15 blocks
+  stale = await startRpcStub(node("0x89", "0x1"));
+  live = await startRpcStub(node("0x89", "0x10"));
+
+  useChainRegistry([
+    {
+      chainId: 1,
+      name: "Ethereum",
+      nativeAssetId: "ETH",
+      nativeSymbol: "ETH",
+      rpcUrls: [rpc.url],
+      eip1559: true,
+      gasDecimals: 18,
+      explorerTxUrl: "https://etherscan.io/tx/{hash}",
+      explorerAddressUrl: "https://etherscan.io/address/{address}",
+      minGasBalance: "0.001",
+    },
+    {
+      chainId: 137,
+      name: "Polygon",
+      nativeAssetId: "MATIC_POLYGON",
+      nativeSymbol: "MATIC",
+      rpcUrls: [stale.url, live.url],
+      eip1559: true,
+      gasDecimals: 18,
+      explorerTxUrl: "https://polygonscan.com/tx/{hash}",
+      explorerAddressUrl: "https://polygonscan.com/address/{address}",
+      minGasBalance: "0.1",
+    },
+  ]);
+});
+
+after(async () => {
+  await rpc.close();
+  await stale.close();
+  await live.close();
+});
+
+test("plans the worst-case sweep fees plus margin and tops up only the shortfall", async () => {
+  const plan = await planGasTopUps(
+    [
+      { vaultId: "1", chain: "ETH", address: FUNDED, tokenAddress: TOKEN, tokenName: "TOK" },
+      { vaultId: "2", chain: "Ethereum", address: EMPTY, tokenAddress: TOKEN, tokenName: "TOK" },
+      { vaultId: "2", chain: "1", address: EMPTY, tokenAddress: REVERTING_TOKEN, tokenName: "BAD" },
+      { vaultId: "2", chain: "ETH", address: EMPTY, tokenName: "NOADDR" },
+    ],
+    { recipientAddress: RECIPIENT, safetyMarginPercent: 10 }
+  );
+
+  // maxFeePerGas = 2 * 1 gwei base fee + 1 gwei tip
+  const pricePerGas = 3n * GWEI;
+
+  // 50000 estimated gas with the 20% estimation buffer
+  assert.equal(plan[0].vaultId, "1");
+  assert.equal(plan[0].gasLimit, "60000");
+  assert.equal(plan[0].required, "0.000198");
+  assert.equal(plan[0].topUp, "0");
+
+  // The reverting transfer is skipped; the one without a contract assumes 65000 gas
+  const gasLimit = 60000n + 78000n;
+  assert.equal(plan[1].vaultId, "2");
+  assert.deepEqual(plan[1].tokens, ["TOK", "NOADDR"]);
+  assert.deepEqual(plan[1].skippedTokens, ["BAD"]);
+  assert.equal(plan[1].gasLimit, gasLimit.toString());
+  assert.equal(parseUnits(plan[1].topUp, 18), (gasLimit * pricePerGas * 110n) / 100n);
+  assert.equal(plan[1].balance, "0");
+});
+
+test("estimates the transfer to the sweep recipient", () => {
+  const estimates = rpc.calls.filter((call) => call.method === "eth_estimateGas");
+
+  assert.ok(estimates.length > 0);
+  for (const { params } of estimates) {
+    assert.ok(params[0].data.toLowerCase().includes(RECIPIENT.slice(2)));
+  }
+});
+
+test("fee and gas reads fail over from a registry RPC that trails the others", async () => {
+  const [entry] = await planGasTopUps(
+    [{ vaultId: "3", chain: "Polygon", address: FUNDED, tokenAddress: TOKEN, tokenName: "TOK" }],
+    { recipientAddress: RECIPIENT, safetyMarginPercent: 10 }
+  );
+
+  assert.equal(entry.chainId, 137);
+  assert.equal(entry.gasLimit, "60000");
+  assert.equal(entry.topUp, "0");
+
+  const estimatedOn = (stub: RpcStub) => stub.calls.filter((call) => call.method === "eth_estimateGas").length;
+  assert.equal(estimatedOn(stale), 0);
+  assert.equal(estimatedOn(live), 1);
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for the largest sendable native amount
+ */
+
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { calculateMaxNativeSweep } from "../EVM/max_sweep";
+import { InsufficientBalanceError } from "../shared/errors";
+import { FeeData } from "../shared/types";
+
+const GWEI = 1_000_000_000n;
+const ETHER = 10n ** 18n;
+
+/**
+ * Web3 stand-in for a vault on a chain without an L1 data fee
+ */
+function fakeWeb3(balance: bigint, chainId: number = 1) {
+  return {
+    eth: {
+      defaultAccount: "0x00000000000000000000000000000000000000aa",
+      getBalance: async () => balance,
+      getChainId: async () => BigInt(chainId),
+    },
+  };
+}
+
+const eip1559Fees: FeeData = {
+  supportsEip1559: true,
+  gasPrice: 20n * GWEI,
+  baseFeePerGas: 20n * GWEI,
+  maxPriorityFeePerGas: 2n * GWEI,
+  maxFeePerGas: 42n * GWEI,
+};
+
+test("holds back the worst-case EIP-1559 fee plus the safety margin", async () => {
+  const sweep = await calculateMaxNativeSweep(fakeWeb3(ETHER), {
+    feeData: eip1559Fees,
+    safetyMarginPercent: 10,
+  });
+
+  const executionFee = 21000n * 42n * GWEI;
+  assert.equal(sweep.gasLimit, 21000n);
+  assert.equal(sweep.executionFee, executionFee);
+  assert.equal(sweep.l1DataFee, 0n);
+  assert.equal(sweep.reservedFee, (executionFee * 11n) / 10n);
+  assert.equal(sweep.amount, ETHER - sweep.reservedFee);
+  assert.equal(sweep.amount + sweep.reservedFee, sweep.balance);
+});
+
+test("uses the gas price on legacy chains", async () => {
+  const sweep = await calculateMaxNativeSweep(fakeWeb3(ETHER, 56), {
+    feeData: { supportsEip1559: false, gasPrice: 3n * GWEI },
+    safetyMarginPercent: 0,
+  });
+
+  assert.equal(sweep.reservedFee, 21000n * 3n * GWEI);
+  assert.equal(sweep.amount, ETHER - 21000n * 3n * GWEI);
+});
+
+test("throws when the balance does not cover the fee", async () => {
+  const reservedFee = (21000n * 42n * GWEI * 11n) / 10n;
+
+  await assert.rejects(
+    calculateMaxNativeSweep(fakeWeb3(reservedFee), { feeData: eip1559Fees, safetyMarginPercent: 10 }),
+    InsufficientBalanceError
+  );
+  await assert.rejects(
+    calculateMaxNativeSweep(fakeWeb3(0n), { feeData: eip1559Fees }),
+    InsufficientBalanceError
+  );
+});
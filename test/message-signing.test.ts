@@ -0,0 +1,160 @@
+/**
+ * Tests for EIP-191 and EIP-712 message signing through Fireblocks RAW signing
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { initWeb3Instance } from "../EVM/web3_instance.refactored";
+import { hashDomain, hashPersonalMessage, hashTypedDataV4, recoverDigestSigner } from "../EVM/message_hashing";
+import { NonceManager } from "../shared/nonce-manager";
+import { SignatureVerificationError, ValidationError } from "../shared/errors";
+import { fakeFireblocks } from "./support/fake-fireblocks";
+import { RpcStub, startRpcStub, stubBlock, useChainRegistry } from "./support/rpc-stub";
+
+const { Web3 } = require("web3");
+
+const GWEI = 1_000_000_000n;
+const RECIPIENT = "0x5555555555555555555555555555555555555555";
+
+// The example from the EIP-712 specification
+const MAIL = {
+  types: {
+    Person: [
+      { name: "name", type: "string" },
+      { name: "wallet", type: "address" },
+    ],
+    Mail: [
+      { name: "from", type: "Person" },
+      { name: "to", type: "Person" },
+      { name: "contents", type: "string" },
+    ],
+  },
+  primaryType: "Mail",
+  domain: {
+    name: "Ether Mail",
+    version: "1",
+    chainId: 1,
+    verifyingContract: "0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC",
+  },
+  message: {
+    from: { name: "Cow", wallet: "0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826" },
+    to: { name: "Bob", wallet: "0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB" },
+    contents: "Hello, Bob!",
+  },
+};
+
+let rpc: RpcStub;
+
+before(async () => {
+  rpc = await startRpcStub((method) => {
+    switch (method) {
+      case "eth_chainId":
+        return "0x1";
+      case "eth_getBlockByNumber":
+        return stubBlock(GWEI);
+      case "eth_getBalance":
+        return `0x${(10n ** 18n).toString(16)}`;
+      case "eth_getTransactionCount":
+        return "0x0";
+      default:
+        return null;
+    }
+  });
+
+  useChainRegistry([
+    {
+      chainId: 1,
+      name: "Ethereum",
+      nativeAssetId: "ETH",
+      nativeSymbol: "ETH",
+      rpcUrls: [rpc.url],
+      eip1559: true,
+      gasDecimals: 18,
+      explorerTxUrl: "https://etherscan.io/tx/{hash}",
+      explorerAddressUrl: "https://etherscan.io/address/{address}",
+      minGasBalance: "0.001",
+    },
+  ]);
+});
+
+after(async () => {
+  await rpc.close();
+});
+
+/**
+ * Sends a signing request to the Fireblocks provider of a fresh instance
+ *
+ * @returns Signature
+ */
+async function request(client: any, method: string, params: unknown[]): Promise<string> {
+  const web3 = await initWeb3Instance({
+    fireblocksApiClient: client,
+    httpProviderUrl: rpc.url,
+    vaultAccountId: "1",
+    assetId: "ETH",
+    amount: 0,
+    destAddress: RECIPIENT,
+    nonceManager: new NonceManager(),
+  });
+
+  const response = await web3.currentProvider.request({ jsonrpc: "2.0", id: 1, method, params });
+  return response.result;
+}
+
+test("personal messages are hashed with the EIP-191 prefix, hex input as raw bytes", () => {
+  const web3 = new Web3();
+
+  assert.equal(hashPersonalMessage("Hello World"), web3.eth.accounts.hashMessage("Hello World"));
+  assert.equal(hashPersonalMessage(web3.utils.utf8ToHex("Hello World")), hashPersonalMessage("Hello World"));
+});
+
+test("typed data hashes match the EIP-712 specification example", () => {
+  assert.equal(
+    hashDomain(MAIL.domain),
+    "0xf2cee375fa42b42143804025fc449deafd50cc031ca257e0b194a650a912090f"
+  );
+  assert.equal(
+    hashTypedDataV4(MAIL),
+    "0xbe609aee343fb3c4b28e1df9e632fca64fcfaede20f02e86244efddf30957bd2"
+  );
+  assert.equal(hashTypedDataV4(JSON.stringify(MAIL)), hashTypedDataV4(MAIL));
+  assert.throws(() => hashTypedDataV4({ ...MAIL, primaryType: "Letter" }), ValidationError);
+});
+
+test("personal_sign and eth_sign return v = 27/28 signatures by the vault", async () => {
+  const client = fakeFireblocks();
+
+  for (const [method, params] of [
+    ["personal_sign", ["Hello World", client.address]],
+    ["eth_sign", [client.address, "Hello World"]],
+  ] as const) {
+    const signature = await request(client, method, [...params]);
+
+    assert.equal(signature.length, 132);
+    assert.ok(["1b", "1c"].includes(signature.slice(-2)));
+    assert.equal(new Web3().eth.accounts.recover("Hello World", signature).toLowerCase(), client.address);
+  }
+
+  // The vault signed the EIP-191 digest, never the message itself
+  const raw = client.created[client.created.length - 1].extraParameters.rawMessageData.messages;
+  assert.deepEqual(raw.map((message: any) => `0x${message.content}`), [hashPersonalMessage("Hello World")]);
+});
+
+test("eth_signTypedData_v4 signs the EIP-712 digest as the vault", async () => {
+  const client = fakeFireblocks();
+  const signature = await request(client, "eth_signTypedData_v4", [client.address, JSON.stringify(MAIL)]);
+
+  assert.equal(recoverDigestSigner(hashTypedDataV4(MAIL), signature).toLowerCase(), client.address);
+});
+
+test("another address, or a signature by another key, is rejected", async () => {
+  const client = fakeFireblocks();
+  await assert.rejects(request(client, "personal_sign", ["Hello World", RECIPIENT]), ValidationError);
+  assert.equal(client.created.length, 0);
+
+  const misderived = fakeFireblocks({ signWith: `0x${"5d".repeat(32)}` });
+  await assert.rejects(
+    request(misderived, "eth_signTypedData_v4", [misderived.address, MAIL]),
+    SignatureVerificationError
+  );
+});
@@ -0,0 +1,193 @@
+/**
+ * Tests for ERC-721 and ERC-1155 transfers
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { TransactionFactory } from "@ethereumjs/tx";
+import { transfer } from "../EVM/transfer.refactored";
+import { detectNftStandard } from "../EVM/nft";
+import { NonceManager } from "../shared/nonce-manager";
+import { InsufficientBalanceError, ValidationError } from "../shared/errors";
+import { fakeFireblocks } from "./support/fake-fireblocks";
+import { RpcStub, startRpcStub, stubBlock, stubReceipt, useChainRegistry } from "./support/rpc-stub";
+
+const { Web3 } = require("web3");
+
+const web3 = new Web3();
+const abi = web3.eth.abi;
+
+const GWEI = 1_000_000_000n;
+const ERC721 = "0x7217217217217217217217217217217217217217";
+const ERC1155 = "0x1155115511551155115511551155115511551155";
+const OTHER = "0x3333333333333333333333333333333333333333";
+const RECIPIENT = "0x5555555555555555555555555555555555555555";
+
+const client = fakeFireblocks();
+const owner: string = client.address;
+
+// ERC-721 tokens 7 and 9 belong to the vault, 8 to someone else
+const ERC721_OWNERS: Record<string, string> = { "7": owner, "8": OTHER, "9": owner };
+const ERC1155_BALANCES: Record<string, bigint> = { "1": 3n, "2": 0n, "5": 10n };
+
+let rpc: RpcStub;
+const sentRaw: string[] = [];
+
+/**
+ * Answers the NFT contracts' view calls by selector
+ */
+function callNft(to: string, data: string): string {
+  const selector = data.slice(0, 10);
+  const args = `0x${data.slice(10)}`;
+  const uint = (value: bigint | number) => abi.encodeParameter("uint256", value);
+
+  switch (selector) {
+    case abi.encodeFunctionSignature("supportsInterface(bytes4)"): {
+      const interfaceId = data.slice(10, 18);
+      const supported = to === ERC721 ? ["80ac58cd", "780e9d63"] : to === ERC1155 ? ["d9b67a26"] : [];
+      return abi.encodeParameter("bool", supported.includes(interfaceId));
+    }
+    case abi.encodeFunctionSignature("balanceOf(address)"):
+      return uint(2);
+    case abi.encodeFunctionSignature("tokenOfOwnerByIndex(address,uint256)"):
+      return uint([7, 9][Number(abi.decodeParameters(["address", "uint256"], args)[1])]);
+    case abi.encodeFunctionSignature("ownerOf(uint256)"):
+      return abi.encodeParameter("address", ERC721_OWNERS[String(abi.decodeParameter("uint256", args))]);
+    case abi.encodeFunctionSignature("balanceOfBatch(address[],uint256[])"): {
+      const ids: bigint[] = abi.decodeParameters(["address[]", "uint256[]"], args)[1];
+      return abi.encodeParameter("uint256[]", ids.map((id) => ERC1155_BALANCES[String(id)] ?? 0n));
+    }
+    default:
+      // safeTransferFrom / safeBatchTransferFrom
+      return "0x";
+  }
+}
+
+before(async () => {
+  rpc = await startRpcStub((method, params) => {
+    switch (method) {
+      case "eth_chainId":
+        return "0x1";
+      case "eth_getBlockByNumber":
+        return stubBlock(GWEI);
+      case "eth_gasPrice":
+        return `0x${(2n * GWEI).toString(16)}`;
+      case "eth_maxPriorityFeePerGas":
+        return `0x${GWEI.toString(16)}`;
+      case "eth_getBalance":
+        return `0x${(10n ** 18n).toString(16)}`;
+      case "eth_getTransactionCount":
+        return "0x0";
+      case "eth_call":
+        return callNft(params[0].to.toLowerCase(), params[0].data ?? params[0].input);
+      case "eth_estimateGas":
+        return `0x${(80000).toString(16)}`;
+      case "eth_sendRawTransaction":
+        sentRaw.push(params[0]);
+        return web3.utils.keccak256(params[0]);
+      case "eth_getTransactionReceipt":
+        return stubReceipt(params[0]);
+      default:
+        return null;
+    }
+  });
+
+  useChainRegistry([
+    {
+      chainId: 1,
+      name: "Ethereum",
+      nativeAssetId: "ETH",
+      nativeSymbol: "ETH",
+      rpcUrls: [rpc.url],
+      eip1559: true,
+      gasDecimals: 18,
+      explorerTxUrl: "https://etherscan.io/tx/{hash}",
+      explorerAddressUrl: "https://etherscan.io/address/{address}",
+      minGasBalance: "0.001",
+    },
+  ]);
+});
+
+after(async () => {
+  await rpc.close();
+});
+
+/**
+ * Transfers NFTs of a contract from vault 1 to RECIPIENT
+ *
+ * @returns Transactions broadcast by the transfer
+ */
+async function transferNfts(nftContractAddress: string, nftTokenIds?: string[]) {
+  const before = sentRaw.length;
+
+  await transfer({
+    fireblocksApiClient: client,
+    ethereumProviderUrl: rpc.url,
+    sourceVaultAccountId: "1",
+    recipientAddress: RECIPIENT,
+    assetIdentifier: "ETH",
+    assetSymbol: "NFT",
+    transferAmount: 0,
+    nftContractAddress,
+    nftTokenIds,
+    nonceManager: new NonceManager(),
+  });
+
+  return sentRaw.slice(before).map((rawTransaction) => {
+    const tx = TransactionFactory.fromSerializedData(Buffer.from(rawTransaction.slice(2), "hex"));
+    const data = `0x${tx.data.toString("hex")}`;
+    return { from: tx.getSenderAddress().toString(), to: tx.to?.toString(), nonce: Number(tx.nonce), data };
+  });
+}
+
+test("the standard is detected via ERC-165", async () => {
+  const provider = new Web3(rpc.url);
+
+  assert.equal(await detectNftStandard(provider, ERC721), "erc721");
+  assert.equal(await detectNftStandard(provider, ERC1155), "erc1155");
+  await assert.rejects(detectNftStandard(provider, OTHER), ValidationError);
+});
+
+test("ERC-721 tokens are enumerated and sent one by one with safeTransferFrom", async () => {
+  const sent = await transferNfts(ERC721);
+  const encode = (tokenId: number) =>
+    abi.encodeFunctionSignature("safeTransferFrom(address,address,uint256)") +
+    abi.encodeParameters(["address", "address", "uint256"], [owner, RECIPIENT, tokenId]).slice(2);
+
+  assert.deepEqual(sent.map((tx) => tx.data), [encode(7), encode(9)]);
+  assert.deepEqual(sent.map((tx) => tx.nonce), [0, 1]);
+  for (const tx of sent) {
+    assert.equal(tx.from, owner);
+    assert.equal(tx.to, ERC721);
+  }
+});
+
+test("explicit ERC-721 IDs owned by someone else are skipped", async () => {
+  const sent = await transferNfts(ERC721, ["8", "9"]);
+
+  assert.equal(sent.length, 1);
+  assert.equal(abi.decodeParameters(["address", "address", "uint256"], `0x${sent[0].data.slice(10)}`)[2], 9n);
+});
+
+test("ERC-1155 balances are sent in one safeBatchTransferFrom, zero balances left out", async () => {
+  const sent = await transferNfts(ERC1155, ["1", "2", "5"]);
+
+  assert.equal(sent.length, 1);
+  assert.equal(sent[0].to, ERC1155);
+  assert.equal(
+    sent[0].data,
+    abi.encodeFunctionSignature("safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)") +
+      abi
+        .encodeParameters(
+          ["address", "address", "uint256[]", "uint256[]", "bytes"],
+          [owner, RECIPIENT, [1, 5], [3, 10], "0x"]
+        )
+        .slice(2)
+  );
+});
+
+test("ERC-1155 needs token IDs, and holding none of them is an error", async () => {
+  await assert.rejects(transferNfts(ERC1155), ValidationError);
+  await assert.rejects(transferNfts(ERC1155, ["2"]), InsufficientBalanceError);
+  await assert.rejects(transferNfts(ERC721, ["8"]), InsufficientBalanceError);
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for local nonce reservation
+ */
+
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { NonceManager } from "../shared/nonce-manager";
+
+const ADDRESS = "0x00000000000000000000000000000000000000aa";
+
+/**
+ * Web3 stand-in whose pending transaction count the test controls
+ */
+function fakeWeb3(pendingCount: number) {
+  const web3 = {
+    pendingCount,
+    eth: {
+      getTransactionCount: async () => BigInt(web3.pendingCount),
+    },
+  };
+  return web3;
+}
+
+test("concurrent reservations get consecutive nonces", async () => {
+  const manager = new NonceManager();
+  const web3 = fakeWeb3(7);
+
+  const nonces = await Promise.all([1, 2, 3].map(() => manager.reserve(web3, 1, ADDRESS)));
+
+  assert.deepEqual([...nonces].sort((a, b) => a - b), [7, 8, 9]);
+  assert.equal(manager.getPendingCount(1, ADDRESS), 3);
+});
+
+test("nonces are tracked per chain and case-insensitively per address", async () => {
+  const manager = new NonceManager();
+  const web3 = fakeWeb3(0);
+
+  assert.equal(await manager.reserve(web3, 1, ADDRESS), 0);
+  assert.equal(await manager.reserve(web3, 1, ADDRESS.toUpperCase().replace("0X", "0x")), 1);
+  assert.equal(await manager.reserve(web3, 137, ADDRESS), 0);
+});
+
+test("a released nonce is handed out again before new ones", async () => {
+  const manager = new NonceManager();
+  const web3 = fakeWeb3(0);
+
+  const first = await manager.reserve(web3, 1, ADDRESS);
+  const second = await manager.reserve(web3, 1, ADDRESS);
+  manager.markSubmitted(1, ADDRESS, second);
+  manager.release(1, ADDRESS, first);
+
+  assert.deepEqual(manager.getStatus(1, ADDRESS).released, [0]);
+  assert.equal(await manager.reserve(web3, 1, ADDRESS), 0);
+  assert.equal(await manager.reserve(web3, 1, ADDRESS), 2);
+});
+
+test("releasing the newest nonce rewinds instead of leaving a gap", async () => {
+  const manager = new NonceManager();
+  const web3 = fakeWeb3(4);
+
+  const nonce = await manager.reserve(web3, 1, ADDRESS);
+  manager.release(1, ADDRESS, nonce);
+
+  assert.equal(manager.getStatus(1, ADDRESS).nextNonce, 4);
+  assert.equal(await manager.reserve(web3, 1, ADDRESS), 4);
+});
+
+test("mined and externally sent nonces are resynced from the node", async () => {
+  const manager = new NonceManager();
+  const web3 = fakeWeb3(0);
+
+  const nonce = await manager.reserve(web3, 1, ADDRESS);
+  manager.markSubmitted(1, ADDRESS, nonce);
+
+  // Our transaction and two sent elsewhere were mined
+  web3.pendingCount = 3;
+
+  assert.equal(await manager.reserve(web3, 1, ADDRESS), 3);
+  assert.deepEqual(manager.getStatus(1, ADDRESS).submitted, []);
+});
+
+test("detectGaps reports submitted transactions the node dropped", async () => {
+  const manager = new NonceManager();
+  const web3 = fakeWeb3(0);
+
+  for (let i = 0; i < 3; i++) {
+    manager.markSubmitted(1, ADDRESS, await manager.reserve(web3, 1, ADDRESS));
+  }
+
+  // Nonce 0 mined, 1 and 2 no longer known to the node
+  web3.pendingCount = 1;
+
+  assert.deepEqual(await manager.detectGaps(web3, 1, ADDRESS), [1, 2]);
+  assert.deepEqual(await manager.detectGaps(web3, 5, ADDRESS), []);
+});
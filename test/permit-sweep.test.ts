@@ -0,0 +1,183 @@
+/**
+ * Tests for ERC-2612 permit sweeps paid for by a relayer vault
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { TransactionFactory } from "@ethereumjs/tx";
+import { transfer } from "../EVM/transfer.refactored";
+import { hashDomain } from "../EVM/message_hashing";
+import { fakeFireblocks } from "./support/fake-fireblocks";
+import { RpcStub, RpcStubError, startRpcStub, stubBlock, stubReceipt, useChainRegistry } from "./support/rpc-stub";
+
+const { Web3 } = require("web3");
+
+const web3 = new Web3();
+const abi = web3.eth.abi;
+
+const GWEI = 1_000_000_000n;
+const TOKEN = "0x3333333333333333333333333333333333333333";
+const RECIPIENT = "0x5555555555555555555555555555555555555555";
+const RELAYER_KEY = `0x${"5d".repeat(32)}`;
+const BALANCE = 1000n;
+
+const client = fakeFireblocks({ privateKeys: { "2": RELAYER_KEY } });
+const owner = client.addressOf("1");
+const relayer = client.addressOf("2");
+
+let rpc: RpcStub;
+let allowance = 0n;
+const sentRaw: string[] = [];
+
+/**
+ * Answers the token's view calls by selector
+ */
+function callToken(data: string): string {
+  const selector = data.slice(0, 10);
+  const uint = (value: bigint) => abi.encodeParameter("uint256", value);
+
+  switch (selector) {
+    case abi.encodeFunctionSignature("nonces(address)"):
+      return uint(0n);
+    case abi.encodeFunctionSignature("DOMAIN_SEPARATOR()"):
+      return hashDomain({ name: "Permit Token", version: "1", chainId: 1, verifyingContract: TOKEN });
+    case abi.encodeFunctionSignature("name()"):
+      return abi.encodeParameter("string", "Permit Token");
+    case abi.encodeFunctionSignature("balanceOf(address)"):
+      return uint(BALANCE);
+    case abi.encodeFunctionSignature("allowance(address,address)"):
+      return uint(allowance);
+    case abi.encodeFunctionSignature("transferFrom(address,address,uint256)"):
+      return abi.encodeParameter("bool", true);
+    case abi.encodeFunctionSignature("version()"):
+      // No version() getter: the domain falls back to version "1"
+      throw new RpcStubError("execution reverted");
+    default:
+      // permit()
+      return "0x";
+  }
+}
+
+before(async () => {
+  rpc = await startRpcStub((method, params) => {
+    switch (method) {
+      case "eth_chainId":
+        return "0x1";
+      case "eth_getBlockByNumber":
+        return stubBlock(GWEI);
+      case "eth_gasPrice":
+        return `0x${(2n * GWEI).toString(16)}`;
+      case "eth_maxPriorityFeePerGas":
+        return `0x${GWEI.toString(16)}`;
+      case "eth_getBalance":
+        return `0x${(10n ** 16n).toString(16)}`;
+      case "eth_getTransactionCount":
+        return "0x0";
+      case "eth_call":
+        return callToken(params[0].data ?? params[0].input);
+      case "eth_estimateGas":
+        return `0x${(50000).toString(16)}`;
+      case "eth_sendRawTransaction":
+        sentRaw.push(params[0]);
+        return web3.utils.keccak256(params[0]);
+      case "eth_getTransactionReceipt":
+        return stubReceipt(params[0]);
+      default:
+        return null;
+    }
+  });
+
+  useChainRegistry([
+    {
+      chainId: 1,
+      name: "Ethereum",
+      nativeAssetId: "ETH",
+      nativeSymbol: "ETH",
+      rpcUrls: [rpc.url],
+      eip1559: true,
+      gasDecimals: 18,
+      explorerTxUrl: "https://etherscan.io/tx/{hash}",
+      explorerAddressUrl: "https://etherscan.io/address/{address}",
+      minGasBalance: "0.001",
+    },
+  ]);
+});
+
+after(async () => {
+  await rpc.close();
+});
+
+/**
+ * Decodes a broadcast transaction's sender, target and call arguments
+ */
+function decodeSent(rawTransaction: string, inputs: string[]) {
+  const tx = TransactionFactory.fromSerializedData(Buffer.from(rawTransaction.slice(2), "hex"));
+  const data = `0x${tx.data.toString("hex")}`;
+
+  return {
+    from: tx.getSenderAddress().toString(),
+    to: tx.to?.toString(),
+    selector: data.slice(0, 10),
+    args: abi.decodeParameters(inputs, `0x${data.slice(10)}`),
+  };
+}
+
+test("the relayer submits the owner's permit, then transferFrom to the recipient", async () => {
+  await transfer({
+    fireblocksApiClient: client,
+    ethereumProviderUrl: rpc.url,
+    sourceVaultAccountId: "1",
+    recipientAddress: RECIPIENT,
+    assetIdentifier: "ETH",
+    assetSymbol: "PTK",
+    transferAmount: 0,
+    erc20ContractAddress: TOKEN,
+    permitRelayerVaultId: "2",
+  });
+
+  assert.equal(sentRaw.length, 2);
+
+  const permit = decodeSent(sentRaw[0], ["address", "address", "uint256", "uint256", "uint8", "bytes32", "bytes32"]);
+  assert.equal(permit.from, relayer);
+  assert.equal(permit.to, TOKEN);
+  assert.equal(permit.selector, abi.encodeFunctionSignature("permit(address,address,uint256,uint256,uint8,bytes32,bytes32)"));
+  assert.equal(permit.args[0].toLowerCase(), owner);
+  assert.equal(permit.args[1].toLowerCase(), relayer);
+  assert.equal(permit.args[2], BALANCE);
+
+  const transferFrom = decodeSent(sentRaw[1], ["address", "address", "uint256"]);
+  assert.equal(transferFrom.from, relayer);
+  assert.equal(transferFrom.selector, abi.encodeFunctionSignature("transferFrom(address,address,uint256)"));
+  assert.equal(transferFrom.args[0].toLowerCase(), owner);
+  assert.equal(transferFrom.args[1].toLowerCase(), RECIPIENT);
+  assert.equal(transferFrom.args[2], BALANCE);
+
+  // The owner vault signed only the permit (EIP-712); the relayer signed both transactions
+  assert.deepEqual(
+    client.created.map((payload: any) => payload.source.id),
+    ["1", "2", "2"]
+  );
+});
+
+test("an existing allowance skips the permit", async () => {
+  sentRaw.length = 0;
+  allowance = BALANCE;
+
+  await transfer({
+    fireblocksApiClient: client,
+    ethereumProviderUrl: rpc.url,
+    sourceVaultAccountId: "1",
+    recipientAddress: RECIPIENT,
+    assetIdentifier: "ETH",
+    assetSymbol: "PTK",
+    transferAmount: 0,
+    erc20ContractAddress: TOKEN,
+    permitRelayerVaultId: "2",
+  });
+
+  assert.equal(sentRaw.length, 1);
+  assert.equal(
+    decodeSent(sentRaw[0], ["address", "address", "uint256"]).selector,
+    abi.encodeFunctionSignature("transferFrom(address,address,uint256)")
+  );
+});
@@ -0,0 +1,251 @@
+/**
+ * Tests for speeding up and cancelling stuck transactions
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import Common from "@ethereumjs/common";
+import { FeeMarketEIP1559Transaction, TransactionFactory } from "@ethereumjs/tx";
+import { calculateReplacementFees, replaceTransaction } from "../EVM/replace_transaction";
+import { transfer } from "../EVM/transfer.refactored";
+import { readSignedTransactionExport } from "../EVM/signed_transaction_export";
+import { toHexQuantity } from "../EVM/json_rpc";
+import { ValidationError } from "../shared/errors";
+import { fakeFireblocks, TEST_PRIVATE_KEY } from "./support/fake-fireblocks";
+import { RpcStub, startRpcStub, stubBlock, stubReceipt, useChainRegistry } from "./support/rpc-stub";
+
+const { Web3 } = require("web3");
+
+const GWEI = 1_000_000_000n;
+const TOKEN = "0x3333333333333333333333333333333333333333";
+const RECIPIENT = "0x5555555555555555555555555555555555555555";
+
+const client = fakeFireblocks();
+const common = Common.forCustomChain("mainnet", { name: "custom", chainId: 1, networkId: 1 }, "london");
+
+let rpc: RpcStub;
+const pending = new Map<string, Record<string, unknown>>();
+const sentRaw: string[] = [];
+
+/**
+ * Decodes a serialized transaction
+ */
+function decode(rawTransaction: string) {
+  return TransactionFactory.fromSerializedData(Buffer.from(rawTransaction.slice(2), "hex"), { common });
+}
+
+/**
+ * Makes a signed transaction known to the stub as pending
+ *
+ * @returns Transaction hash
+ */
+function addPending(rawTransaction: string): string {
+  const tx = decode(rawTransaction);
+  const json: Record<string, any> = tx.toJSON();
+  const hash = `0x${tx.hash().toString("hex")}`;
+
+  pending.set(hash, {
+    ...json,
+    hash,
+    from: tx.getSenderAddress().toString(),
+    input: json.data,
+    gas: json.gasLimit,
+    gasPrice: json.gasPrice ?? json.maxFeePerGas,
+    type: `0x${tx.type}`,
+    chainId: "0x1",
+    blockHash: null,
+    blockNumber: null,
+    transactionIndex: null,
+  });
+
+  return hash;
+}
+
+before(async () => {
+  rpc = await startRpcStub((method, params) => {
+    switch (method) {
+      case "eth_chainId":
+        return "0x1";
+      case "eth_getBlockByNumber":
+        return stubBlock(GWEI);
+      case "eth_gasPrice":
+        return `0x${(2n * GWEI).toString(16)}`;
+      case "eth_maxPriorityFeePerGas":
+        return `0x${GWEI.toString(16)}`;
+      case "eth_getBalance":
+        return `0x${(10n ** 16n).toString(16)}`;
+      case "eth_getTransactionCount":
+        return "0x3";
+      case "eth_getTransactionByHash":
+        return pending.get(params[0]) ?? null;
+      case "eth_call":
+        return "0x";
+      case "eth_sendRawTransaction":
+        sentRaw.push(params[0]);
+        return new Web3().utils.keccak256(params[0]);
+      case "eth_getTransactionReceipt":
+        return stubReceipt(params[0]);
+      default:
+        return null;
+    }
+  });
+
+  useChainRegistry([
+    {
+      chainId: 1,
+      name: "Ethereum",
+      nativeAssetId: "ETH",
+      nativeSymbol: "ETH",
+      rpcUrls: [rpc.url],
+      eip1559: true,
+      gasDecimals: 18,
+      explorerTxUrl: "https://etherscan.io/tx/{hash}",
+      explorerAddressUrl: "https://etherscan.io/address/{address}",
+      minGasBalance: "0.001",
+    },
+  ]);
+});
+
+after(async () => {
+  await rpc.close();
+});
+
+test("replacement fees rise by the bump and never fall below current fees", () => {
+  const current = {
+    supportsEip1559: true,
+    gasPrice: 20n * GWEI,
+    baseFeePerGas: 20n * GWEI,
+    maxPriorityFeePerGas: 2n * GWEI,
+    maxFeePerGas: 42n * GWEI,
+  };
+
+  // Legacy gasPrice is both caps; the current 42 gwei cap wins over 10 * 1.15
+  assert.deepEqual(calculateReplacementFees({ gasPrice: 10n * GWEI }, current, 15), {
+    maxFeePerGas: 42n * GWEI,
+    maxPriorityFeePerGas: 11_500_000_000n,
+  });
+  assert.deepEqual(
+    calculateReplacementFees({ maxFeePerGas: 100n * GWEI, maxPriorityFeePerGas: GWEI }, current, 10),
+    { maxFeePerGas: 110n * GWEI, maxPriorityFeePerGas: 2n * GWEI }
+  );
+  assert.throws(() => calculateReplacementFees({ gasPrice: GWEI }, current, 5), ValidationError);
+});
+
+test("a speed-up re-signs the same nonce and payload, access list included, with bumped fees", async () => {
+  const accessList = [{ address: TOKEN, storageKeys: [`0x${"0".repeat(63)}1`] }];
+  const original = FeeMarketEIP1559Transaction.fromTxData(
+    {
+      nonce: 3,
+      to: TOKEN,
+      data: "0xa9059cbb",
+      gasLimit: 60000,
+      maxFeePerGas: toHexQuantity(10n * GWEI),
+      maxPriorityFeePerGas: toHexQuantity(2n * GWEI),
+      accessList,
+    },
+    { common }
+  ).sign(Buffer.from(TEST_PRIVATE_KEY.slice(2), "hex"));
+  const txHash = addPending(`0x${original.serialize().toString("hex")}`);
+
+  const result = await replaceTransaction({
+    fireblocksApiClient: client,
+    httpProviderUrl: rpc.url,
+    mode: "speedup",
+    txHash,
+    vaultAccountId: "1",
+    assetId: "ETH",
+  });
+
+  const replacement = decode(sentRaw[sentRaw.length - 1]) as FeeMarketEIP1559Transaction;
+  assert.equal(replacement.getSenderAddress().toString(), client.address);
+  assert.equal(Number(replacement.nonce), 3);
+  assert.equal(replacement.to?.toString(), TOKEN);
+  assert.equal(replacement.data.toString("hex"), "a9059cbb");
+  assert.equal(Number(replacement.gasLimit), 60000);
+  assert.deepEqual(replacement.toJSON().accessList, accessList);
+  assert.equal(BigInt(replacement.maxFeePerGas.toString()), 11_500_000_000n);
+  assert.equal(BigInt(replacement.maxPriorityFeePerGas.toString()), 2_300_000_000n);
+
+  assert.equal(result.nonce, 3);
+  assert.equal(result.originalTxHash, txHash);
+  assert.equal(result.replacementTxHash, `0x${replacement.hash().toString("hex")}`);
+});
+
+test("a Fireblocks transaction ID is resolved through its sign-only export", async () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "export-"));
+
+  await transfer({
+    fireblocksApiClient: client,
+    ethereumProviderUrl: rpc.url,
+    sourceVaultAccountId: "1",
+    recipientAddress: RECIPIENT,
+    assetIdentifier: "ETH",
+    assetSymbol: "ETH",
+    transferAmount: "0.001",
+    signOnly: true,
+    exportDirectory: directory,
+  });
+
+  const fireblocksTxId = `tx-${client.created.length}`;
+  const exported = readSignedTransactionExport(path.join(directory, fs.readdirSync(directory)[0]));
+  assert.equal(exported.fireblocksTxId, fireblocksTxId);
+  addPending(exported.rawTransaction);
+
+  const result = await replaceTransaction({
+    fireblocksApiClient: client,
+    httpProviderUrl: rpc.url,
+    mode: "cancel",
+    fireblocksTxId,
+    exportDirectory: directory,
+  });
+
+  const cancel = decode(sentRaw[sentRaw.length - 1]);
+  assert.equal(result.originalTxHash, exported.transactionHash);
+  assert.equal(Number(cancel.nonce), Number(exported.transaction.nonce));
+  assert.equal(cancel.to?.toString(), client.address);
+  assert.equal(BigInt(cancel.value.toString()), 0n);
+});
+
+test("an ID without a matching export, or whose export it did not sign, is rejected", async () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "export-"));
+
+  await assert.rejects(
+    replaceTransaction({
+      fireblocksApiClient: client,
+      httpProviderUrl: rpc.url,
+      mode: "cancel",
+      fireblocksTxId: "tx-1",
+      exportDirectory: directory,
+    }),
+    /No sign-only export/
+  );
+
+  // An export relabelled with the ID of a transaction that signed something else
+  await transfer({
+    fireblocksApiClient: client,
+    ethereumProviderUrl: rpc.url,
+    sourceVaultAccountId: "1",
+    recipientAddress: RECIPIENT,
+    assetIdentifier: "ETH",
+    assetSymbol: "ETH",
+    transferAmount: "0.002",
+    signOnly: true,
+    exportDirectory: directory,
+  });
+  const filePath = path.join(directory, fs.readdirSync(directory)[0]);
+  fs.writeFileSync(filePath, JSON.stringify({ ...readSignedTransactionExport(filePath), fireblocksTxId: "tx-1" }));
+
+  await assert.rejects(
+    replaceTransaction({
+      fireblocksApiClient: client,
+      httpProviderUrl: rpc.url,
+      mode: "cancel",
+      fireblocksTxId: "tx-1",
+      exportDirectory: directory,
+    }),
+    /did not sign/
+  );
+});
@@ -0,0 +1,153 @@
+/**
+ * Tests for sign-only mode and signed transaction export files
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { transfer } from "../EVM/transfer.refactored";
+import {
+  broadcastSignedTransactionExport,
+  readSignedTransactionExport,
+} from "../EVM/signed_transaction_export";
+import { NonceManager } from "../shared/nonce-manager";
+import { ValidationError } from "../shared/errors";
+import { fakeFireblocks } from "./support/fake-fireblocks";
+import { RpcStub, startRpcStub, stubBlock, useChainRegistry } from "./support/rpc-stub";
+
+const { Web3 } = require("web3");
+
+const GWEI = 1_000_000_000n;
+const RECIPIENT = "0x5555555555555555555555555555555555555555";
+
+const client = fakeFireblocks({ privateKeys: { "2": `0x${"5d".repeat(32)}` } });
+
+let rpc: RpcStub;
+let chainId = "0x1";
+const sentRaw: string[] = [];
+
+before(async () => {
+  rpc = await startRpcStub((method, params) => {
+    switch (method) {
+      case "eth_chainId":
+        return chainId;
+      case "eth_getBlockByNumber":
+        return stubBlock(GWEI);
+      case "eth_gasPrice":
+        return `0x${(2n * GWEI).toString(16)}`;
+      case "eth_maxPriorityFeePerGas":
+        return `0x${GWEI.toString(16)}`;
+      case "eth_getBalance":
+        return `0x${(10n ** 16n).toString(16)}`;
+      case "eth_getTransactionCount":
+        return "0x0";
+      case "eth_call":
+        return "0x";
+      case "eth_sendRawTransaction":
+        sentRaw.push(params[0]);
+        return new Web3().utils.keccak256(params[0]);
+      default:
+        return null;
+    }
+  });
+
+  useChainRegistry([
+    {
+      chainId: 1,
+      name: "Ethereum",
+      nativeAssetId: "ETH",
+      nativeSymbol: "ETH",
+      rpcUrls: [rpc.url],
+      eip1559: true,
+      gasDecimals: 18,
+      explorerTxUrl: "https://etherscan.io/tx/{hash}",
+      explorerAddressUrl: "https://etherscan.io/address/{address}",
+      minGasBalance: "0.001",
+    },
+  ]);
+});
+
+after(async () => {
+  await rpc.close();
+});
+
+/**
+ * Signs (without broadcasting) a native transfer from a vault into a directory
+ */
+function signOnlyTransfer(vaultId: string, exportDirectory: string) {
+  return transfer({
+    fireblocksApiClient: client,
+    ethereumProviderUrl: rpc.url,
+    sourceVaultAccountId: vaultId,
+    recipientAddress: RECIPIENT,
+    assetIdentifier: "ETH",
+    assetSymbol: "ETH",
+    transferAmount: "0.001",
+    transactionFilename: "payout",
+    signOnly: true,
+    exportDirectory,
+    // Separate managers: every vault starts at the node's nonce 0
+    nonceManager: new NonceManager(),
+  });
+}
+
+test("sign-only transfers are exported per signer and never broadcast", async () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "export-"));
+
+  await signOnlyTransfer("1", directory);
+  await signOnlyTransfer("2", directory);
+
+  assert.deepEqual(sentRaw, []);
+
+  const files = fs.readdirSync(directory).sort();
+  assert.deepEqual(
+    files,
+    [
+      `signed_payout_1_${client.addressOf("1")}_0.json`,
+      `signed_payout_1_${client.addressOf("2")}_0.json`,
+    ].sort()
+  );
+
+  for (const vaultId of ["1", "2"]) {
+    const data = readSignedTransactionExport(
+      path.join(directory, `signed_payout_1_${client.addressOf(vaultId)}_0.json`)
+    );
+    assert.equal(data.signer, client.addressOf(vaultId));
+    assert.equal(data.vaultAccountId, vaultId);
+    assert.equal(data.chainId, 1);
+    assert.equal(BigInt(data.transaction.value), 10n ** 15n);
+  }
+});
+
+test("an existing export is never overwritten", async () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "export-"));
+  await signOnlyTransfer("1", directory);
+
+  const filePath = path.join(directory, `signed_payout_1_${client.addressOf("1")}_0.json`);
+  const original = fs.readFileSync(filePath, "utf8");
+
+  await assert.rejects(signOnlyTransfer("1", directory), ValidationError);
+  assert.equal(fs.readFileSync(filePath, "utf8"), original);
+});
+
+test("exports are broadcast as signed, and rejected if edited or for another chain", async () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "export-"));
+  await signOnlyTransfer("1", directory);
+
+  const filePath = path.join(directory, fs.readdirSync(directory)[0]);
+  const data = readSignedTransactionExport(filePath);
+  const provider = new Web3.providers.HttpProvider(rpc.url);
+
+  chainId = "0x89";
+  await assert.rejects(broadcastSignedTransactionExport(filePath, provider), /chain 137/);
+  chainId = "0x1";
+
+  const edited = path.join(directory, "edited.json");
+  fs.writeFileSync(edited, JSON.stringify({ ...data, signer: RECIPIENT }));
+  assert.throws(() => readSignedTransactionExport(edited), ValidationError);
+
+  assert.equal(await broadcastSignedTransactionExport(filePath, provider), data.transactionHash);
+  assert.deepEqual(sentRaw, [data.rawTransaction]);
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for verifying Fireblocks signatures before broadcast
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { transfer } from "../EVM/transfer.refactored";
+import { NonceManager } from "../shared/nonce-manager";
+import { SignatureVerificationError } from "../shared/errors";
+import { fakeFireblocks } from "./support/fake-fireblocks";
+import { RpcStub, startRpcStub, stubBlock, useChainRegistry } from "./support/rpc-stub";
+
+const { Web3 } = require("web3");
+
+const GWEI = 1_000_000_000n;
+const RECIPIENT = "0x5555555555555555555555555555555555555555";
+
+let rpc: RpcStub;
+
+before(async () => {
+  rpc = await startRpcStub((method) => {
+    switch (method) {
+      case "eth_chainId":
+        return "0x1";
+      case "eth_getBlockByNumber":
+        return stubBlock(GWEI);
+      case "eth_gasPrice":
+        return `0x${(2n * GWEI).toString(16)}`;
+      case "eth_maxPriorityFeePerGas":
+        return `0x${GWEI.toString(16)}`;
+      case "eth_getBalance":
+        return `0x${(10n ** 18n).toString(16)}`;
+      case "eth_getTransactionCount":
+        return "0x4";
+      case "eth_call":
+        return "0x";
+      default:
+        return null;
+    }
+  });
+
+  useChainRegistry([
+    {
+      chainId: 1,
+      name: "Ethereum",
+      nativeAssetId: "ETH",
+      nativeSymbol: "ETH",
+      rpcUrls: [rpc.url],
+      eip1559: true,
+      gasDecimals: 18,
+      explorerTxUrl: "https://etherscan.io/tx/{hash}",
+      explorerAddressUrl: "https://etherscan.io/address/{address}",
+      minGasBalance: "0.001",
+    },
+  ]);
+});
+
+after(async () => {
+  await rpc.close();
+});
+
+/**
+ * Sends a native transfer from vault 1 through a client
+ */
+function send(client: any, nonceManager: NonceManager = new NonceManager()) {
+  return transfer({
+    fireblocksApiClient: client,
+    ethereumProviderUrl: rpc.url,
+    sourceVaultAccountId: "1",
+    recipientAddress: RECIPIENT,
+    assetIdentifier: "ETH",
+    assetSymbol: "ETH",
+    transferAmount: "0.01",
+    nonceManager,
+  });
+}
+
+/**
+ * Wraps a client so completed transactions report altered signed messages
+ */
+function tamperSignedMessages(client: any, tamper: (message: any) => any) {
+  return {
+    ...client,
+    getTransactionById: async (id: string) => {
+      const transaction = await client.getTransactionById(id);
+      return { ...transaction, signedMessages: transaction.signedMessages.map(tamper) };
+    },
+  };
+}
+
+test("a signature with the wrong recovery id is rejected and its nonce released", async () => {
+  const nonceManager = new NonceManager();
+  const vault = fakeFireblocks();
+  const client = tamperSignedMessages(vault, (message) => ({
+    ...message,
+    signature: { ...message.signature, v: 1 - message.signature.v },
+  }));
+
+  await assert.rejects(send(client, nonceManager), (error: unknown) => {
+    assert.ok(error instanceof SignatureVerificationError);
+    assert.match(error.message, /recovered signer is not the sender/);
+    return true;
+  });
+
+  assert.equal(rpc.calls.filter((call) => call.method === "eth_sendRawTransaction").length, 0);
+  // The next transaction from the vault takes the same nonce
+  assert.equal(await nonceManager.reserve(new Web3(rpc.url), 1, vault.address), 4);
+});
+
+test("a signature over content other than the requested hash is rejected", async () => {
+  const client = tamperSignedMessages(fakeFireblocks(), (message) => ({
+    ...message,
+    content: `${"0".repeat(63)}1`,
+  }));
+
+  await assert.rejects(send(client), /signed content does not match the requested hash/);
+});
+
+test("a signer that is not a deposit address of the vault is rejected", async () => {
+  const client = fakeFireblocks();
+  let lookups = 0;
+  const movedVault = {
+    ...client,
+    // The first lookup sets the sender; by the time it is verified the vault reports another address
+    getDepositAddresses: async (vaultId: string, assetId: string) =>
+      lookups++ === 0 ? client.getDepositAddresses(vaultId, assetId) : [{ address: RECIPIENT }],
+  };
+
+  await assert.rejects(send(movedVault), /not a deposit address of vault 1/);
+  assert.equal(rpc.calls.filter((call) => call.method === "eth_sendRawTransaction").length, 0);
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for pre-flight simulation and token transfer classification
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import {
+  classifyTransferBehaviour,
+  simulateErc20Transfer,
+  simulateTransaction,
+} from "../EVM/simulation";
+import { RpcStub, RpcStubError, startRpcStub } from "./support/rpc-stub";
+
+const { Web3 } = require("web3");
+
+const SENDER = "0x1111111111111111111111111111111111111111";
+const RECIPIENT = "0x5555555555555555555555555555555555555555";
+const TOKEN = "0x3333333333333333333333333333333333333333";
+const BLOCKED_TOKEN = "0x4444444444444444444444444444444444444444";
+
+const web3 = new Web3();
+const abi = web3.eth.abi;
+
+let rpc: RpcStub;
+let web3WithStub: any;
+
+/**
+ * eth_simulateV1 block for a transfer moving the balances from before to after
+ */
+function simulatedBlock(sender: [bigint, bigint], recipient: [bigint, bigint]) {
+  const read = (balance: bigint) => ({ status: "0x1", returnData: abi.encodeParameter("uint256", balance) });
+
+  return [
+    {
+      calls: [
+        read(sender[0]),
+        read(recipient[0]),
+        { status: "0x1", returnData: abi.encodeParameter("bool", true) },
+        read(sender[1]),
+        read(recipient[1]),
+      ],
+    },
+  ];
+}
+
+before(async () => {
+  rpc = await startRpcStub((method, params) => {
+    switch (method) {
+      case "eth_call":
+        if (params[0].to === BLOCKED_TOKEN) {
+          const reason = abi.encodeFunctionCall(
+            { name: "Error", type: "function", inputs: [{ name: "reason", type: "string" }] },
+            ["Recipient is blacklisted"]
+          );
+          throw new RpcStubError("execution reverted", 3, reason);
+        }
+        return abi.encodeParameter("bool", true);
+      case "eth_simulateV1":
+        // 100 sent, 5% kept by the token
+        return simulatedBlock([1000n, 900n], [0n, 95n]);
+      default:
+        return null;
+    }
+  });
+
+  web3WithStub = new Web3(new Web3.providers.HttpProvider(rpc.url));
+});
+
+after(async () => {
+  await rpc.close();
+});
+
+test("reverts are reported with their decoded reason and a blacklist warning", async () => {
+  const result = await simulateTransaction(web3WithStub, { from: SENDER, to: BLOCKED_TOKEN, data: "0xa9059cbb" });
+
+  assert.equal(result.success, false);
+  assert.equal(result.revertReason, "Recipient is blacklisted");
+  assert.equal(result.warnings.length, 1);
+
+  const call = rpc.calls.find((item) => item.method === "eth_call");
+  assert.equal(call?.params[1], "pending");
+});
+
+test("balance deltas from eth_simulateV1 expose a fee-on-transfer token", async () => {
+  const data = abi.encodeFunctionCall(
+    {
+      name: "transfer",
+      type: "function",
+      inputs: [
+        { name: "to", type: "address" },
+        { name: "amount", type: "uint256" },
+      ],
+    },
+    [RECIPIENT, "100"]
+  );
+  const result = await simulateErc20Transfer(web3WithStub, { from: SENDER, to: TOKEN, data }, RECIPIENT, 100n);
+
+  assert.equal(result.success, true);
+  assert.equal(result.senderDelta, 100n);
+  assert.equal(result.recipientDelta, 95n);
+  assert.match(result.warnings[0], /receives 95 of 100/);
+  assert.equal(classifyTransferBehaviour(result, 100n), "fee-on-transfer");
+});
+
+test("each behaviour is classified only on its own signal", () => {
+  const deltas = (senderDelta: bigint, recipientDelta: bigint) => ({
+    success: true,
+    senderDelta,
+    recipientDelta,
+    warnings: [],
+  });
+
+  assert.equal(classifyTransferBehaviour(deltas(100n, 100n), 100n), "standard");
+
+  // Fee taken from the amount, or charged to the sender on top
+  assert.equal(classifyTransferBehaviour(deltas(100n, 95n), 100n), "fee-on-transfer");
+  assert.equal(classifyTransferBehaviour(deltas(105n, 100n), 100n), "fee-on-transfer");
+
+  // Share rounding a unit or two either way
+  assert.equal(classifyTransferBehaviour(deltas(100n, 99n), 100n), "rebasing");
+  assert.equal(classifyTransferBehaviour(deltas(101n, 100n), 100n), "rebasing");
+
+  // No replay, a recipient credited nothing, or deltas that fit no class
+  assert.equal(classifyTransferBehaviour({ success: true, warnings: [] }, 100n), "unknown");
+  assert.equal(classifyTransferBehaviour(deltas(100n, 0n), 100n), "unknown");
+  assert.equal(classifyTransferBehaviour(deltas(50n, 50n), 100n), "unknown");
+  assert.equal(classifyTransferBehaviour(deltas(110n, 90n), 100n), "unknown");
+});
@@ -0,0 +1,102 @@
+/**
+ * Fireblocks client stand-in backed by a local private key
+ *
+ * RAW transactions are signed with the key the way Fireblocks signs them:
+ * a bare secp256k1 signature over each message's content, with `v` as the
+ * recovery id (0/1). Internal transfers complete immediately.
+ */
+
+import { TransactionOperation, TransactionStatus } from "fireblocks-sdk";
+import { ecsign, privateToAddress } from "ethereumjs-util";
+
+/**
+ * Options for {@link fakeFireblocks}
+ */
+export interface FakeFireblocksOptions {
+  /** Vault keys by vault ID; vaults not listed use {@link TEST_PRIVATE_KEY} */
+  readonly privateKeys?: Record<string, string>;
+  /** Native wallets Fireblocks tracks, by `${vaultId}:${assetId}` */
+  readonly wallets?: Record<string, { available: string; total?: string }>;
+  /** Network fee returned by estimateFeeForTransaction (high tier) */
+  readonly networkFee?: string;
+  /** Deposit addresses per vault; the vault key's address by default */
+  readonly depositAddresses?: Record<string, string>;
+  /** Key Fireblocks signs with instead of the vault's own (wrong derivation path) */
+  readonly signWith?: string;
+}
+
+export const TEST_PRIVATE_KEY = `0x${"4c".repeat(32)}`;
+
+/**
+ * Creates the fake client
+ *
+ * @returns Client with `created` (every createTransaction payload),
+ *   `address` (of vaults using the test key) and `addressOf(vaultId)`
+ */
+export function fakeFireblocks(options: FakeFireblocksOptions = {}) {
+  const keyOf = (vaultId: string): Buffer =>
+    Buffer.from((options.privateKeys?.[String(vaultId)] ?? TEST_PRIVATE_KEY).slice(2), "hex");
+  const addressOf = (vaultId: string): string => `0x${privateToAddress(keyOf(vaultId)).toString("hex")}`;
+
+  const created: any[] = [];
+  const transactions = new Map<string, any>();
+
+  const client: any = {
+    address: `0x${privateToAddress(Buffer.from(TEST_PRIVATE_KEY.slice(2), "hex")).toString("hex")}`,
+    addressOf,
+    created,
+
+    getDepositAddresses: async (vaultId: string) => [
+      { address: options.depositAddresses?.[String(vaultId)] ?? addressOf(vaultId) },
+    ],
+
+    getVaultAccountAsset: async (vaultId: string, assetId: string) => {
+      const wallet = options.wallets?.[`${vaultId}:${assetId}`];
+      if (!wallet) {
+        throw new Error(`Asset ${assetId} not found in vault ${vaultId}`);
+      }
+      return { id: assetId, total: wallet.total ?? wallet.available, available: wallet.available };
+    },
+
+    estimateFeeForTransaction: async () => {
+      const fee = { networkFee: options.networkFee };
+      return { low: fee, medium: fee, high: fee };
+    },
+
+    createTransaction: async (payload: any) => {
+      created.push(payload);
+      const id = `tx-${created.length}`;
+
+      const signingKey = options.signWith
+        ? Buffer.from(options.signWith.slice(2), "hex")
+        : keyOf(payload.source?.id);
+      const signedMessages =
+        payload.operation === TransactionOperation.RAW
+          ? payload.extraParameters.rawMessageData.messages.map(({ content }: { content: string }) => {
+              const { r, s, v } = ecsign(Buffer.from(content, "hex"), signingKey);
+              return { content, signature: { r: r.toString("hex"), s: s.toString("hex"), v: v - 27 } };
+            })
+          : undefined;
+
+      transactions.set(id, {
+        id,
+        status: TransactionStatus.COMPLETED,
+        operation: payload.operation,
+        assetId: payload.assetId,
+        source: payload.source,
+        signedMessages,
+      });
+      return { id, status: TransactionStatus.SUBMITTED };
+    },
+
+    getTransactionById: async (id: string) => {
+      const transaction = transactions.get(id);
+      if (!transaction) {
+        throw new Error(`Transaction ${id} not found`);
+      }
+      return transaction;
+    },
+  };
+
+  return client;
+}
@@ -0,0 +1,169 @@
+/**
+ * Local JSON-RPC stub and chain registry for tests
+ *
+ * Modules that build their own Web3 instance from the chain registry are
+ * pointed at an HTTP server in this process, answering from a handler.
+ */
+
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { ChainInfo } from "../../shared/types";
+
+/**
+ * JSON-RPC error a handler can throw to answer with an error response
+ */
+export class RpcStubError extends Error {
+  constructor(message: string, readonly code: number = 3, readonly data?: string) {
+    super(message);
+    this.name = "RpcStubError";
+  }
+}
+
+/**
+ * Answers one JSON-RPC call; throw {@link RpcStubError} for an error response
+ */
+export type RpcHandler = (method: string, params: any[]) => unknown;
+
+/**
+ * One call received by the stub
+ */
+export interface RpcStubCall {
+  readonly method: string;
+  readonly params: any[];
+  /** Request headers (lowercase names) */
+  readonly headers: Record<string, string | string[] | undefined>;
+  /** Raw request body the call came in */
+  readonly body: string;
+}
+
+/**
+ * Running stub
+ */
+export interface RpcStub {
+  readonly url: string;
+  /** Every call received, in order */
+  readonly calls: RpcStubCall[];
+  close(): Promise<void>;
+}
+
+/**
+ * Minimal latest block; web3 4.x validates the block schema
+ */
+export function stubBlock(baseFeePerGas?: bigint): Record<string, unknown> {
+  const hash = `0x${"1".repeat(64)}`;
+
+  return {
+    number: "0x10",
+    hash,
+    parentHash: hash,
+    mixHash: hash,
+    sha3Uncles: hash,
+    transactionsRoot: hash,
+    stateRoot: hash,
+    receiptsRoot: hash,
+    miner: `0x${"1".repeat(40)}`,
+    logsBloom: `0x${"0".repeat(512)}`,
+    nonce: "0x0000000000000000",
+    difficulty: "0x0",
+    totalDifficulty: "0x0",
+    gasLimit: "0x1c9c380",
+    gasUsed: "0x0",
+    timestamp: "0x1",
+    extraData: "0x",
+    size: "0x1",
+    transactions: [],
+    uncles: [],
+    ...(baseFeePerGas !== undefined ? { baseFeePerGas: `0x${baseFeePerGas.toString(16)}` } : {}),
+  };
+}
+
+/**
+ * Minimal mined receipt for a transaction hash; web3 4.x validates the schema
+ */
+export function stubReceipt(transactionHash: string, overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    transactionHash,
+    transactionIndex: "0x0",
+    blockHash: `0x${"1".repeat(64)}`,
+    blockNumber: "0x10",
+    from: `0x${"1".repeat(40)}`,
+    to: `0x${"2".repeat(40)}`,
+    cumulativeGasUsed: "0x5208",
+    gasUsed: "0x5208",
+    effectiveGasPrice: "0x1",
+    contractAddress: null,
+    logs: [],
+    logsBloom: `0x${"0".repeat(512)}`,
+    status: "0x1",
+    type: "0x2",
+    ...overrides,
+  };
+}
+
+/**
+ * Starts a JSON-RPC server on a free local port
+ *
+ * @param handler - Answers each call (batches are answered call by call)
+ * @returns Stub URL, recorded calls and close()
+ */
+export async function startRpcStub(handler: RpcHandler): Promise<RpcStub> {
+  const calls: RpcStubCall[] = [];
+
+  const answer = (request: any, headers: RpcStubCall["headers"], body: string) => {
+    calls.push({ method: request.method, params: request.params ?? [], headers, body });
+
+    try {
+      return { jsonrpc: "2.0", id: request.id, result: handler(request.method, request.params ?? []) ?? null };
+    } catch (error) {
+      if (error instanceof RpcStubError) {
+        return {
+          jsonrpc: "2.0",
+          id: request.id,
+          error: { code: error.code, message: error.message, data: error.data },
+        };
+      }
+      throw error;
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const payload = JSON.parse(body);
+      const respond = (request: any) => answer(request, req.headers, body);
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify(Array.isArray(payload) ? payload.map(respond) : respond(payload)));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    calls,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        // Keep-alive connections from the HTTP provider would hold close() open
+        server.closeAllConnections();
+      }),
+  };
+}
+
+/**
+ * Points the process-wide chain registry at a temporary file
+ *
+ * Must run before anything calls getChainRegistry() in this process.
+ *
+ * @param chains - Registry entries
+ */
+export function useChainRegistry(chains: readonly ChainInfo[]): void {
+  const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "chains-")), "chains.json");
+  fs.writeFileSync(filePath, JSON.stringify({ chains }));
+  process.env.CHAIN_REGISTRY_PATH = filePath;
+}
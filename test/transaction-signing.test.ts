@@ -0,0 +1,158 @@
+/**
+ * Tests for signing transactions through Fireblocks RAW signing
+ */
+
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import Common from "@ethereumjs/common";
+import { TransactionFactory } from "@ethereumjs/tx";
+import { initWeb3Instance } from "../EVM/web3_instance.refactored";
+import { NonceManager } from "../shared/nonce-manager";
+import { SignatureVerificationError } from "../shared/errors";
+import { fakeFireblocks } from "./support/fake-fireblocks";
+import { RpcHandler, RpcStub, startRpcStub, stubBlock, useChainRegistry } from "./support/rpc-stub";
+
+const GWEI = 1_000_000_000n;
+const TOKEN = "0x3333333333333333333333333333333333333333";
+const RECIPIENT = "0x5555555555555555555555555555555555555555";
+
+let ethereum: RpcStub;
+let bsc: RpcStub;
+
+/**
+ * Node for a chain, with a base fee only where EIP-1559 is active
+ */
+function node(chainId: string, baseFeePerGas?: bigint): RpcHandler {
+  return (method) => {
+    switch (method) {
+      case "eth_chainId":
+        return chainId;
+      case "eth_getBlockByNumber":
+        return stubBlock(baseFeePerGas);
+      case "eth_gasPrice":
+        return `0x${(5n * GWEI).toString(16)}`;
+      case "eth_maxPriorityFeePerGas":
+        return `0x${GWEI.toString(16)}`;
+      case "eth_getBalance":
+        return `0x${(10n ** 18n).toString(16)}`;
+      case "eth_getTransactionCount":
+        return "0x7";
+      default:
+        return null;
+    }
+  };
+}
+
+before(async () => {
+  ethereum = await startRpcStub(node("0x1", GWEI));
+  bsc = await startRpcStub(node("0x38"));
+
+  useChainRegistry([
+    {
+      chainId: 1,
+      name: "Ethereum",
+      nativeAssetId: "ETH",
+      nativeSymbol: "ETH",
+      rpcUrls: [ethereum.url],
+      eip1559: true,
+      gasDecimals: 18,
+      explorerTxUrl: "https://etherscan.io/tx/{hash}",
+      explorerAddressUrl: "https://etherscan.io/address/{address}",
+      minGasBalance: "0.001",
+    },
+    {
+      chainId: 56,
+      name: "BNB Chain",
+      nativeAssetId: "BNB_BSC",
+      nativeSymbol: "BNB",
+      rpcUrls: [bsc.url],
+      eip1559: false,
+      gasDecimals: 18,
+      explorerTxUrl: "https://bscscan.com/tx/{hash}",
+      explorerAddressUrl: "https://bscscan.com/address/{address}",
+      minGasBalance: "0.005",
+    },
+  ]);
+});
+
+after(async () => {
+  await ethereum.close();
+  await bsc.close();
+});
+
+/**
+ * Signs a transaction through the Fireblocks provider of a fresh instance
+ *
+ * @returns Serialized signed transaction
+ */
+async function sign(
+  client: any,
+  rpc: RpcStub,
+  assetId: string,
+  transaction: Record<string, unknown>
+): Promise<string> {
+  const web3 = await initWeb3Instance({
+    fireblocksApiClient: client,
+    httpProviderUrl: rpc.url,
+    vaultAccountId: "1",
+    assetId,
+    amount: 0,
+    destAddress: RECIPIENT,
+    nonceManager: new NonceManager(),
+  });
+
+  const response = await web3.currentProvider.request({
+    jsonrpc: "2.0",
+    id: 1,
+    method: "eth_signTransaction",
+    params: [{ from: web3.eth.defaultAccount, to: RECIPIENT, value: "0x1", gas: "0x5208", ...transaction }],
+  });
+
+  return response.result;
+}
+
+/**
+ * Decodes a signed transaction for a chain
+ */
+function decode(rawTransaction: string, chainId: number, hardfork: string) {
+  const common = Common.forCustomChain("mainnet", { name: "custom", chainId, networkId: chainId }, hardfork);
+  return TransactionFactory.fromSerializedData(Buffer.from(rawTransaction.slice(2), "hex"), { common });
+}
+
+test("type-2 transactions on EIP-1559 chains recover to the vault address", async () => {
+  const client = fakeFireblocks();
+  const tx: any = decode(await sign(client, ethereum, "ETH", {}), 1, "london");
+
+  assert.equal(tx.type, 2);
+  assert.equal(tx.getSenderAddress().toString(), client.address);
+  assert.equal(Number(tx.nonce), 7);
+  // 2 * 1 gwei base fee + 1 gwei tip
+  assert.equal(BigInt(tx.maxFeePerGas.toString()), 3n * GWEI);
+  assert.equal(BigInt(tx.maxPriorityFeePerGas.toString()), GWEI);
+});
+
+test("legacy transactions carry the EIP-155 chain ID and recover to the vault address", async () => {
+  const client = fakeFireblocks();
+  const tx: any = decode(await sign(client, bsc, "BNB_BSC", {}), 56, "byzantium");
+
+  assert.equal(tx.type, 0);
+  assert.equal(tx.getSenderAddress().toString(), client.address);
+  assert.ok([56 * 2 + 35, 56 * 2 + 36].includes(Number(tx.v)));
+  assert.equal(BigInt(tx.gasPrice.toString()), 5n * GWEI);
+});
+
+test("type-1 transactions keep the access list and recover to the vault address", async () => {
+  const client = fakeFireblocks();
+  const accessList = [{ address: TOKEN, storageKeys: [`0x${"0".repeat(63)}1`] }];
+  const tx: any = decode(await sign(client, bsc, "BNB_BSC", { accessList }), 56, "berlin");
+
+  assert.equal(tx.type, 1);
+  assert.equal(tx.getSenderAddress().toString(), client.address);
+  assert.deepEqual(tx.toJSON().accessList, accessList);
+});
+
+test("a signature from any other key is never returned", async () => {
+  const client = fakeFireblocks({ signWith: `0x${"9a".repeat(32)}` });
+
+  await assert.rejects(sign(client, ethereum, "ETH", {}), SignatureVerificationError);
+});